@@ -0,0 +1,163 @@
+// Reference sync server for StudyWatch
+//
+// Keeps an ordered change log per space and replays it to devices. It never
+// merges anything: each device resolves conflicts itself (see src/lib/sync.ts),
+// so every device that reads the same log ends up with the same data. There is
+// no authentication, so it listens on localhost unless told otherwise.
+//
+//   node server/sync-server.mjs [--port 8787] [--host 127.0.0.1] [--data sync-data.json]
+//
+// GET  /health                          -> { ok: true }
+// GET  /spaces/:space/changes?since=N   -> { changes, cursor }
+// POST /spaces/:space/changes {changes} -> { cursor }
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const readOption = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const PORT = Number(readOption('port', process.env.PORT ?? 8787));
+const HOST = readOption('host', '127.0.0.1');
+const DATA_FILE = resolve(readOption('data', 'sync-data.json'));
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// space -> { seq, changes: [{ seq, ...change }] }. A Map, so a space named
+// like an Object.prototype key ("__proto__", "constructor") is just a name.
+const spaces = new Map(
+  existsSync(DATA_FILE) ? Object.entries(JSON.parse(readFileSync(DATA_FILE, 'utf8'))) : []
+);
+
+// Write to a temporary file first so a crash never leaves half a log
+const persist = () => {
+  const temp = `${DATA_FILE}.tmp`;
+  writeFileSync(temp, JSON.stringify(Object.fromEntries(spaces)));
+  renameSync(temp, DATA_FILE);
+};
+
+const getSpace = (name) => {
+  if (!spaces.has(name)) spaces.set(name, { seq: 0, changes: [] });
+  return spaces.get(name);
+};
+
+// null for a malformed escape such as %E0%A4%A
+const decodeSpaceName = (encoded) => {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return null;
+  }
+};
+
+const isValidChange = (change) =>
+  change !== null &&
+  typeof change === 'object' &&
+  typeof change.store === 'string' &&
+  typeof change.id === 'string' &&
+  typeof change.deviceId === 'string' &&
+  typeof change.updatedAt === 'number' &&
+  typeof change.deleted === 'boolean' &&
+  change.fields !== null &&
+  typeof change.fields === 'object';
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (request) =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    request.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+
+const handleRequest = async (request, response) => {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+  if (request.method === 'GET' && url.pathname === '/health') {
+    send(response, 200, { ok: true });
+    return;
+  }
+
+  const match = url.pathname.match(/^\/spaces\/([^/]+)\/changes$/);
+  if (!match) {
+    send(response, 404, { error: 'Not found' });
+    return;
+  }
+  const name = decodeSpaceName(match[1]);
+  if (name === null) {
+    send(response, 400, { error: 'Invalid space name' });
+    return;
+  }
+  const space = getSpace(name);
+
+  if (request.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0) || 0;
+    const changes = space.changes.filter((change) => change.seq > since);
+    send(response, 200, { changes, cursor: String(space.seq) });
+    return;
+  }
+
+  if (request.method === 'POST') {
+    let body;
+    try {
+      body = JSON.parse(await readBody(request));
+    } catch (error) {
+      send(response, 400, { error: error instanceof Error ? error.message : 'Invalid body' });
+      return;
+    }
+    if (!Array.isArray(body?.changes) || !body.changes.every(isValidChange)) {
+      send(response, 400, { error: 'Expected { changes: [...] }' });
+      return;
+    }
+    body.changes.forEach((change) => {
+      space.seq += 1;
+      space.changes.push({ ...change, seq: space.seq });
+    });
+    persist();
+    send(response, 200, { cursor: String(space.seq) });
+    return;
+  }
+
+  send(response, 405, { error: 'Method not allowed' });
+};
+
+// One bad request must never take the server down for every other device
+const server = createServer(async (request, response) => {
+  try {
+    await handleRequest(request, response);
+  } catch (error) {
+    console.error('Request failed:', error);
+    if (!response.headersSent) {
+      send(response, 500, { error: 'Internal server error' });
+    } else {
+      response.end();
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`StudyWatch sync server listening on http://${HOST}:${PORT}, storing changes in ${DATA_FILE}`);
+});
@@ -1,7 +1,13 @@
 import { useEffect, useState } from 'react';
-import { getAllSegments, getAllTopics } from '@/lib/db';
+import { getSegmentsInRange, getClosedTimeByTopic, getOverlapDuration, getAllTopics, getReflectedSessions, Segment, SegmentKind, Topic } from '@/lib/db';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { BarChart3 } from 'lucide-react';
+import { BarChart3, AlertTriangle, ChevronRight, Coffee, ExternalLink, Star } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { TagFilter } from '@/components/TagPicker';
+import { buildTopicTree, getTopicLevelTimes, getTopicPath } from '@/lib/topicTree';
+import { getTopicColor, getTopicEmoji, isValidTopicLink } from '@/lib/topicAppearance';
+import { buildFocusReport, FocusBucket, FocusReport } from '@/lib/reflections';
+import { getSegmentKind, isStudySegment } from '@/lib/segmentKinds';
 
 interface AnalyticsPanelProps {
   refreshTrigger?: number;
@@ -9,21 +15,18 @@ interface AnalyticsPanelProps {
 }
 
 interface TopicData {
+  topicId: string | null;
+  hasChildren: boolean;
   name: string;
+  color: string;
+  emoji: string | null;
+  link: string | null;
   value: number;
   percentage: number;
 }
 
-const COLORS = [
-  'hsl(var(--primary))',
-  'hsl(var(--chart-2))',
-  'hsl(var(--chart-3))',
-  'hsl(var(--chart-4))',
-  'hsl(var(--chart-5))',
-  'hsl(262, 83%, 58%)',
-  'hsl(199, 89%, 48%)',
-  'hsl(43, 96%, 56%)',
-];
+// Reflections counted in the focus report, ending on the day shown
+const FOCUS_REPORT_DAYS = 90;
 
 const formatDuration = (ms: number): string => {
   const totalSeconds = Math.floor(ms / 1000);
@@ -45,10 +48,6 @@ const getLocalDateKey = (timestamp: number): string => {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 };
 
-const getTodayKey = (): string => {
-  return getLocalDateKey(Date.now());
-};
-
 const formatDateLabel = (date: Date): string => {
   const today = new Date();
   const yesterday = new Date(today);
@@ -68,85 +67,175 @@ const formatDateLabel = (date: Date): string => {
 };
 
 export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelProps) => {
-  const [topicData, setTopicData] = useState<TopicData[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [dayTimes, setDayTimes] = useState<Map<string | null, number>>(new Map());
+  const [browseId, setBrowseId] = useState<string | null>(null);
   const [totalTime, setTotalTime] = useState(0);
   const [allTimeTotal, setAllTimeTotal] = useState(0);
   const [dateLabel, setDateLabel] = useState("Today's Analytics");
+  const [includeManual, setIncludeManual] = useState(true);
+  const [recovered, setRecovered] = useState({ count: 0, time: 0 });
+  const [gapTimes, setGapTimes] = useState({ break: 0, pause: 0 });
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [focusReport, setFocusReport] = useState<FocusReport | null>(null);
 
   useEffect(() => {
     const loadAnalytics = async () => {
-      const allSegments = await getAllSegments();
+      const isIncluded = (seg: Segment) =>
+        (includeManual || seg.source === 'timer') && (!tagFilter || !!seg.tagIds?.includes(tagFilter));
       const allTopics = await getAllTopics();
 
       // Calculate all-time total
       let allTime = 0;
-      allSegments
-        .filter(seg => seg.endTs)
-        .forEach(seg => {
-          allTime += (seg.endTs || 0) - seg.startTs;
-        });
+      (await getClosedTimeByTopic(isIncluded)).forEach(time => {
+        allTime += time;
+      });
       setAllTimeTotal(allTime);
 
       // Determine which date to filter by
-      const targetDateKey = selectedDate 
-        ? getLocalDateKey(selectedDate.getTime()) 
-        : getTodayKey();
+      const targetDate = selectedDate ?? new Date();
+      const dayStart = new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate()).getTime();
+      const dayEnd = new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate() + 1).getTime();
+      const rangeSegments = await getSegmentsInRange(dayStart, dayEnd);
+      const daySegments = rangeSegments.filter(seg => isStudySegment(seg) && isIncluded(seg));
+
+      // Breaks and pauses taken between stretches of study
+      const gapTime = (kind: SegmentKind) => rangeSegments
+        .filter(seg => seg.endTs && getSegmentKind(seg) === kind)
+        .reduce((sum, seg) => sum + getOverlapDuration(seg, dayStart, dayEnd), 0);
+      setGapTimes({ break: gapTime('break'), pause: gapTime('pause') });
       
       setDateLabel(selectedDate ? formatDateLabel(selectedDate) : "Today's Analytics");
 
-      // Build topic name lookup
-      const topicMap = new Map<string, string>();
-      allTopics.forEach(t => topicMap.set(t.id, t.name));
-
       // Filter segments for target date and aggregate by topic
       const topicTotals = new Map<string | null, number>();
 
-      allSegments
-        .filter(seg => getLocalDateKey(seg.startTs) === targetDateKey && seg.endTs)
+      daySegments
+        .filter(seg => seg.endTs)
         .forEach(seg => {
-          const duration = (seg.endTs || 0) - seg.startTs;
+          const duration = getOverlapDuration(seg, dayStart, dayEnd);
           const current = topicTotals.get(seg.topicId) || 0;
           topicTotals.set(seg.topicId, current + duration);
         });
 
+      // Time kept through a heartbeat gap after a crash or sleep
+      const recoveredSegments = daySegments.filter(seg => seg.endTs && seg.recovered);
+      setRecovered({
+        count: recoveredSegments.length,
+        time: recoveredSegments.reduce((sum, seg) => sum + getOverlapDuration(seg, dayStart, dayEnd), 0),
+      });
+
       // Calculate total time
       let total = 0;
       topicTotals.forEach(time => {
         total += time;
       });
       setTotalTime(total);
+      setTopics(allTopics);
+      setDayTimes(topicTotals);
 
-      // Convert to chart data, excluding zero-duration
-      const chartData: TopicData[] = [];
-      topicTotals.forEach((time, topicId) => {
-        if (time > 0) {
-          chartData.push({
-            name: topicId ? topicMap.get(topicId) || 'Unknown' : 'No Topic',
-            value: time,
-            percentage: total > 0 ? (time / total) * 100 : 0,
-          });
-        }
-      });
-
-      // Sort by time descending
-      chartData.sort((a, b) => b.value - a.value);
-      setTopicData(chartData);
+      // How focus ratings relate to time of day, session length and topic
+      const reportStart = dayEnd - FOCUS_REPORT_DAYS * 24 * 60 * 60 * 1000;
+      const [reflected, reportSegments] = await Promise.all([
+        getReflectedSessions(reportStart, dayEnd),
+        getSegmentsInRange(reportStart, dayEnd),
+      ]);
+      setFocusReport(buildFocusReport(reflected, reportSegments, buildTopicTree(allTopics)));
     };
 
     loadAnalytics();
-  }, [refreshTrigger, selectedDate]);
+  }, [refreshTrigger, selectedDate, includeManual, tagFilter]);
+
+  // The chart shows one level of the topic tree at a time, with time rolled
+  // up from below; clicking a topic with sub-topics opens it
+  const tree = buildTopicTree(topics);
+  const browsePath = getTopicPath(tree, browseId);
+  const levelRows = getTopicLevelTimes(tree, dayTimes, browsePath.length > 0 ? browseId : null);
+  const levelTime = levelRows.reduce((sum, row) => sum + row.time, 0);
+  const breakTime = gapTimes.break + gapTimes.pause;
+  const breakRatio = breakTime > 0 ? (breakTime / (totalTime + breakTime)) * 100 : 0;
+  const topicData: TopicData[] = levelRows.map(row => {
+    const link = row.topicId ? tree.byId.get(row.topicId)?.link : undefined;
+    return {
+      topicId: row.topicId,
+      hasChildren: row.hasChildren,
+      name: row.name,
+      color: getTopicColor(tree, row.topicId),
+      emoji: getTopicEmoji(tree, row.topicId),
+      link: link && isValidTopicLink(link) ? link : null,
+      value: row.time,
+      percentage: levelTime > 0 ? (row.time / levelTime) * 100 : 0,
+    };
+  });
+
+  const renderBreadcrumb = () => browsePath.length > 0 && (
+    <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+      <button
+        type="button"
+        className="text-muted-foreground hover:text-foreground"
+        onClick={() => setBrowseId(null)}
+      >
+        All topics
+      </button>
+      {browsePath.map(topic => (
+        <span key={topic.id} className="flex items-center gap-1">
+          <ChevronRight className="h-3 w-3 text-muted-foreground" />
+          <button
+            type="button"
+            className={topic.id === browseId ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}
+            onClick={() => setBrowseId(topic.id)}
+          >
+            {topic.name}
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderFilters = () => (
+    <div className="flex items-center justify-end gap-2 mb-2">
+      <TagFilter value={tagFilter} onChange={setTagFilter} refreshTrigger={refreshTrigger} />
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        Include manual &amp; imported entries
+        <Switch checked={includeManual} onCheckedChange={setIncludeManual} className="scale-75" />
+      </label>
+    </div>
+  );
 
   const renderLegend = () => {
     return (
       <div className="space-y-2 mt-4">
-        {topicData.map((entry, index) => (
-          <div key={entry.name} className="flex items-center justify-between text-sm">
+        {topicData.map((entry) => (
+          <div key={`${entry.topicId}-${entry.name}`} className="flex items-center justify-between text-sm">
             <div className="flex items-center gap-2">
               <div
                 className="w-3 h-3 rounded-full"
-                style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                style={{ backgroundColor: entry.color }}
               />
-              <span className="text-foreground">{entry.name}</span>
+              {entry.emoji && <span>{entry.emoji}</span>}
+              {entry.hasChildren ? (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 text-foreground hover:text-primary"
+                  onClick={() => setBrowseId(entry.topicId)}
+                >
+                  {entry.name}
+                  <ChevronRight className="h-3 w-3" />
+                </button>
+              ) : (
+                <span className="text-foreground">{entry.name}</span>
+              )}
+              {entry.link && (
+                <a
+                  href={entry.link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={entry.link}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <span className="font-mono text-muted-foreground">
@@ -162,6 +251,40 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
     );
   };
 
+  const renderFocusGroup = (title: string, buckets: FocusBucket[]) => (
+    <div className="space-y-1.5">
+      <p className="text-xs text-muted-foreground">{title}</p>
+      {buckets.map(bucket => (
+        <div key={bucket.key} className="flex items-center gap-2 text-xs">
+          <span className="w-32 truncate text-foreground">{bucket.label}</span>
+          <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
+            <div className="h-full bg-amber-500 rounded-full" style={{ width: `${(bucket.averageFocus / 5) * 100}%` }} />
+          </div>
+          <span className="w-16 text-right font-mono text-muted-foreground">
+            {bucket.averageFocus.toFixed(1)} <span className="opacity-60">({bucket.sessions})</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderFocusReport = () => focusReport && focusReport.sessions > 0 && (
+    <div className="mt-4 pt-4 border-t border-border/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+          <Star className="h-4 w-4 text-amber-500" />
+          Focus, last {FOCUS_REPORT_DAYS} days
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {focusReport.averageFocus.toFixed(1)} / 5 over {focusReport.sessions} rated session{focusReport.sessions === 1 ? '' : 's'}
+        </span>
+      </div>
+      {renderFocusGroup('By time of day', focusReport.byTimeOfDay)}
+      {renderFocusGroup('By session length', focusReport.byLength)}
+      {renderFocusGroup('By topic', focusReport.byTopic)}
+    </div>
+  );
+
   if (topicData.length === 0) {
     return (
       <div className="glass-card rounded-2xl p-6">
@@ -169,8 +292,10 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
           <BarChart3 className="h-5 w-5 text-muted-foreground" />
           <h2 className="font-semibold text-foreground">{dateLabel}</h2>
         </div>
+        {renderFilters()}
+        {renderBreadcrumb()}
         <p className="text-sm text-muted-foreground text-center py-4">
-          No study time recorded {selectedDate ? 'on this day' : 'today'}
+          No study time recorded{browsePath.length > 0 ? ' under this topic' : ''} {selectedDate ? 'on this day' : 'today'}
         </p>
         {allTimeTotal > 0 && (
           <div className="mt-4 pt-4 border-t border-border/50 text-center">
@@ -178,6 +303,7 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
             <p className="text-lg font-mono font-semibold text-primary">{formatDuration(allTimeTotal)}</p>
           </div>
         )}
+        {renderFocusReport()}
       </div>
     );
   }
@@ -191,6 +317,26 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
           {formatDuration(totalTime)} total
         </span>
       </div>
+      {renderFilters()}
+      {renderBreadcrumb()}
+      {recovered.count > 0 && (
+        <p
+          className="flex items-center gap-1.5 mb-2 text-xs text-amber-500"
+          title="These segments were still open after the app crashed or the computer slept"
+        >
+          <AlertTriangle className="h-3.5 w-3.5" />
+          {formatDuration(recovered.time)} from {recovered.count} recovered segment{recovered.count === 1 ? '' : 's'}
+        </p>
+      )}
+      {breakTime > 0 && (
+        <p
+          className="flex items-center gap-1.5 mb-2 text-xs text-muted-foreground"
+          title="Share of session time spent on breaks and pauses"
+        >
+          <Coffee className="h-3.5 w-3.5" />
+          {formatDuration(gapTimes.break)} on breaks · {formatDuration(gapTimes.pause)} paused · {breakRatio.toFixed(0)}% break ratio
+        </p>
+      )}
 
       <div className="h-[200px]">
         <ResponsiveContainer width="100%" height="100%">
@@ -203,9 +349,10 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
               outerRadius={80}
               paddingAngle={2}
               dataKey="value"
+              onClick={(data: TopicData) => data.hasChildren && setBrowseId(data.topicId)}
             >
-              {topicData.map((_, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              {topicData.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={entry.color} />
               ))}
             </Pie>
             <Tooltip
@@ -214,7 +361,7 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
                   const data = payload[0].payload as TopicData;
                   return (
                     <div className="bg-popover border border-border rounded-lg px-3 py-2 shadow-lg">
-                      <p className="font-medium text-foreground">{data.name}</p>
+                      <p className="font-medium text-foreground">{data.emoji && `${data.emoji} `}{data.name}</p>
                       <p className="text-sm text-muted-foreground">
                         {formatDuration(data.value)} ({data.percentage.toFixed(1)}%)
                       </p>
@@ -237,6 +384,8 @@ export const AnalyticsPanel = ({ refreshTrigger, selectedDate }: AnalyticsPanelP
           <span className="font-mono font-semibold text-primary">{formatDuration(allTimeTotal)}</span>
         </div>
       )}
+
+      {renderFocusReport()}
     </div>
   );
 };
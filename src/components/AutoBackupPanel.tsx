@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { FolderSync, FolderOpen, Loader2, RotateCcw, AlertTriangle, KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AUTO_BACKUP_KEEP_OPTIONS,
+  AutoBackupFile,
+  AutoBackupFrequency,
+  BackupFolderAccess,
+  allowBackupFolderAccess,
+  backUpNow,
+  chooseBackupFolder,
+  forgetBackupFolder,
+  getBackupFolderAccess,
+  isFolderBackupSupported,
+  listAutoBackups,
+  loadAutoBackupSettings,
+  readAutoBackup,
+  runScheduledBackup,
+  saveAutoBackupSettings,
+} from '@/lib/autoBackup';
+
+interface AutoBackupButtonProps {
+  refreshTrigger?: number;
+  onRestore: (file: { name: string; text: string }) => void;
+}
+
+// Daily backups are checked this often while the app is open
+const SCHEDULE_CHECK_MS = 60 * 60 * 1000;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const AutoBackupButton = ({ refreshTrigger, onRestore }: AutoBackupButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState(loadAutoBackupSettings);
+  const [access, setAccess] = useState<BackupFolderAccess>('missing');
+  const [files, setFiles] = useState<AutoBackupFile[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  const isSupported = isFolderBackupSupported();
+
+  useEffect(() => {
+    runScheduledBackup('schedule');
+    const interval = setInterval(() => runScheduledBackup('schedule'), SCHEDULE_CHECK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadStatus = async () => {
+    setSettings(loadAutoBackupSettings());
+    if (!isFolderBackupSupported()) return;
+    const nextAccess = await getBackupFolderAccess();
+    setAccess(nextAccess);
+    try {
+      setFiles(nextAccess === 'granted' ? await listAutoBackups() : []);
+    } catch (error) {
+      console.error('Failed to list backups:', error);
+      setFiles([]);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadStatus();
+  }, [isOpen, refreshTrigger]);
+
+  const update = (changes: Parameters<typeof saveAutoBackupSettings>[0]) => {
+    setSettings(saveAutoBackupSettings(changes));
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      const name = await chooseBackupFolder();
+      toast.success(`Backups will be saved to "${name}"`);
+      await loadStatus();
+    } catch (error) {
+      // Closing the picker is not an error worth showing
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast.error(error instanceof Error ? error.message : 'Could not use that folder');
+    }
+  };
+
+  const handleAllowAccess = async () => {
+    if (!(await allowBackupFolderAccess())) {
+      toast.error('StudyWatch still cannot use the backup folder');
+    }
+    await loadStatus();
+  };
+
+  const handleForgetFolder = async () => {
+    await forgetBackupFolder();
+    await loadStatus();
+  };
+
+  const handleBackUpNow = async () => {
+    setIsBackingUp(true);
+    try {
+      const name = await backUpNow();
+      toast.success('Backup saved', { description: name });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Backup failed');
+    } finally {
+      setIsBackingUp(false);
+      await loadStatus();
+    }
+  };
+
+  const handleRestore = async (file: AutoBackupFile) => {
+    try {
+      onRestore({ name: file.name, text: await readAutoBackup(file.name) });
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read that backup');
+    }
+  };
+
+  const hasFolder = settings.folderName !== null && access !== 'missing';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <FolderSync className={`h-4 w-4 ${settings.enabled && settings.lastError ? 'text-amber-500' : ''}`} />
+          <span className="hidden sm:inline">Auto backup</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderSync className="h-5 w-5" />
+            Automatic backups
+          </DialogTitle>
+          <DialogDescription>
+            {isSupported
+              ? 'Save a complete backup to a folder on this computer, keeping the most recent ones'
+              : 'This browser cannot write to a folder, so automatic backups are downloaded instead'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="auto-backup-enabled">Back up automatically</Label>
+            <Switch
+              id="auto-backup-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => update({ enabled })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label>When</Label>
+            <Select
+              value={settings.frequency}
+              onValueChange={(v) => update({ frequency: v as AutoBackupFrequency })}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="session">After every session</SelectItem>
+                <SelectItem value="daily">Once a day</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isSupported && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <Label>Keep the last</Label>
+                <Select value={String(settings.keep)} onValueChange={(v) => update({ keep: Number(v) })}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTO_BACKUP_KEEP_OPTIONS.map(count => (
+                      <SelectItem key={count} value={String(count)}>{count} backups</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <FolderOpen className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 truncate text-foreground">
+                    {hasFolder ? settings.folderName : 'No folder chosen'}
+                  </span>
+                  {hasFolder && (
+                    <Button variant="ghost" size="sm" onClick={handleForgetFolder}>
+                      Forget
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={handleChooseFolder}>
+                    {hasFolder ? 'Change' : 'Choose folder'}
+                  </Button>
+                </div>
+                {access === 'prompt' && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={handleAllowAccess}>
+                    Allow access to this folder again
+                  </Button>
+                )}
+                {!hasFolder && settings.enabled && (
+                  <p className="text-xs text-muted-foreground">Until a folder is chosen, backups are downloaded.</p>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Last backup</span>
+              <span className="text-foreground">
+                {settings.lastBackupAt ? new Date(settings.lastBackupAt).toLocaleString() : 'Never'}
+              </span>
+            </div>
+            {settings.lastError && (
+              <div className="flex items-start gap-2 text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{settings.lastError}</span>
+              </div>
+            )}
+          </div>
+
+          <Button className="w-full gap-2" onClick={handleBackUpNow} disabled={isBackingUp || access === 'prompt'}>
+            {isBackingUp && <Loader2 className="h-4 w-4 animate-spin" />}
+            Back up now
+          </Button>
+
+          {isSupported && hasFolder && (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <Label>Restore</Label>
+              <ScrollArea className="h-[200px] pr-4">
+                {files.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No backups in this folder yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {files.map((file) => (
+                      <div key={file.name} className="flex items-center gap-3 p-3 rounded-lg border border-border/50 bg-muted/30">
+                        {file.encrypted && <KeyRound className="h-4 w-4 text-muted-foreground shrink-0" />}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-foreground">
+                            {new Date(file.modifiedAt).toLocaleString()}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{formatBytes(file.size)}</p>
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          title="Restore"
+                          onClick={() => handleRestore(file)}
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          )}
+          {!isSupported && (
+            <p className="text-xs text-muted-foreground">Restore a downloaded backup with Import.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Coffee, Trash2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { AwayPeriod, AwayResolution } from '@/hooks/useStudyTimer';
+
+interface AwayDialogProps {
+  away: AwayPeriod | null;
+  onResolve: (resolution: AwayResolution) => Promise<void>;
+}
+
+const formatAway = (ms: number): string => {
+  const totalMinutes = Math.max(1, Math.round(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes} min`;
+};
+
+const formatTime = (ts: number): string => {
+  return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+export function AwayDialog({ away, onResolve }: AwayDialogProps) {
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async (resolution: AwayResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(resolution);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update the session');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  // Only ask once the user is back
+  const isOpen = away !== null && away.endTs !== null;
+  const duration = isOpen ? formatAway(away.endTs! - away.startTs) : '';
+
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Coffee className="h-5 w-5 text-primary" />
+            You were away {duration}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isOpen && (
+              <>
+                No activity since {formatTime(away.startTs)}, so the timer paused itself
+                and stopped counting at that point.
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            disabled={isResolving}
+            onClick={() => handleResolve('discard')}
+          >
+            <Trash2 className="h-4 w-4" />
+            Discard - leave it out
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            disabled={isResolving}
+            onClick={() => handleResolve('keep')}
+          >
+            <Play className="h-4 w-4" />
+            Keep - I was studying, carry on
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            disabled={isResolving}
+            onClick={() => handleResolve('break')}
+          >
+            <Coffee className="h-4 w-4" />
+            Assign to break
+          </Button>
+        </div>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
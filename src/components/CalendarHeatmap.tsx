@@ -1,14 +1,30 @@
 import { useEffect, useState, useMemo } from 'react';
-import { getAllSegments } from '@/lib/db';
+import { toast } from 'sonner';
+import { getDailyTotals, rebuildDailyTotals, getAllTopics, NO_TOPIC_KEY } from '@/lib/db';
+import { buildTopicTree, getTopicLevelTimes } from '@/lib/topicTree';
+import { getTopicColor, getTopicEmoji } from '@/lib/topicAppearance';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Calendar } from 'lucide-react';
+import { Calendar, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
 interface CalendarHeatmapProps {
   refreshTrigger?: number;
   selectedDate?: Date | null;
   onDateSelect?: (date: Date | null) => void;
+  onTotalsRebuilt?: () => void;
 }
 
+interface DayTopic {
+  key: string;
+  name: string;
+  emoji: string | null;
+  color: string;
+  time: number;
+}
+
+// Top-level topics listed in a day's tooltip
+const TOOLTIP_TOPICS = 3;
+
 const formatDuration = (ms: number): string => {
   const totalSeconds = Math.floor(ms / 1000);
   const hours = Math.floor(totalSeconds / 3600);
@@ -46,9 +62,11 @@ const getIntensityClass = (time: number, maxTime: number): string => {
   return 'bg-primary';
 };
 
-export const CalendarHeatmap = ({ refreshTrigger, selectedDate, onDateSelect }: CalendarHeatmapProps) => {
+export const CalendarHeatmap = ({ refreshTrigger, selectedDate, onDateSelect, onTotalsRebuilt }: CalendarHeatmapProps) => {
   const [dayDataMap, setDayDataMap] = useState<Map<string, number>>(new Map());
+  const [dayTopicsMap, setDayTopicsMap] = useState<Map<string, DayTopic[]>>(new Map());
   const [maxTime, setMaxTime] = useState(0);
+  const [isRebuilding, setIsRebuilding] = useState(false);
 
   // Generate weeks data - last 20 weeks for compact fit (~5 months)
   const { weeks, monthLabels } = useMemo(() => {
@@ -125,19 +143,24 @@ export const CalendarHeatmap = ({ refreshTrigger, selectedDate, onDateSelect }:
 
   useEffect(() => {
     const loadData = async () => {
-      const allSegments = await getAllSegments();
-      
-      // Aggregate by local date
-      const dateMap = new Map<string, number>();
-      
-      allSegments
-        .filter(seg => seg.endTs)
-        .forEach(seg => {
-          const dateKey = getLocalDateKey(seg.startTs);
-          const duration = (seg.endTs || 0) - seg.startTs;
-          const current = dateMap.get(dateKey) || 0;
-          dateMap.set(dateKey, current + duration);
-        });
+      const rangeStart = weeks[0]?.[0]?.getTime() ?? 0;
+      const [dailyTotals, topics] = await Promise.all([getDailyTotals(rangeStart, Date.now()), getAllTopics()]);
+      const dateMap = new Map(dailyTotals.map(day => [day.date, day.total]));
+
+      // Each day's biggest top-level topics, sub-topic time rolled up
+      const tree = buildTopicTree(topics);
+      const topicsMap = new Map(dailyTotals.map(day => {
+        const timeByTopic = new Map(Object.entries(day.byTopic).map(([key, ms]) =>
+          [key === NO_TOPIC_KEY ? null : key, ms] as [string | null, number]));
+        const rows = getTopicLevelTimes(tree, timeByTopic, null).slice(0, TOOLTIP_TOPICS);
+        return [day.date, rows.map(row => ({
+          key: row.topicId ?? 'no-topic',
+          name: row.name,
+          emoji: getTopicEmoji(tree, row.topicId),
+          color: getTopicColor(tree, row.topicId),
+          time: row.time,
+        }))];
+      }));
       
       // Find max time
       let max = 0;
@@ -146,11 +169,25 @@ export const CalendarHeatmap = ({ refreshTrigger, selectedDate, onDateSelect }:
       });
       
       setDayDataMap(dateMap);
+      setDayTopicsMap(topicsMap);
       setMaxTime(max || 1); // Avoid division by zero
     };
 
     loadData();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, weeks]);
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    try {
+      await rebuildDailyTotals();
+      toast.success('Daily totals recalculated');
+      onTotalsRebuilt?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to recalculate daily totals');
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
 
   const handleDayClick = (date: Date) => {
     if (!onDateSelect) return;
@@ -197,6 +234,14 @@ export const CalendarHeatmap = ({ refreshTrigger, selectedDate, onDateSelect }:
             Clear filter
           </button>
         )}
+        <button
+          onClick={handleRebuild}
+          disabled={isRebuilding}
+          title="Recalculate daily totals from raw history"
+          className={cn('text-muted-foreground hover:text-foreground disabled:opacity-50', !selectedDate && 'ml-auto')}
+        >
+          <RefreshCw className={cn('h-3.5 w-3.5', isRebuilding && 'animate-spin')} />
+        </button>
       </div>
 
       <div className="overflow-x-auto pb-2">
@@ -265,6 +310,13 @@ export const CalendarHeatmap = ({ refreshTrigger, selectedDate, onDateSelect }:
                               <p className="text-muted-foreground">
                                 {time > 0 ? formatDuration(time) : 'No study time'}
                               </p>
+                              {(dayTopicsMap.get(dateKey) ?? []).map(topic => (
+                                <p key={topic.key} className="flex items-center gap-1.5 mt-0.5">
+                                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: topic.color }} />
+                                  <span>{topic.emoji && `${topic.emoji} `}{topic.name}</span>
+                                  <span className="text-muted-foreground ml-auto pl-2">{formatDuration(topic.time)}</span>
+                                </p>
+                              ))}
                             </TooltipContent>
                           )}
                         </Tooltip>
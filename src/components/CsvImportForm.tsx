@@ -0,0 +1,284 @@
+import { useRef, useState } from 'react';
+import { FileSpreadsheet, AlertTriangle, Search, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getAllTopics } from '@/lib/db';
+import {
+  CSV_PROFILES,
+  CsvColumnMapping,
+  CsvImportPlan,
+  CsvProfileId,
+  CsvTable,
+  DateFormat,
+  commitCsvImport,
+  detectProfile,
+  parseCsv,
+  planCsvImport,
+} from '@/lib/csvImport';
+
+interface CsvImportFormProps {
+  onImported?: () => void;
+}
+
+type MappedField = Exclude<keyof CsvColumnMapping, 'dateFormat'>;
+
+// Radix Select cannot hold null, so unmapped fields use a sentinel
+const NONE = '__none__';
+
+const FIELDS: { key: MappedField; label: string }[] = [
+  { key: 'topic', label: 'Topic (project)' },
+  { key: 'subtopic', label: 'Sub-topic (tag / task)' },
+  { key: 'startDate', label: 'Start date' },
+  { key: 'startTime', label: 'Start time' },
+  { key: 'endDate', label: 'End date' },
+  { key: 'endTime', label: 'End time' },
+  { key: 'duration', label: 'Duration' },
+];
+
+const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'ymd', label: 'YYYY-MM-DD' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+];
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}h ${minutes}m`;
+};
+
+const formatDateSimple = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+// Keep only mapped columns that exist in this file
+const fitMapping = (mapping: CsvColumnMapping, headers: string[]): CsvColumnMapping => {
+  const fitted = { ...mapping };
+  FIELDS.forEach(({ key }) => {
+    if (fitted[key] && !headers.includes(fitted[key]!)) fitted[key] = null;
+  });
+  return fitted;
+};
+
+export function CsvImportForm({ onImported }: CsvImportFormProps) {
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [profile, setProfile] = useState<CsvProfileId>('generic');
+  const [mapping, setMapping] = useState<CsvColumnMapping>(CSV_PROFILES.generic.mapping);
+  const [plan, setPlan] = useState<CsvImportPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseCsv(await file.text());
+      const detected = detectProfile(parsed.headers);
+      setTable(parsed);
+      setProfile(detected);
+      setMapping(fitMapping(CSV_PROFILES[detected].mapping, parsed.headers));
+      setPlan(null);
+      setError(null);
+    } catch (err) {
+      setTable(null);
+      setPlan(null);
+      setError(err instanceof Error ? err.message : 'Could not read this file');
+    }
+  };
+
+  const handleProfileChange = (value: string) => {
+    const id = value as CsvProfileId;
+    setProfile(id);
+    if (table) setMapping(fitMapping(CSV_PROFILES[id].mapping, table.headers));
+    setPlan(null);
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping(prev => ({ ...prev, ...changes }));
+    setPlan(null);
+  };
+
+  const handlePreview = async () => {
+    if (!table) return;
+    setIsWorking(true);
+    try {
+      const topics = await getAllTopics();
+      setPlan(await planCsvImport(table, mapping, topics.filter(t => !t.parentId).map(t => t.name)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not check this file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    try {
+      const written = await commitCsvImport(plan);
+      toast.success(`Imported ${written} entr${written === 1 ? 'y' : 'ies'} in ${plan.sessions.length} session${plan.sessions.length === 1 ? '' : 's'}`);
+      setTable(null);
+      setPlan(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      onImported?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const canPreview = !!table && !!mapping.startDate && (!!mapping.endTime || !!mapping.duration);
+  const skipped = plan ? [...plan.errors, ...plan.duplicates].sort((a, b) => a.row - b.row) : [];
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="text/csv,.csv"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <Button variant="outline" className="w-full gap-2" onClick={() => fileInputRef.current?.click()}>
+        <FileSpreadsheet className="h-4 w-4" />
+        {table ? 'Choose a different file' : 'Choose CSV file'}
+      </Button>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {table && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Exported from</Label>
+              <Select value={profile} onValueChange={handleProfileChange}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CSV_PROFILES) as CsvProfileId[]).map(id => (
+                    <SelectItem key={id} value={id}>{CSV_PROFILES[id].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Date format</Label>
+              <Select value={mapping.dateFormat} onValueChange={(v) => updateMapping({ dateFormat: v as DateFormat })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_FORMATS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {table.rows.length} row{table.rows.length === 1 ? '' : 's'} · map each field to a column
+            </p>
+            {FIELDS.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between gap-2">
+                <Label className="text-sm">{label}</Label>
+                <Select
+                  value={mapping[key] ?? NONE}
+                  onValueChange={(v) => updateMapping({ [key]: v === NONE ? null : v })}
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not in file</SelectItem>
+                    {table.headers.filter(Boolean).map(header => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {plan && (
+            <div className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Dry run - nothing has been written yet
+                {plan.firstTs !== null && plan.lastTs !== null && (
+                  <> · {formatDateSimple(plan.firstTs)} – {formatDateSimple(plan.lastTs)}</>
+                )}
+              </p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {([
+                  ['To import', plan.entries.length],
+                  ['Sessions (days)', plan.sessions.length],
+                  ['Duplicates', plan.duplicates.length],
+                  ['Errors', plan.errors.length],
+                ] as [string, number][]).map(([label, count]) => (
+                  <div key={label} className="flex justify-between">
+                    <span className="text-muted-foreground">{label}</span>
+                    <span className="font-mono">{count}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between col-span-2">
+                  <span className="text-muted-foreground">Total time</span>
+                  <span className="font-mono">{formatDuration(plan.totalMs)}</span>
+                </div>
+              </div>
+              {plan.newTopics.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  New topics: {plan.newTopics.join(', ')}
+                </p>
+              )}
+              {skipped.length > 0 && (
+                <ScrollArea className="h-24 pr-2">
+                  <ul className="space-y-0.5 text-xs text-muted-foreground">
+                    {skipped.map(({ row, reason }) => (
+                      <li key={`${row}-${reason}`}>
+                        <span className="font-mono">Row {row}</span> - {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {plan ? (
+        <Button onClick={handleImport} disabled={isWorking || plan.entries.length === 0} className="w-full gap-2">
+          <Upload className="h-4 w-4" />
+          {isWorking ? 'Importing...' : `Import ${plan.entries.length} entr${plan.entries.length === 1 ? 'y' : 'ies'}`}
+        </Button>
+      ) : (
+        <Button onClick={handlePreview} disabled={!canPreview || isWorking} className="w-full gap-2">
+          <Search className="h-4 w-4" />
+          {isWorking ? 'Checking...' : 'Preview import'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { logDistraction, updateDistraction, Distraction, DistractionCategory } from '@/lib/db';
+import { DISTRACTION_CATEGORIES, DISTRACTION_MINUTES } from '@/lib/distractions';
+
+interface DistractionButtonProps {
+  sessionId: string | null;
+  disabled?: boolean;
+  logRequest?: number; // bump to log one, as the D shortcut does
+  onLogged?: () => void;
+}
+
+// Marks the moment straight away; the category and time lost can be filled in
+// from the popover that opens, or left blank
+export function DistractionButton({ sessionId, disabled, logRequest = 0, onLogged }: DistractionButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [logged, setLogged] = useState<{ segmentId: string; distraction: Distraction } | null>(null);
+
+  const handledRequest = useRef(logRequest);
+
+  const handleLog = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      setLogged(await logDistraction(sessionId));
+      setOpen(true);
+      onLogged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not log the distraction');
+    }
+  }, [sessionId, onLogged]);
+
+  useEffect(() => {
+    if (logRequest === handledRequest.current) return;
+    handledRequest.current = logRequest;
+    if (!disabled) handleLog();
+  }, [logRequest, disabled, handleLog]);
+
+  const handleUpdate = async (changes: { category?: DistractionCategory | null; durationMs?: number }) => {
+    if (!logged) return;
+    try {
+      await updateDistraction(logged.segmentId, logged.distraction.id, changes);
+      setLogged({ ...logged, distraction: { ...logged.distraction, ...changes } });
+      onLogged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update the distraction');
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      handleLog();
+    } else {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={disabled || !sessionId} title="Log a distraction (D)">
+          <Zap className="h-4 w-4" />
+          Distracted
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="center">
+        <div className="space-y-4">
+          <p className="text-sm font-medium">Distraction logged</p>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">What was it?</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {DISTRACTION_CATEGORIES.map(({ value, label, emoji }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={logged?.distraction.category === value ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => handleUpdate({ category: logged?.distraction.category === value ? null : value })}
+                >
+                  {emoji} {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Time lost</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {DISTRACTION_MINUTES.map(minutes => (
+                <Button
+                  key={minutes}
+                  type="button"
+                  size="sm"
+                  variant={logged?.distraction.durationMs === minutes * 60000 ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => handleUpdate({ durationMs: minutes * 60000 })}
+                >
+                  {minutes === 0 ? 'None' : `${minutes}m`}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => setOpen(false)}>Done</Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
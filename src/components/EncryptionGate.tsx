@@ -0,0 +1,162 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  changePassphrase,
+  isEncryptionUnlocked,
+  loadEncryptionConfig,
+  lockEncryption,
+  subscribeToEncryption,
+  unlockWithPassphrase,
+  unlockWithRecoveryCode,
+} from '@/lib/encryption';
+
+interface EncryptionGateProps {
+  children: ReactNode;
+}
+
+type UnlockMode = 'passphrase' | 'recovery' | 'newPassphrase';
+
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Keeps the app unmounted while the profile's data is encrypted and locked,
+// so no decrypted text stays on screen or in memory, and locks again after
+// the configured inactivity
+export function EncryptionGate({ children }: EncryptionGateProps) {
+  const [, setVersion] = useState(0);
+  const [mode, setMode] = useState<UnlockMode>('passphrase');
+  const [secret, setSecret] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => subscribeToEncryption(() => setVersion(v => v + 1)), []);
+
+  const config = loadEncryptionConfig();
+  const isLocked = config !== null && !isEncryptionUnlocked();
+  const lockAfterMinutes = config && !isLocked ? config.lockAfterMinutes : 0;
+
+  useEffect(() => {
+    if (lockAfterMinutes === 0) return;
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity > lockAfterMinutes * 60 * 1000) lockEncryption();
+    }, CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(interval);
+    };
+  }, [lockAfterMinutes]);
+
+  if (!isLocked && mode !== 'newPassphrase') return <>{children}</>;
+
+  const switchMode = (next: UnlockMode) => {
+    setMode(next);
+    setSecret('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (mode === 'passphrase') {
+        if (!(await unlockWithPassphrase(secret))) setError('Wrong passphrase');
+      } else if (mode === 'recovery') {
+        if (await unlockWithRecoveryCode(secret)) {
+          switchMode('newPassphrase');
+        } else {
+          setError('Wrong recovery code');
+        }
+      } else {
+        if (secret !== confirm) {
+          setError('Passphrases do not match');
+          return;
+        }
+        await changePassphrase(secret);
+        toast.success('Passphrase changed');
+        switchMode('passphrase');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const title = mode === 'newPassphrase' ? 'Choose a new passphrase' : 'Your study data is encrypted';
+  const placeholder = mode === 'recovery' ? 'Recovery code' : mode === 'newPassphrase' ? 'New passphrase' : 'Passphrase';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <form
+        className="glass-card rounded-2xl p-6 w-full max-w-sm space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="h-12 w-12 rounded-xl bg-primary/10 flex items-center justify-center">
+            <KeyRound className="h-6 w-6 text-primary" />
+          </div>
+          <h1 className="text-lg font-bold text-foreground">{title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {mode === 'passphrase' && 'Enter your passphrase to unlock'}
+            {mode === 'recovery' && 'Enter the code from your recovery kit'}
+            {mode === 'newPassphrase' && 'Your old passphrase stops working'}
+          </p>
+        </div>
+
+        <Input
+          key={mode}
+          type={mode === 'recovery' ? 'text' : 'password'}
+          placeholder={placeholder}
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          autoComplete={mode === 'newPassphrase' ? 'new-password' : 'current-password'}
+          autoFocus
+        />
+        {mode === 'newPassphrase' && (
+          <Input
+            type="password"
+            placeholder="Repeat new passphrase"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            autoComplete="new-password"
+          />
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Button
+          type="submit"
+          className="w-full gap-2"
+          disabled={isWorking || !secret || (mode === 'newPassphrase' && secret.length < MIN_PASSPHRASE_LENGTH)}
+        >
+          {isWorking && <Loader2 className="h-4 w-4 animate-spin" />}
+          {mode === 'newPassphrase' ? 'Save passphrase' : 'Unlock'}
+        </Button>
+
+        {mode !== 'newPassphrase' && (
+          <Button
+            type="button"
+            variant="link"
+            className="w-full text-xs text-muted-foreground"
+            onClick={() => switchMode(mode === 'passphrase' ? 'recovery' : 'passphrase')}
+          >
+            {mode === 'passphrase' ? 'Forgot it? Use recovery code' : 'Use passphrase instead'}
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
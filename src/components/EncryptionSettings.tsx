@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Lock, Download, RefreshCw, Loader2, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  LOCK_AFTER_OPTIONS,
+  MIN_PASSPHRASE_LENGTH,
+  changePassphrase,
+  createRecoveryKit,
+  loadEncryptionConfig,
+  lockEncryption,
+  replaceRecoveryCode,
+  setLockAfterMinutes,
+  subscribeToEncryption,
+  verifyPassphrase,
+} from '@/lib/encryption';
+import { disableEncryption, enableEncryption, rotateEncryptionKey } from '@/lib/encryptionSetup';
+import { getActiveProfile } from '@/lib/profiles';
+
+interface EncryptionSettingsProps {
+  onDataRewritten?: () => void;
+}
+
+type PendingAction = 'enable' | 'passphrase' | 'recovery' | 'rotate' | 'disable';
+
+const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export function EncryptionSettings({ onDataRewritten }: EncryptionSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [, setVersion] = useState(0);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [current, setCurrent] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  useEffect(() => subscribeToEncryption(() => setVersion(v => v + 1)), []);
+
+  const config = loadEncryptionConfig();
+
+  const resetFields = () => {
+    setPassphrase('');
+    setConfirm('');
+    setCurrent('');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // The recovery code is shown once; keep the dialog up until it is saved
+    if (!next && recoveryCode) return;
+    setOpen(next);
+    if (!next) resetFields();
+  };
+
+  const run = async (action: PendingAction, work: () => Promise<void>) => {
+    setPending(action);
+    try {
+      await work();
+      resetFields();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const requireNewPassphrase = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    if (passphrase !== confirm) {
+      throw new Error('Passphrases do not match');
+    }
+  };
+
+  const handleEnable = () =>
+    run('enable', async () => {
+      requireNewPassphrase();
+      setRecoveryCode(await enableEncryption(passphrase));
+      onDataRewritten?.();
+      toast.success('Encryption is on');
+    });
+
+  const handleChangePassphrase = () =>
+    run('passphrase', async () => {
+      if (!(await verifyPassphrase(current))) throw new Error('Current passphrase is wrong');
+      requireNewPassphrase();
+      await changePassphrase(passphrase);
+      toast.success('Passphrase changed');
+    });
+
+  const handleNewRecoveryCode = () =>
+    run('recovery', async () => {
+      setRecoveryCode(await replaceRecoveryCode());
+    });
+
+  const handleRotate = () =>
+    run('rotate', async () => {
+      await rotateEncryptionKey();
+      onDataRewritten?.();
+      toast.success('Every record is now encrypted with a new key');
+    });
+
+  const handleDisable = () =>
+    run('disable', async () => {
+      await disableEncryption(current);
+      onDataRewritten?.();
+      toast.success('Encryption is off');
+    });
+
+  const downloadRecoveryKit = () => {
+    if (!recoveryCode) return;
+    downloadFile(
+      createRecoveryKit(recoveryCode, getActiveProfile().name),
+      'studywatch-recovery-kit.txt',
+      'text/plain'
+    );
+  };
+
+  const spinner = (action: PendingAction) => pending === action && <Loader2 className="h-4 w-4 animate-spin" />;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <KeyRound className="h-4 w-4" />
+          <span className="hidden sm:inline">Encryption</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Encryption
+          </DialogTitle>
+          <DialogDescription>
+            Encrypts notes, tasks, topic names and exports with a passphrase. Times and durations stay readable
+            so history and charts still work.
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCode ? (
+          <div className="space-y-3">
+            <p className="text-sm text-foreground">
+              Save this recovery code. It is the only way back in if you forget your passphrase, and it will not
+              be shown again.
+            </p>
+            <p className="p-3 rounded-lg border border-border/50 bg-muted/30 font-mono text-center text-sm break-all">
+              {recoveryCode}
+            </p>
+            <Button variant="outline" className="w-full gap-2" onClick={downloadRecoveryKit}>
+              <Download className="h-4 w-4" />
+              Download recovery kit
+            </Button>
+            <Button className="w-full" onClick={() => setRecoveryCode(null)}>
+              I have saved it
+            </Button>
+          </div>
+        ) : !config ? (
+          <div className="space-y-3">
+            <Input
+              type="password"
+              placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="new-password"
+            />
+            <Input
+              type="password"
+              placeholder="Repeat passphrase"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              autoComplete="new-password"
+            />
+            <p className="text-xs text-muted-foreground">
+              You will need the passphrase every time StudyWatch opens. Forgotten passphrases cannot be reset
+              without the recovery code you get next.
+            </p>
+            <Button className="w-full gap-2" onClick={handleEnable} disabled={pending !== null || !passphrase}>
+              {spinner('enable')}
+              Turn on encryption
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label className="flex-1">Lock after inactivity</Label>
+              <Select
+                value={String(config.lockAfterMinutes)}
+                onValueChange={(v) => setLockAfterMinutes(Number(v))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCK_AFTER_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes === 0 ? 'Never' : `${minutes} min`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" className="gap-2" onClick={lockEncryption}>
+                <Lock className="h-4 w-4" />
+                Lock now
+              </Button>
+            </div>
+
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <Label>Current passphrase</Label>
+              <Input
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+                autoComplete="current-password"
+              />
+              <p className="text-xs text-muted-foreground">Needed to change the passphrase or turn encryption off.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>New passphrase</Label>
+              <Input
+                type="password"
+                placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Input
+                type="password"
+                placeholder="Repeat new passphrase"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Button
+                variant="outline"
+                className="w-full gap-2"
+                onClick={handleChangePassphrase}
+                disabled={pending !== null || !current || !passphrase}
+              >
+                {spinner('passphrase')}
+                Change passphrase
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 pt-2 border-t border-border/50">
+              <Button variant="outline" className="gap-2" onClick={handleNewRecoveryCode} disabled={pending !== null}>
+                {spinner('recovery') || <Download className="h-4 w-4" />}
+                New recovery code
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={handleRotate} disabled={pending !== null}>
+                {spinner('rotate') || <RefreshCw className="h-4 w-4" />}
+                Rotate key
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Rotating re-encrypts every record with a fresh key. Other open tabs lock and ask for the passphrase.
+            </p>
+
+            <Button
+              variant="ghost"
+              className="w-full gap-2 text-destructive hover:text-destructive"
+              onClick={handleDisable}
+              disabled={pending !== null || !current}
+            >
+              {spinner('disable') || <ShieldOff className="h-4 w-4" />}
+              Turn off encryption
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Download, FileJson, FileSpreadsheet, Calendar, Clock } from 'lucide-react';
+import { Download, FileJson, FileSpreadsheet, Calendar, Clock, DatabaseBackup, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -17,10 +17,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { getAllSegments, getAllTopics, getSubtopicsByTopic } from '@/lib/db';
-import { loadTasks, loadNotes } from '@/lib/notes';
+import { getSegmentsInRange, getNotesInRange, getNotesByKind, getAllTopics, getAllTags } from '@/lib/db';
+import { buildTopicTree, formatTopicPath } from '@/lib/topicTree';
+import { getSegmentKind, isStudySegment } from '@/lib/segmentKinds';
+import { createBackup } from '@/lib/backup';
+import { encryptExport, isEncryptionEnabled } from '@/lib/encryption';
 
-type ExportFormat = 'csv' | 'json';
+// 'backup' is the lossless format ImportButton reads back
+type ExportFormat = 'csv' | 'json' | 'backup';
 type ExportRange = 'today' | 'week' | 'month' | 'all';
 
 const formatDuration = (ms: number): string => {
@@ -42,6 +46,11 @@ const formatDateSimple = (timestamp: number): string => {
   });
 };
 
+// Quote a CSV cell when it contains separators, quotes or line breaks
+const escapeCsv = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
 const getStartOfRange = (range: ExportRange): number => {
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -59,61 +68,111 @@ const getStartOfRange = (range: ExportRange): number => {
   }
 };
 
-export function ExportButton() {
+const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// With encryption at rest on, files leave the browser encrypted as well
+const downloadExport = async (content: string, filename: string, mimeType: string) => {
+  if (!isEncryptionEnabled()) {
+    downloadFile(content, filename, mimeType);
+    return;
+  }
+  downloadFile(await encryptExport(content), `${filename}.encrypted.json`, 'application/json');
+};
+
+interface ExportButtonProps {
+  backupRequest?: number; // bump to open the dialog with a backup selected
+}
+
+export function ExportButton({ backupRequest = 0 }: ExportButtonProps) {
   const [format, setFormat] = useState<ExportFormat>('csv');
   const [range, setRange] = useState<ExportRange>('all');
   const [isExporting, setIsExporting] = useState(false);
   const [open, setOpen] = useState(false);
 
+  useEffect(() => {
+    if (backupRequest === 0) return;
+    setFormat('backup');
+    setOpen(true);
+  }, [backupRequest]);
+
   const exportData = async () => {
     setIsExporting(true);
     
     try {
-      const segments = await getAllSegments();
-      const topics = await getAllTopics();
+      if (format === 'backup') {
+        const backup = await createBackup();
+        await downloadExport(
+          JSON.stringify(backup, null, 2),
+          `studywatch-backup-${new Date().toISOString().split('T')[0]}.json`,
+          'application/json'
+        );
+        setOpen(false);
+        return;
+      }
+
       const startTime = getStartOfRange(range);
+      const segments = await getSegmentsInRange(startTime, Date.now());
+      const [topics, tags] = await Promise.all([getAllTopics(), getAllTags()]);
       
       // Filter segments by date range
       const filteredSegments = segments.filter(s => s.startTs >= startTime);
       
-      // Build topic/subtopic lookup
-      const topicMap = new Map(topics.map(t => [t.id, t.name]));
-      const subtopicMap = new Map<string, string>();
-      
-      for (const topic of topics) {
-        const subtopics = await getSubtopicsByTopic(topic.id);
-        subtopics.forEach(s => subtopicMap.set(s.id, s.name));
-      }
+      // Build topic/tag lookup - topics export as their full path
+      const topicTree = buildTopicTree(topics);
+      const tagMap = new Map(tags.map(t => [t.id, t.name]));
       
+      // Notes written during the range, placed on the segment they were written in
+      const notes = (await getNotesInRange(startTime, Date.now())).filter(n => n.kind === 'note');
+      const notesDuring = (sessionId: string, from: number, to: number) =>
+        notes.filter(n => n.sessionId === sessionId && n.atTs >= from && n.atTs <= to);
+
       // Transform segments for export
       const exportSegments = filteredSegments
         .filter(s => s.endTs !== null)
+        .sort((a, b) => a.startTs - b.startTs)
         .map(s => ({
           date: formatDateSimple(s.startTs),
           startTime: formatDate(s.startTs),
           endTime: formatDate(s.endTs!),
           duration: formatDuration(s.endTs! - s.startTs),
           durationMinutes: Math.round((s.endTs! - s.startTs) / 60000),
-          topic: s.topicId ? topicMap.get(s.topicId) || 'Unknown' : 'No Topic',
-          subtopic: s.subtopicId ? subtopicMap.get(s.subtopicId) || 'Unknown' : 'No Subtopic',
+          kind: getSegmentKind(s),
+          topic: isStudySegment(s) ? formatTopicPath(topicTree, s.topicId) : '',
+          tags: (s.tagIds ?? []).map(id => tagMap.get(id) || 'Unknown'),
+          notes: notesDuring(s.sessionId, s.startTs, s.endTs!).map(n => ({
+            time: formatDate(n.atTs),
+            text: n.text,
+          })),
         }));
       
-      // Calculate summary stats
-      const totalMs = filteredSegments
-        .filter(s => s.endTs)
+      // Calculate summary stats - breaks and pauses are listed but not study time
+      const sumTime = (kind: string) => filteredSegments
+        .filter(s => s.endTs && getSegmentKind(s) === kind)
         .reduce((sum, s) => sum + (s.endTs! - s.startTs), 0);
+      const totalMs = sumTime('study');
+      const breakMs = sumTime('break') + sumTime('pause');
       
       const summary = {
         exportDate: new Date().toISOString(),
         range,
-        totalSessions: exportSegments.length,
+        totalSessions: exportSegments.filter(s => s.kind === 'study').length,
         totalStudyTime: formatDuration(totalMs),
         totalMinutes: Math.round(totalMs / 60000),
+        totalBreakTime: formatDuration(breakMs),
+        breakRatio: totalMs + breakMs > 0 ? Math.round((breakMs / (totalMs + breakMs)) * 100) : 0,
       };
       
-      // Load tasks and notes
-      const tasks = loadTasks();
-      const notes = loadNotes();
+      const tasks = await getNotesByKind('task');
       
       let content: string;
       let filename: string;
@@ -126,12 +185,13 @@ export function ExportButton() {
           tasks: tasks.map(t => ({
             text: t.text,
             completed: t.completed,
-            createdAt: formatDate(t.createdAt),
+            createdAt: formatDate(t.atTs),
           })),
           notes: notes.map(n => ({
             text: n.text,
-            date: n.sessionDate,
-            createdAt: formatDate(n.createdAt),
+            date: formatDateSimple(n.atTs),
+            createdAt: formatDate(n.atTs),
+            topic: formatTopicPath(topicTree, n.topicId),
           })),
         };
         content = JSON.stringify(jsonData, null, 2);
@@ -139,15 +199,17 @@ export function ExportButton() {
         mimeType = 'application/json';
       } else {
         // CSV format - sessions only
-        const headers = ['Date', 'Start Time', 'End Time', 'Duration', 'Minutes', 'Topic', 'Subtopic'];
+        const headers = ['Date', 'Start Time', 'End Time', 'Duration', 'Minutes', 'Kind', 'Topic', 'Tags', 'Notes'];
         const rows = exportSegments.map(s => [
           s.date,
           s.startTime,
           s.endTime,
           s.duration,
           s.durationMinutes.toString(),
+          s.kind,
           s.topic,
-          s.subtopic,
+          s.tags.join('; '),
+          s.notes.map(n => n.text).join(' | '),
         ]);
         
         // Add summary row
@@ -155,24 +217,16 @@ export function ExportButton() {
         rows.push(['Summary']);
         rows.push(['Total Sessions', summary.totalSessions.toString()]);
         rows.push(['Total Study Time', summary.totalStudyTime]);
+        rows.push(['Total Break Time', summary.totalBreakTime]);
+        rows.push(['Break Ratio', `${summary.breakRatio}%`]);
         rows.push(['Export Date', summary.exportDate]);
         
-        content = [headers, ...rows].map(row => row.join(',')).join('\n');
+        content = [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
         filename = `studywatch-export-${range}-${new Date().toISOString().split('T')[0]}.csv`;
         mimeType = 'text/csv';
       }
       
-      // Download file
-      const blob = new Blob([content], { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
+      await downloadExport(content, filename, mimeType);
       setOpen(false);
     } catch (error) {
       console.error('Export failed:', error);
@@ -204,7 +258,7 @@ export function ExportButton() {
           {/* Format Selection */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Format</label>
-            <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-3 gap-2">
               <Button
                 variant={format === 'csv' ? 'default' : 'outline'}
                 onClick={() => setFormat('csv')}
@@ -221,18 +275,35 @@ export function ExportButton() {
                 <FileJson className="h-4 w-4" />
                 JSON
               </Button>
+              <Button
+                variant={format === 'backup' ? 'default' : 'outline'}
+                onClick={() => setFormat('backup')}
+                className="gap-2"
+              >
+                <DatabaseBackup className="h-4 w-4" />
+                Backup
+              </Button>
             </div>
             <p className="text-xs text-muted-foreground">
               {format === 'csv' 
                 ? 'Works with Excel, Google Sheets' 
-                : 'Includes sessions, tasks, and notes'}
+                : format === 'json'
+                  ? 'Includes sessions, tasks, and notes'
+                  : 'Everything, including IDs, settings, goals and achievements - can be imported again'}
             </p>
           </div>
+
+          {isEncryptionEnabled() && (
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <KeyRound className="h-3.5 w-3.5" />
+              Encrypted with your passphrase. Import it here, or open it with your recovery code.
+            </p>
+          )}
           
           {/* Date Range Selection */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Date Range</label>
-            <Select value={range} onValueChange={(v) => setRange(v as ExportRange)}>
+            <Select value={format === 'backup' ? 'all' : range} onValueChange={(v) => setRange(v as ExportRange)} disabled={format === 'backup'}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -280,7 +351,7 @@ export function ExportButton() {
           ) : (
             <>
               <Download className="h-4 w-4" />
-              Download {format.toUpperCase()}
+              Download {format === 'backup' ? 'Backup' : format.toUpperCase()}
             </>
           )}
         </Button>
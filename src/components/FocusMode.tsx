@@ -13,8 +13,9 @@ interface FocusModeProps {
   onClose: () => void;
   timerState: TimerState;
   todayTime: number;
-  topicName?: string;
-  subtopicName?: string;
+  topicPath?: string[]; // names from the top-level topic down
+  topicColor?: string;
+  topicEmoji?: string | null;
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
@@ -26,8 +27,9 @@ export const FocusMode = ({
   onClose,
   timerState,
   todayTime,
-  topicName,
-  subtopicName,
+  topicPath = [],
+  topicColor,
+  topicEmoji,
   onStart,
   onPause,
   onResume,
@@ -96,8 +98,8 @@ export const FocusMode = ({
           </Button>
         </motion.div>
 
-        {/* Topic/Subtopic label */}
-        {(topicName || subtopicName) && (
+        {/* Topic path label */}
+        {topicPath.length > 0 && (
           <motion.div
             className="absolute top-6 left-6"
             initial={{ opacity: 0, x: -20 }}
@@ -105,11 +107,14 @@ export const FocusMode = ({
             transition={{ delay: 0.2 }}
           >
             <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-muted/50">
+              {topicEmoji ? (
+                <span className="text-sm">{topicEmoji}</span>
+              ) : topicColor && (
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: topicColor }} />
+              )}
               <span className="text-sm text-muted-foreground">
-                {topicName || 'No Topic'}
-                {subtopicName && (
-                  <span className="text-primary"> / {subtopicName}</span>
-                )}
+                {topicPath.slice(0, -1).map(name => `${name} / `).join('')}
+                <span style={{ color: topicColor }}>{topicPath[topicPath.length - 1]}</span>
               </span>
             </div>
           </motion.div>
@@ -4,7 +4,7 @@ import { Target, TrendingUp, Edit2, Check, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { loadDailyGoal, saveDailyGoal, loadWeeklyGoal, saveWeeklyGoal } from '@/lib/goals';
-import { getAllSegments } from '@/lib/db';
+import { getDailyTotals } from '@/lib/db';
 import { cn } from '@/lib/utils';
 
 interface GoalsPanelProps {
@@ -46,19 +46,14 @@ export const GoalsPanel = ({ refreshTrigger, currentTodayTime }: GoalsPanelProps
 
   useEffect(() => {
     const loadWeeklyData = async () => {
-      const segments = await getAllSegments();
-      
       // Get start of current week (Sunday)
       const now = new Date();
       const startOfWeek = new Date(now);
       startOfWeek.setDate(now.getDate() - now.getDay());
       startOfWeek.setHours(0, 0, 0, 0);
       
-      const weekStart = startOfWeek.getTime();
-      
-      const weekTotal = segments
-        .filter(seg => seg.startTs >= weekStart && seg.endTs)
-        .reduce((total, seg) => total + ((seg.endTs || 0) - seg.startTs), 0);
+      const days = await getDailyTotals(startOfWeek.getTime(), now.getTime());
+      const weekTotal = days.reduce((total, day) => total + day.total, 0);
       
       setWeeklyTime(weekTotal);
     };
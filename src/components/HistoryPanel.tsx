@@ -1,10 +1,22 @@
 import { useEffect, useState } from 'react';
-import { getAllSegments, getAllTopics, Segment, deleteSessions } from '@/lib/db';
+import { getSegmentsInRange, getSegmentsBySession, getNotesBySession, getAllTopics, getAllTags, getReflectedSessions, removeDistraction, Segment, Note, Distraction, SessionReflection, deleteSessions } from '@/lib/db';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { History, Clock, ChevronDown, ChevronRight, Play, CheckSquare, Trash2, Square, CheckCheck } from 'lucide-react';
+import { History, Clock, ChevronDown, ChevronRight, Play, CheckSquare, Trash2, Square, CheckCheck, Pencil, StickyNote, ListTodo, AlertTriangle, NotebookPen, Star, Zap, X, Coffee, Pause } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { SessionEditor } from '@/components/SessionEditor';
+import { ReflectionDialog } from '@/components/ReflectionDialog';
+import { ManualEntryButton } from '@/components/ManualEntryDialog';
+import { TagFilter } from '@/components/TagPicker';
+import { showUndoToast } from '@/lib/undo';
+import { buildTopicTree, formatTopicPath, getTopicPath, TOPIC_PATH_SEPARATOR } from '@/lib/topicTree';
+import { getTopicColor, getTopicEmoji } from '@/lib/topicAppearance';
+import { getEnergyLabel, getMoodEmoji } from '@/lib/reflections';
+import { getDistractionLabel } from '@/lib/distractions';
+import { getSegmentKind, isStudySegment, SEGMENT_KIND_LABELS } from '@/lib/segmentKinds';
+import { toast } from 'sonner';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,26 +30,44 @@ import {
 
 interface HistoryPanelProps {
   refreshTrigger?: number;
-  onResumeEntry?: (topicId: string | null, subtopicId: string | null) => void;
+  onResumeEntry?: (topicId: string | null) => void;
   onDataChange?: () => void;
 }
 
+// Time grouped under each top-level topic, with a row per topic it was
+// actually recorded on
 interface TopicTotal {
   topicId: string | null;
   topicName: string | null;
-  subtopics: Map<string | null, {
-    subtopicId: string | null;
-    subtopicName: string | null;
+  color: string;
+  emoji: string | null;
+  entries: Map<string | null, {
+    topicId: string | null;
+    label: string | null; // path below the top-level topic, null for the topic itself
     totalTime: number;
   }>;
   totalTime: number;
 }
 
+interface SessionNote extends Note {
+  label: string | null; // topic path it was written under
+}
+
+// Notes, distractions, breaks and pauses share the session timeline
+type TimelineEntry =
+  | { kind: 'note'; atTs: number; note: SessionNote }
+  | { kind: 'distraction'; atTs: number; segmentId: string; distraction: Distraction }
+  | { kind: 'gap'; atTs: number; segment: Segment };
+
 interface SessionData {
   sessionId: string;
   startTime: Date;
   topicTotals: TopicTotal[];
   totalTime: number;
+  timeline: TimelineEntry[];
+  tagNames: string[];
+  reflection?: SessionReflection;
+  hasRecovered: boolean; // some time was kept through a heartbeat gap
 }
 
 interface DateGroup {
@@ -46,6 +76,10 @@ interface DateGroup {
   sessions: SessionData[];
 }
 
+// History loads in windows of this many days; "Show older" extends it
+const HISTORY_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 const formatDuration = (ms: number): string => {
   const totalSeconds = Math.floor(ms / 1000);
   const hours = Math.floor(totalSeconds / 3600);
@@ -90,25 +124,32 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [reflecting, setReflecting] = useState<{ sessionId: string; reflection?: SessionReflection } | null>(null);
+  const [historyDays, setHistoryDays] = useState(HISTORY_WINDOW_DAYS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
 
   const allSessionIds = dateGroups.flatMap(g => g.sessions.map(s => s.sessionId));
 
   useEffect(() => {
     const loadHistory = async () => {
-      const allSegments = await getAllSegments();
-      const allTopics = await getAllTopics();
+      const now = Date.now();
+      const windowSegments = await getSegmentsInRange(now - historyDays * DAY_MS, now);
+
+      // Load complete sessions so ones straddling the window edge aren't cut short
+      const windowSessionIds = Array.from(new Set(windowSegments.map(seg => seg.sessionId)));
+      const allSegments = (await Promise.all(windowSessionIds.map(getSegmentsBySession))).flat();
+      const allNotes = (await Promise.all(windowSessionIds.map(getNotesBySession))).flat();
+      const earliestStart = Math.min(now, ...allSegments.map(seg => seg.startTs));
+      const [allTopics, allTags, reflectedSessions] = await Promise.all([
+        getAllTopics(),
+        getAllTags(),
+        getReflectedSessions(earliestStart - DAY_MS, now),
+      ]);
+      const tagMap = new Map(allTags.map(t => [t.id, t.name]));
+      const reflections = new Map(reflectedSessions.map(session => [session.id, session.reflection]));
       
-      // Build topic name lookup
-      const topicMap = new Map<string, string>();
-      allTopics.forEach(t => topicMap.set(t.id, t.name));
-
-      // Load subtopics for all topics
-      const subtopicMap = new Map<string, string>();
-      const { getSubtopicsByTopic } = await import('@/lib/db');
-      for (const topic of allTopics) {
-        const subs = await getSubtopicsByTopic(topic.id);
-        subs.forEach(s => subtopicMap.set(s.id, s.name));
-      }
+      const topicTree = buildTopicTree(allTopics);
 
       // Group segments by session
       const sessionMap = new Map<string, Segment[]>();
@@ -118,6 +159,15 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
         sessionMap.set(seg.sessionId, existing);
       });
 
+      // Group notes by session, labelled with what was being studied
+      const notesBySession = new Map<string, SessionNote[]>();
+      allNotes.forEach(note => {
+        const label = note.topicId ? formatTopicPath(topicTree, note.topicId) : null;
+        const existing = notesBySession.get(note.sessionId!) || [];
+        existing.push({ ...note, label });
+        notesBySession.set(note.sessionId!, existing);
+      });
+
       // Convert to session data
       const sessionList: SessionData[] = [];
       
@@ -126,38 +176,47 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
         segments.sort((a, b) => a.startTs - b.startTs);
         
         const firstSegment = segments[0];
+        const tagNames = Array.from(new Set(segments.flatMap(seg => seg.tagIds ?? [])))
+          .map(tagId => tagMap.get(tagId))
+          .filter((name): name is string => name !== undefined);
         let sessionTotal = 0;
         
-        // Aggregate by topic/subtopic
+        // Aggregate by top-level topic, then by the topic each segment sits on
         const topicMap2 = new Map<string | null, TopicTotal>();
         
+        // With a tag filter, only tagged time counts and untagged sessions drop out
         segments
-          .filter(seg => seg.endTs)
+          .filter(seg => seg.endTs && isStudySegment(seg) && (!tagFilter || seg.tagIds?.includes(tagFilter)))
           .forEach(seg => {
             const duration = (seg.endTs || 0) - seg.startTs;
             sessionTotal += duration;
             
-            // Get or create topic entry
-            if (!topicMap2.has(seg.topicId)) {
-              topicMap2.set(seg.topicId, {
-                topicId: seg.topicId,
-                topicName: seg.topicId ? topicMap.get(seg.topicId) || 'Unknown' : null,
-                subtopics: new Map(),
+            const path = getTopicPath(topicTree, seg.topicId);
+            const rootId = path.length > 0 ? path[0].id : seg.topicId;
+
+            // Get or create top-level topic entry
+            if (!topicMap2.has(rootId)) {
+              topicMap2.set(rootId, {
+                topicId: rootId,
+                topicName: seg.topicId ? path[0]?.name || 'Unknown' : null,
+                color: getTopicColor(topicTree, rootId),
+                emoji: getTopicEmoji(topicTree, rootId),
+                entries: new Map(),
                 totalTime: 0,
               });
             }
-            const topicEntry = topicMap2.get(seg.topicId)!;
+            const topicEntry = topicMap2.get(rootId)!;
             topicEntry.totalTime += duration;
             
-            // Get or create subtopic entry
-            if (!topicEntry.subtopics.has(seg.subtopicId)) {
-              topicEntry.subtopics.set(seg.subtopicId, {
-                subtopicId: seg.subtopicId,
-                subtopicName: seg.subtopicId ? subtopicMap.get(seg.subtopicId) || 'Unknown' : null,
+            // Get or create the row for the exact topic
+            if (!topicEntry.entries.has(seg.topicId)) {
+              topicEntry.entries.set(seg.topicId, {
+                topicId: seg.topicId,
+                label: path.length > 1 ? path.slice(1).map(t => t.name).join(TOPIC_PATH_SEPARATOR) : null,
                 totalTime: 0,
               });
             }
-            topicEntry.subtopics.get(seg.subtopicId)!.totalTime += duration;
+            topicEntry.entries.get(seg.topicId)!.totalTime += duration;
           });
 
         if (sessionTotal > 0) {
@@ -166,6 +225,21 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
             startTime: new Date(firstSegment.startTs),
             topicTotals: Array.from(topicMap2.values()),
             totalTime: sessionTotal,
+            timeline: [
+              ...(notesBySession.get(sessionId) || []).map((note): TimelineEntry => ({ kind: 'note', atTs: note.atTs, note })),
+              ...segments.flatMap(seg => (seg.distractions ?? []).map((distraction): TimelineEntry => ({
+                kind: 'distraction',
+                atTs: distraction.atTs,
+                segmentId: seg.id,
+                distraction,
+              }))),
+              ...segments
+                .filter(seg => seg.endTs && !isStudySegment(seg))
+                .map((segment): TimelineEntry => ({ kind: 'gap', atTs: segment.startTs, segment })),
+            ].sort((a, b) => a.atTs - b.atTs),
+            tagNames,
+            reflection: reflections.get(sessionId),
+            hasRecovered: segments.some(seg => seg.recovered),
           });
         }
       });
@@ -208,7 +282,7 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
     };
 
     loadHistory();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, historyDays, tagFilter]);
 
   const toggleSession = (sessionId: string) => {
     if (isSelectMode) return; // Don't toggle when in select mode
@@ -233,18 +307,33 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
     }
   };
 
+  const handleRemoveDistraction = async (segmentId: string, distractionId: string) => {
+    try {
+      await removeDistraction(segmentId, distractionId);
+      onDataChange?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not remove the distraction');
+    }
+  };
+
   const handleDeleteSelected = async () => {
     if (selectedSessions.size === 0) return;
     
     setIsDeleting(true);
     try {
-      await deleteSessions(Array.from(selectedSessions));
+      const trashId = await deleteSessions(Array.from(selectedSessions));
+      showUndoToast(
+        selectedSessions.size === 1 ? 'Session deleted' : `${selectedSessions.size} sessions deleted`,
+        trashId,
+        onDataChange
+      );
       setSelectedSessions(new Set());
       setIsSelectMode(false);
       setShowDeleteDialog(false);
       onDataChange?.();
     } catch (error) {
-      console.error('Failed to delete sessions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete sessions');
+      setShowDeleteDialog(false);
     } finally {
       setIsDeleting(false);
     }
@@ -261,10 +350,22 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
         <div className="flex items-center gap-2 mb-4">
           <History className="h-5 w-5 text-muted-foreground" />
           <h2 className="font-semibold text-foreground">History</h2>
+          <div className="ml-auto flex items-center gap-1">
+            <TagFilter value={tagFilter} onChange={setTagFilter} refreshTrigger={refreshTrigger} />
+            <ManualEntryButton onCreated={onDataChange} />
+          </div>
         </div>
         <p className="text-sm text-muted-foreground text-center py-8">
-          No study sessions recorded yet
+          No study sessions {tagFilter ? 'with this tag ' : ''}in the last {historyDays} days
         </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setHistoryDays(days => days + HISTORY_WINDOW_DAYS)}
+          className="text-xs text-muted-foreground"
+        >
+          Show older sessions
+        </Button>
       </div>
     );
   }
@@ -309,15 +410,19 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
                 </Button>
               </>
             ) : (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setIsSelectMode(true)}
-                className="h-7 px-2 text-xs"
-              >
-                <CheckSquare className="h-3.5 w-3.5 mr-1" />
-                Select
-              </Button>
+              <>
+                <TagFilter value={tagFilter} onChange={setTagFilter} refreshTrigger={refreshTrigger} />
+                <ManualEntryButton onCreated={onDataChange} />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsSelectMode(true)}
+                  className="h-7 px-2 text-xs"
+                >
+                  <CheckSquare className="h-3.5 w-3.5 mr-1" />
+                  Select
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -384,9 +489,39 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
                               <span className="font-medium text-sm">
                                 {formatTime(session.startTime.getTime())}
                               </span>
-                              <span className="text-xs text-muted-foreground/60">
-                                ({session.topicTotals.length} topic{session.topicTotals.length !== 1 ? 's' : ''})
-                              </span>
+                              {session.topicTotals.map(topic => (
+                                <Badge
+                                  key={topic.topicId || 'no-topic'}
+                                  variant="outline"
+                                  className="text-[10px] px-1.5 py-0 gap-1"
+                                  style={{ borderColor: topic.color }}
+                                >
+                                  {topic.emoji || (
+                                    <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: topic.color }} />
+                                  )}
+                                  {topic.topicName || 'No Topic'}
+                                </Badge>
+                              ))}
+                              {session.tagNames.map(name => (
+                                <Badge key={name} variant="secondary" className="text-[10px] px-1.5 py-0">
+                                  {name}
+                                </Badge>
+                              ))}
+                              {session.reflection && (
+                                <span
+                                  className="flex items-center gap-0.5 text-xs text-muted-foreground"
+                                  title={`Focus ${session.reflection.focus} of 5`}
+                                >
+                                  <Star className="h-3 w-3 fill-current text-amber-500" />
+                                  {session.reflection.focus}
+                                  {getMoodEmoji(session.reflection.mood) && <span className="ml-1">{getMoodEmoji(session.reflection.mood)}</span>}
+                                </span>
+                              )}
+                              {session.hasRecovered && (
+                                <span title="Recovered after the app crashed or the computer slept">
+                                  <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+                                </span>
+                              )}
                             </div>
                             <span className="text-sm font-mono text-primary">
                               {formatDuration(session.totalTime)}
@@ -397,12 +532,67 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
                       
                       <CollapsibleContent>
                         <div className="ml-6 mt-2 space-y-3">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setReflecting({ sessionId: session.sessionId, reflection: session.reflection })}
+                              className="h-7 px-2 text-xs"
+                            >
+                              <NotebookPen className="h-3.5 w-3.5 mr-1" />
+                              {session.reflection ? 'Edit reflection' : 'Reflect'}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingSessionId(session.sessionId)}
+                              className="h-7 px-2 text-xs"
+                            >
+                              <Pencil className="h-3.5 w-3.5 mr-1" />
+                              Edit segments
+                            </Button>
+                          </div>
+                          {session.reflection && (
+                            <div className="p-3 rounded-lg bg-background/50 space-y-1.5 text-sm">
+                              <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                                <span className="flex items-center gap-1">
+                                  {[1, 2, 3, 4, 5].map(rating => (
+                                    <Star
+                                      key={rating}
+                                      className={`h-3 w-3 ${rating <= session.reflection!.focus ? 'fill-current text-amber-500' : ''}`}
+                                    />
+                                  ))}
+                                  <span className="ml-1">focus</span>
+                                </span>
+                                {getMoodEmoji(session.reflection.mood) && (
+                                  <span>Mood {getMoodEmoji(session.reflection.mood)}</span>
+                                )}
+                                {getEnergyLabel(session.reflection.energy) && (
+                                  <span>Energy: {getEnergyLabel(session.reflection.energy)}</span>
+                                )}
+                              </div>
+                              {session.reflection.accomplished && (
+                                <p className="text-foreground whitespace-pre-wrap break-words">{session.reflection.accomplished}</p>
+                              )}
+                              {session.reflection.nextStep && (
+                                <p className="text-muted-foreground break-words">
+                                  <span className="text-xs uppercase tracking-wider mr-1.5">Next</span>
+                                  {session.reflection.nextStep}
+                                </p>
+                              )}
+                            </div>
+                          )}
+
                           {session.topicTotals.map((topic) => (
                             <div key={topic.topicId || 'no-topic'} className="space-y-1">
                               {/* Topic header */}
                               <div className="flex items-center justify-between py-2 px-3 rounded-lg bg-background/50">
                                 <div className="flex items-center gap-2">
-                                  <Clock className="h-3.5 w-3.5 text-primary" />
+                                  {topic.emoji ? (
+                                    <span className="text-sm leading-none">{topic.emoji}</span>
+                                  ) : (
+                                    <Clock className="h-3.5 w-3.5" style={{ color: topic.color }} />
+                                  )}
                                   <span className="font-medium text-foreground">
                                     {topic.topicName || 'No Topic'}
                                   </span>
@@ -412,22 +602,22 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
                                 </span>
                               </div>
                               
-                              {/* Subtopic rows - show all including "General" for null subtopics */}
+                              {/* Rows per topic below it - "General" for time on the topic itself */}
                               <div className="ml-4 space-y-1">
-                                {Array.from(topic.subtopics.values()).map((subtopic) => (
+                                {Array.from(topic.entries.values()).map((entry) => (
                                   <button
-                                    key={subtopic.subtopicId || 'general'}
-                                    onClick={() => onResumeEntry?.(topic.topicId, subtopic.subtopicId)}
+                                    key={entry.topicId || 'general'}
+                                    onClick={() => onResumeEntry?.(entry.topicId)}
                                     className="w-full flex items-center justify-between py-1.5 px-3 text-sm rounded-lg hover:bg-primary/10 transition-colors cursor-pointer text-left group"
                                   >
                                     <div className="flex items-center gap-2">
                                       <span className="text-muted-foreground">
-                                        {subtopic.subtopicName || 'General'}
+                                        {entry.label || 'General'}
                                       </span>
                                     </div>
                                     <div className="flex items-center gap-2">
                                       <span className="text-xs font-mono text-muted-foreground">
-                                        {formatDuration(subtopic.totalTime)}
+                                        {formatDuration(entry.totalTime)}
                                       </span>
                                       <Play className="h-3 w-3 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
                                     </div>
@@ -436,6 +626,64 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
                               </div>
                             </div>
                           ))}
+
+                          {/* Notes, tasks and distractions, in the order they happened */}
+                          {session.timeline.length > 0 && (
+                            <div className="space-y-1 border-l-2 border-border/50 pl-3">
+                              {session.timeline.map((entry) => entry.kind === 'gap' ? (
+                                <div key={entry.segment.id} className="flex items-center gap-2 py-1 text-sm">
+                                  {entry.segment.kind === 'break' ? (
+                                    <Coffee className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                                  ) : (
+                                    <Pause className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                                  )}
+                                  <span className="text-xs font-mono text-muted-foreground shrink-0">
+                                    {formatTime(entry.atTs)}
+                                  </span>
+                                  <span className="text-muted-foreground">
+                                    {SEGMENT_KIND_LABELS[getSegmentKind(entry.segment)]} · {formatDuration(entry.segment.endTs! - entry.segment.startTs)}
+                                  </span>
+                                </div>
+                              ) : entry.kind === 'distraction' ? (
+                                <div key={entry.distraction.id} className="flex items-center gap-2 py-1 text-sm group">
+                                  <Zap className="h-3.5 w-3.5 text-warning shrink-0" />
+                                  <span className="text-xs font-mono text-muted-foreground shrink-0">
+                                    {formatTime(entry.atTs)}
+                                  </span>
+                                  <span className="text-muted-foreground flex-1 min-w-0 truncate">
+                                    Distracted · {getDistractionLabel(entry.distraction.category)}
+                                    {entry.distraction.durationMs > 0 && ` · ${formatDuration(entry.distraction.durationMs)} lost`}
+                                  </span>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                                    title="Remove distraction"
+                                    onClick={() => handleRemoveDistraction(entry.segmentId, entry.distraction.id)}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              ) : (
+                                <div key={entry.note.id} className="flex items-start gap-2 py-1 text-sm">
+                                  {entry.note.kind === 'task' ? (
+                                    <ListTodo className="h-3.5 w-3.5 mt-0.5 text-muted-foreground shrink-0" />
+                                  ) : (
+                                    <StickyNote className="h-3.5 w-3.5 mt-0.5 text-muted-foreground shrink-0" />
+                                  )}
+                                  <span className="text-xs font-mono text-muted-foreground shrink-0 mt-0.5">
+                                    {formatTime(entry.atTs)}
+                                  </span>
+                                  <div className="min-w-0">
+                                    <p className="text-foreground whitespace-pre-wrap break-words">{entry.note.text}</p>
+                                    {entry.note.label && (
+                                      <p className="text-xs text-muted-foreground">{entry.note.label}</p>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </CollapsibleContent>
                     </Collapsible>
@@ -443,16 +691,37 @@ export const HistoryPanel = ({ refreshTrigger, onResumeEntry, onDataChange }: Hi
                 </div>
               </div>
             ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setHistoryDays(days => days + HISTORY_WINDOW_DAYS)}
+              className="w-full text-xs text-muted-foreground"
+            >
+              Show older sessions
+            </Button>
           </div>
         </ScrollArea>
       </div>
 
+      <SessionEditor
+        sessionId={editingSessionId}
+        onOpenChange={(open) => !open && setEditingSessionId(null)}
+        onSaved={onDataChange}
+      />
+
+      <ReflectionDialog
+        sessionId={reflecting?.sessionId ?? null}
+        initial={reflecting?.reflection}
+        onClose={() => setReflecting(null)}
+        onSaved={onDataChange}
+      />
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete {selectedSessions.size} session{selectedSessions.size !== 1 ? 's' : ''}?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the selected study sessions and all their time tracking data.
+              The selected study sessions and their time tracking data will move to the trash, where they can be restored until they expire.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
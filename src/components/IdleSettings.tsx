@@ -0,0 +1,92 @@
+import { Moon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { IdleSettings as IdleSettingsValue, IDLE_THRESHOLD_OPTIONS } from '@/lib/idleSettings';
+import { isSystemIdleSupported, requestSystemIdlePermission } from '@/lib/idleDetector';
+
+interface IdleSettingsProps {
+  settings: IdleSettingsValue;
+  onChange: (settings: IdleSettingsValue) => void;
+}
+
+export function IdleSettings({ settings, onChange }: IdleSettingsProps) {
+  const handleSystemIdleChange = async (checked: boolean) => {
+    if (checked && !(await requestSystemIdlePermission())) {
+      toast.error('Permission to detect system idle state was denied');
+      return;
+    }
+    onChange({ ...settings, useSystemIdle: checked });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Auto-pause when away">
+          <Moon className={settings.enabled ? 'h-4 w-4' : 'h-4 w-4 text-muted-foreground'} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="idle-enabled" className="text-sm font-medium">Auto-pause when away</Label>
+            <Switch
+              id="idle-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs text-muted-foreground">After no activity for</Label>
+            <Select
+              value={String(settings.thresholdMinutes)}
+              onValueChange={(v) => onChange({ ...settings, thresholdMinutes: parseInt(v, 10) })}
+              disabled={!settings.enabled}
+            >
+              <SelectTrigger className="h-8 w-24 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IDLE_THRESHOLD_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isSystemIdleSupported() && (
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="idle-system" className="text-xs text-muted-foreground">
+                Count activity in other apps
+              </Label>
+              <Switch
+                id="idle-system"
+                checked={settings.useSystemIdle}
+                onCheckedChange={handleSystemIdleChange}
+                disabled={!settings.enabled}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Time with this tab hidden counts as away
+            {settings.useSystemIdle ? ' unless you are active in another app' : ''}.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from 'react';
+import { Upload, FileJson, FileSpreadsheet, DatabaseBackup, AlertTriangle, KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CsvImportForm } from '@/components/CsvImportForm';
+import { ImportMode } from '@/lib/db';
+import { parseBackup, previewBackup, restoreBackup, StudyWatchBackup, BackupPreview } from '@/lib/backup';
+import { decryptExport, isEncryptedExport } from '@/lib/encryption';
+
+interface ImportButtonProps {
+  isTimerActive?: boolean;
+  onImported?: () => void;
+  restoreRequest?: { name: string; text: string } | null; // a backup read elsewhere, opened for restore
+}
+
+const formatDateSimple = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+interface BackupTextResult {
+  backup: StudyWatchBackup | null;
+  preview: BackupPreview | null;
+  error: string | null;
+}
+
+const EMPTY_RESULT: BackupTextResult = { backup: null, preview: null, error: null };
+
+const readBackupText = (text: string): BackupTextResult => {
+  try {
+    const backup = parseBackup(text);
+    return { backup, preview: previewBackup(backup), error: null };
+  } catch (err) {
+    return { ...EMPTY_RESULT, error: err instanceof Error ? err.message : 'Could not read this file' };
+  }
+};
+
+export function ImportButton({ isTimerActive = false, onImported, restoreRequest = null }: ImportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [backup, setBackup] = useState<StudyWatchBackup | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [encryptedText, setEncryptedText] = useState<string | null>(null);
+  const [secret, setSecret] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setBackup(null);
+    setPreview(null);
+    setError(null);
+    setMode('merge');
+    setEncryptedText(null);
+    setSecret('');
+    setSourceName(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleText = (text: string, name: string) => {
+    // Encrypted files wait for the passphrase before parsing
+    const isEncrypted = isEncryptedExport(text);
+    const result = isEncrypted ? EMPTY_RESULT : readBackupText(text);
+    setSourceName(name);
+    setSecret('');
+    setEncryptedText(isEncrypted ? text : null);
+    setBackup(result.backup);
+    setPreview(result.preview);
+    setError(result.error);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    handleText(await file.text(), file.name);
+  };
+
+  useEffect(() => {
+    if (!restoreRequest) return;
+    setMode('merge');
+    setOpen(true);
+    handleText(restoreRequest.text, restoreRequest.name);
+  }, [restoreRequest]);
+
+  const handleDecrypt = async () => {
+    if (!encryptedText) return;
+    setIsDecrypting(true);
+    try {
+      const result = readBackupText(await decryptExport(encryptedText, secret));
+      setBackup(result.backup);
+      setPreview(result.preview);
+      setError(result.error);
+      setEncryptedText(null);
+      setSecret('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not decrypt this file');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+    setIsImporting(true);
+    try {
+      const written = await restoreBackup(backup, mode);
+      toast.success(`Imported ${written} record${written === 1 ? '' : 's'}`, {
+        description: 'Reload to apply restored settings',
+        action: { label: 'Reload', onClick: () => window.location.reload() },
+      });
+      handleOpenChange(false);
+      onImported?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const previewRows: [string, number][] = preview
+    ? [
+        ['Sessions', preview.sessions],
+        ['Segments', preview.segments],
+        ['Topics', preview.topics],
+        ['Notes', preview.notes],
+        ['Tasks', preview.tasks],
+        ['Tags', preview.tags],
+        ['Settings', preview.settings],
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Upload className="h-4 w-4" />
+          <span className="hidden sm:inline">Import</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Data
+          </DialogTitle>
+          <DialogDescription>
+            Restore a backup made with Export → Backup, or bring in time logs from another tracker
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="backup">
+          <TabsList className="grid w-full grid-cols-2 mb-2">
+            <TabsTrigger value="backup" className="gap-2">
+              <DatabaseBackup className="h-4 w-4" />
+              Backup
+            </TabsTrigger>
+            <TabsTrigger value="csv" className="gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              CSV time log
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="backup" className="space-y-4">
+            <div className="space-y-4 py-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button variant="outline" className="w-full gap-2" onClick={() => fileInputRef.current?.click()}>
+                <FileJson className="h-4 w-4" />
+                {backup ? 'Choose a different file' : 'Choose backup file'}
+              </Button>
+              {sourceName && <p className="text-xs text-muted-foreground truncate">{sourceName}</p>}
+
+              {encryptedText && (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleDecrypt();
+                  }}
+                >
+                  <Label htmlFor="import-secret" className="flex items-center gap-2">
+                    <KeyRound className="h-4 w-4" />
+                    This file is encrypted
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="import-secret"
+                      type="password"
+                      placeholder="Passphrase or recovery code"
+                      value={secret}
+                      onChange={(e) => setSecret(e.target.value)}
+                      autoFocus
+                    />
+                    <Button type="submit" variant="outline" disabled={!secret || isDecrypting}>
+                      {isDecrypting ? 'Decrypting...' : 'Decrypt'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {error && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {preview && (
+                <>
+                  <div className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Exported {new Date(preview.exportedAt).toLocaleString()}
+                      {preview.firstTs !== null && preview.lastTs !== null && (
+                        <> · {formatDateSimple(preview.firstTs)} – {formatDateSimple(preview.lastTs)}</>
+                      )}
+                    </p>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                      {previewRows.map(([label, count]) => (
+                        <div key={label} className="flex justify-between">
+                          <span className="text-muted-foreground">{label}</span>
+                          <span className="font-mono">{count}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <RadioGroup value={mode} onValueChange={(v) => setMode(v as ImportMode)}>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="merge" id="import-merge" />
+                      <Label htmlFor="import-merge">Merge - add records that aren't here yet</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="replace" id="import-replace" disabled={isTimerActive} />
+                      <Label htmlFor="import-replace" className={isTimerActive ? 'opacity-50' : ''}>
+                        Replace - erase current data first
+                      </Label>
+                    </div>
+                    {isTimerActive && (
+                      <p className="text-xs text-muted-foreground">End the current session to replace data</p>
+                    )}
+                  </RadioGroup>
+
+                  {mode === 'replace' && (
+                    <p className="text-xs text-destructive">
+                      All sessions, topics, notes and settings on this device will be replaced by the backup.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <Button onClick={handleImport} disabled={!backup || isImporting} className="w-full gap-2">
+              <Upload className="h-4 w-4" />
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="csv">
+            <CsvImportForm
+              onImported={() => {
+                handleOpenChange(false);
+                onImported?.();
+              }}
+            />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
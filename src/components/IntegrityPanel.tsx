@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, RefreshCw, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  IntegrityIssueKind,
+  IntegrityReport,
+  quickIntegrityCheck,
+  repairIntegrityIssue,
+  scanIntegrity,
+} from '@/lib/integrity';
+import { showUndoToast } from '@/lib/undo';
+
+interface IntegrityButtonProps {
+  refreshTrigger?: number;
+  onRepaired?: () => void;
+}
+
+export const IntegrityButton = ({ refreshTrigger, onRepaired }: IntegrityButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [repairing, setRepairing] = useState<IntegrityIssueKind | null>(null);
+
+  // Light check of recent data once on startup
+  useEffect(() => {
+    quickIntegrityCheck()
+      .then((quick) => {
+        const problems = quick.issues.reduce((sum, issue) => sum + issue.count, 0);
+        if (problems === 0) return;
+        toast.warning(`Found ${problems} data problem${problems === 1 ? '' : 's'}`, {
+          description: quick.issues.map(issue => issue.title).join(', '),
+          action: { label: 'Review', onClick: () => setIsOpen(true) },
+        });
+      })
+      .catch((error) => {
+        console.error('Startup integrity check failed:', error);
+      });
+  }, []);
+
+  const runScan = async () => {
+    setIsScanning(true);
+    try {
+      setReport(await scanIntegrity());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Integrity check failed');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) runScan();
+  }, [isOpen, refreshTrigger]);
+
+  const handleRepair = async (kind: IntegrityIssueKind, title: string) => {
+    setRepairing(kind);
+    try {
+      const trashId = await repairIntegrityIssue(kind);
+      if (trashId) showUndoToast(`Repaired: ${title}`, trashId, onRepaired);
+      // onRepaired bumps refreshTrigger, which re-scans
+      onRepaired?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Repair failed');
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  const isHealthy = report !== null && report.issues.length === 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          <span className="hidden sm:inline">Check data</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Data Integrity
+          </DialogTitle>
+          <DialogDescription>
+            Scan every session and segment for problems. Repairs can be undone from the trash.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {report
+              ? `${report.sessionCount} sessions, ${report.segmentCount} segments checked ${new Date(report.checkedAt).toLocaleTimeString()}`
+              : 'Not checked yet'}
+          </p>
+          <Button variant="ghost" size="sm" onClick={runScan} disabled={isScanning} className="gap-2">
+            <RefreshCw className={isScanning ? 'h-3.5 w-3.5 animate-spin' : 'h-3.5 w-3.5'} />
+            Check again
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[360px] pr-4">
+          {isHealthy ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center">
+              <ShieldCheck className="h-8 w-8 text-primary" />
+              <p className="text-sm text-muted-foreground">No problems found</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {report?.issues.map((issue) => (
+                <div key={issue.kind} className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <ShieldAlert className="h-4 w-4 text-amber-500 shrink-0" />
+                    <p className="flex-1 text-sm font-medium text-foreground">{issue.title}</p>
+                    <span className="font-mono text-sm text-muted-foreground">{issue.count}</span>
+                  </div>
+                  <ul className="ml-7 space-y-0.5 text-xs text-muted-foreground">
+                    {issue.examples.map((example, index) => (
+                      <li key={index}>{example}</li>
+                    ))}
+                    {issue.count > issue.examples.length && (
+                      <li>and {issue.count - issue.examples.length} more</li>
+                    )}
+                  </ul>
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 gap-1.5 text-xs"
+                      disabled={repairing !== null}
+                      onClick={() => handleRepair(issue.kind, issue.title)}
+                    >
+                      <Wrench className="h-3.5 w-3.5" />
+                      {repairing === issue.kind ? 'Repairing...' : issue.repairLabel}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
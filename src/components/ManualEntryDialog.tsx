@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { CalendarPlus, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { TopicSelector } from '@/components/TopicSelector';
+import { createManualSession } from '@/lib/db';
+
+interface ManualEntryButtonProps {
+  onCreated?: () => void;
+}
+
+interface EntryRow {
+  key: string;
+  topicId: string | null;
+  start: string;
+  end: string;
+}
+
+const toInputValue = (ts: number): string => {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const fromInputValue = (value: string): number => new Date(value).getTime();
+
+const createRow = (start: string, end: string): EntryRow => ({
+  key: crypto.randomUUID(),
+  topicId: null,
+  start,
+  end,
+});
+
+// Default to the hour that just finished
+const getDefaultRange = () => {
+  const end = new Date();
+  end.setSeconds(0, 0);
+  const start = new Date(end.getTime() - 60 * 60 * 1000);
+  return { start: toInputValue(start.getTime()), end: toInputValue(end.getTime()) };
+};
+
+export const ManualEntryButton = ({ onCreated }: ManualEntryButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<EntryRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const range = getDefaultRange();
+    setRows([createRow(range.start, range.end)]);
+  }, [open]);
+
+  const updateRow = (key: string, changes: Partial<EntryRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    const start = last ? last.end : getDefaultRange().start;
+    const end = toInputValue(fromInputValue(start) + 30 * 60 * 1000);
+    setRows([...rows, createRow(start, end)]);
+  };
+
+  const removeRow = (key: string) => {
+    setRows(prev => prev.filter(row => row.key !== key));
+  };
+
+  const handleSave = async () => {
+    const entries = rows.map(row => ({
+      topicId: row.topicId,
+      startTs: fromInputValue(row.start),
+      endTs: fromInputValue(row.end),
+    }));
+    if (entries.some(e => isNaN(e.startTs) || isNaN(e.endTs))) {
+      toast.error('Fill in a start and end time for every segment');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const sessionStart = Math.min(...entries.map(e => e.startTs));
+      const sessionEnd = Math.max(...entries.map(e => e.endTs));
+      await createManualSession(sessionStart, sessionEnd, entries);
+      toast.success('Study time logged');
+      setOpen(false);
+      onCreated?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to log study time');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          <CalendarPlus className="h-3.5 w-3.5 mr-1" />
+          Log time
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5" />
+            Log Offline Study
+          </DialogTitle>
+          <DialogDescription>
+            Record a completed session you studied away from the timer
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[420px] pr-4">
+          <div className="space-y-3">
+            {rows.map((row, index) => (
+              <div key={row.key} className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs uppercase tracking-widest text-muted-foreground font-medium">
+                    Segment {index + 1}
+                  </span>
+                  {rows.length > 1 && (
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => removeRow(row.key)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="datetime-local"
+                    value={row.start}
+                    onChange={(e) => updateRow(row.key, { start: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                  <Input
+                    type="datetime-local"
+                    value={row.end}
+                    onChange={(e) => updateRow(row.key, { end: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <TopicSelector
+                  compact
+                  selectedId={row.topicId}
+                  onSelect={(topicId) => updateRow(row.key, { topicId })}
+                />
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <Button variant="outline" size="sm" onClick={addRow} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add segment
+        </Button>
+
+        <Button onClick={handleSave} disabled={isSaving} className="w-full">
+          {isSaving ? 'Saving...' : 'Save entry'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
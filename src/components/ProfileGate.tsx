@@ -0,0 +1,118 @@
+import { ReactNode, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getActiveProfile,
+  isProfileUnlocked,
+  loadProfiles,
+  switchProfile,
+  unlockActiveProfile,
+  verifyPin,
+} from '@/lib/profiles';
+
+interface ProfileGateProps {
+  children: ReactNode;
+}
+
+// Holds the app back until the active profile's PIN is entered, so nothing
+// opens its database first. Other profiles can be picked from here too.
+export function ProfileGate({ children }: ProfileGateProps) {
+  const [isUnlocked, setIsUnlocked] = useState(() => isProfileUnlocked());
+  const [active] = useState(getActiveProfile);
+  const [profiles] = useState(loadProfiles);
+  const [targetId, setTargetId] = useState(active.id);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (isUnlocked) return <>{children}</>;
+
+  const target = profiles.find(p => p.id === targetId) ?? active;
+
+  const handleSubmit = async () => {
+    if (target.id === active.id) {
+      if (await unlockActiveProfile(pin)) {
+        setIsUnlocked(true);
+      } else {
+        setError('Wrong PIN');
+        setPin('');
+      }
+      return;
+    }
+    if (!(await verifyPin(target, pin))) {
+      setError('Wrong PIN');
+      setPin('');
+      return;
+    }
+    await switchProfile(target.id, pin);
+    window.location.reload();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <form
+        className="glass-card rounded-2xl p-6 w-full max-w-sm space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="h-12 w-12 rounded-xl bg-primary/10 flex items-center justify-center">
+            <Lock className="h-6 w-6 text-primary" />
+          </div>
+          <h1 className="text-lg font-bold text-foreground">{target.name}</h1>
+          <p className="text-sm text-muted-foreground">
+            {target.pin ? 'Enter the PIN to open this profile' : 'This profile has no PIN'}
+          </p>
+        </div>
+
+        {profiles.length > 1 && (
+          <Select
+            value={targetId}
+            onValueChange={(id) => {
+              setTargetId(id);
+              setPin('');
+              setError(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(p => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {target.pin && (
+          <Input
+            type="password"
+            inputMode="numeric"
+            placeholder="PIN"
+            value={pin}
+            onChange={(e) => {
+              setPin(e.target.value);
+              setError(null);
+            }}
+            autoFocus
+          />
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Button type="submit" className="w-full" disabled={target.pin !== null && !pin}>
+          {target.id === active.id ? 'Unlock' : 'Switch profile'}
+        </Button>
+      </form>
+    </div>
+  );
+}
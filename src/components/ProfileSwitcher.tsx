@@ -0,0 +1,371 @@
+import { useState } from 'react';
+import { UserCircle, Lock, Trash2, Plus, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_PROFILE_ID,
+  Profile,
+  copyProfileSettings,
+  createProfile,
+  deleteProfile,
+  getActiveProfileId,
+  getProfileDbName,
+  loadProfiles,
+  renameProfile,
+  setProfilePin,
+  switchProfile,
+} from '@/lib/profiles';
+import { copyTopicsFromProfile } from '@/lib/db';
+
+interface ProfileSwitcherProps {
+  isTimerActive?: boolean;
+  onTopicsCopied?: () => void;
+}
+
+const NONE = '__none__';
+
+export function ProfileSwitcher({ isTimerActive = false, onTopicsCopied }: ProfileSwitcherProps) {
+  const activeId = getActiveProfileId();
+  const [open, setOpen] = useState(false);
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [switchTarget, setSwitchTarget] = useState<Profile | null>(null);
+  const [switchPin, setSwitchPin] = useState('');
+  const [newName, setNewName] = useState('');
+  const [renameValue, setRenameValue] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [copySourceId, setCopySourceId] = useState(NONE);
+  const [copyTopics, setCopyTopics] = useState(true);
+  const [copySettings, setCopySettings] = useState(true);
+  const [isCopying, setIsCopying] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<Profile | null>(null);
+
+  const active = profiles.find(p => p.id === activeId) ?? profiles[0];
+  const others = profiles.filter(p => p.id !== activeId);
+
+  const reload = () => setProfiles(loadProfiles());
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      reload();
+      setRenameValue(active.name);
+    } else {
+      setSwitchTarget(null);
+      setSwitchPin('');
+      setNewPin('');
+    }
+  };
+
+  // Runs under a try so every action surfaces its error the same way
+  const attempt = async (work: () => Promise<void> | void) => {
+    try {
+      await work();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleSwitch = (profile: Profile, pin = '') =>
+    attempt(async () => {
+      if (profile.pin && !pin) {
+        setSwitchTarget(profile);
+        setSwitchPin('');
+        return;
+      }
+      await switchProfile(profile.id, pin);
+      window.location.reload();
+    });
+
+  const handleCreate = () =>
+    attempt(() => {
+      const profile = createProfile(newName);
+      setNewName('');
+      reload();
+      toast.success(`Created profile "${profile.name}"`);
+    });
+
+  const handleRename = () =>
+    attempt(() => {
+      renameProfile(active.id, renameValue);
+      reload();
+      toast.success('Profile renamed');
+    });
+
+  const handleSetPin = (pin: string | null) =>
+    attempt(async () => {
+      await setProfilePin(active.id, pin);
+      setNewPin('');
+      reload();
+      toast.success(pin === null ? 'PIN removed' : 'PIN set');
+    });
+
+  const handleCopy = () =>
+    attempt(async () => {
+      const source = profiles.find(p => p.id === copySourceId);
+      if (!source) return;
+      setIsCopying(true);
+      try {
+        const copied: string[] = [];
+        if (copyTopics) {
+          const count = await copyTopicsFromProfile(getProfileDbName(source.id));
+          copied.push(`${count} topic${count === 1 ? '' : 's'}`);
+          onTopicsCopied?.();
+        }
+        if (copySettings) {
+          const count = copyProfileSettings(source.id);
+          copied.push(`${count} setting${count === 1 ? '' : 's'}`);
+        }
+        toast.success(`Copied ${copied.join(' and ')} from "${source.name}"`, copySettings ? {
+          description: 'Reload to apply copied settings',
+          action: { label: 'Reload', onClick: () => window.location.reload() },
+        } : undefined);
+      } finally {
+        setIsCopying(false);
+      }
+    });
+
+  const handleDelete = () =>
+    attempt(async () => {
+      if (!pendingDelete) return;
+      await deleteProfile(pendingDelete.id);
+      toast.success(`Deleted profile "${pendingDelete.name}"`);
+      setPendingDelete(null);
+      reload();
+    });
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <UserCircle className="h-4 w-4" />
+            <span className="hidden sm:inline max-w-[8rem] truncate">{active.name}</span>
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5" />
+              Profiles
+            </DialogTitle>
+            <DialogDescription>
+              Each profile keeps its own sessions, topics and settings in this browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[200px] pr-4">
+            <div className="space-y-2">
+              {profiles.map((profile) => (
+                <div key={profile.id} className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <UserCircle className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <p className="flex-1 text-sm font-medium text-foreground truncate">{profile.name}</p>
+                    {profile.pin && <Lock className="h-3.5 w-3.5 text-muted-foreground" />}
+                    {profile.id === activeId ? (
+                      <span className="text-xs text-primary">Active</span>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs"
+                          disabled={isTimerActive}
+                          onClick={() => handleSwitch(profile)}
+                        >
+                          Switch
+                        </Button>
+                        {profile.id !== DEFAULT_PROFILE_ID && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            title="Delete profile"
+                            onClick={() => setPendingDelete(profile)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  {switchTarget?.id === profile.id && (
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleSwitch(profile, switchPin);
+                      }}
+                    >
+                      <Input
+                        type="password"
+                        inputMode="numeric"
+                        placeholder="PIN"
+                        value={switchPin}
+                        onChange={(e) => setSwitchPin(e.target.value)}
+                        className="h-8"
+                        autoFocus
+                      />
+                      <Button type="submit" size="sm" className="h-8" disabled={!switchPin}>
+                        Unlock
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          {isTimerActive && (
+            <p className="text-xs text-muted-foreground">End the current session before switching profiles.</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-new">New profile</Label>
+            <div className="flex gap-2">
+              <Input
+                id="profile-new"
+                placeholder="Name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              />
+              <Button variant="outline" onClick={handleCreate} disabled={!newName.trim()} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Create
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 pt-2 border-t border-border/50">
+            <Label htmlFor="profile-rename">This profile</Label>
+            <div className="flex gap-2">
+              <Input
+                id="profile-rename"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={handleRename}
+                disabled={!renameValue.trim() || renameValue.trim() === active.name}
+              >
+                Rename
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                inputMode="numeric"
+                placeholder={active.pin ? 'New PIN' : 'PIN (4-8 digits)'}
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value)}
+              />
+              <Button variant="outline" onClick={() => handleSetPin(newPin)} disabled={!newPin}>
+                {active.pin ? 'Change PIN' : 'Set PIN'}
+              </Button>
+              {active.pin && (
+                <Button variant="ghost" onClick={() => handleSetPin(null)}>
+                  Remove
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A PIN keeps others from opening this profile here. It does not encrypt the data.
+            </p>
+          </div>
+
+          {others.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <Label>Copy from another profile</Label>
+              <Select value={copySourceId} onValueChange={setCopySourceId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Select a profile...</SelectItem>
+                  {others.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="copy-topics"
+                    checked={copyTopics}
+                    onCheckedChange={(checked) => setCopyTopics(checked === true)}
+                  />
+                  <Label htmlFor="copy-topics" className="font-normal">Topics</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="copy-settings"
+                    checked={copySettings}
+                    onCheckedChange={(checked) => setCopySettings(checked === true)}
+                  />
+                  <Label htmlFor="copy-settings" className="font-normal">Settings and goals</Label>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                className="w-full gap-2"
+                onClick={handleCopy}
+                disabled={copySourceId === NONE || (!copyTopics && !copySettings) || isCopying}
+              >
+                <Copy className="h-4 w-4" />
+                {isCopying ? 'Copying...' : 'Copy into this profile'}
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Topics are matched by name. No study time is copied.
+              </p>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(next) => !next && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All of its sessions, topics and settings are removed from this browser. This cannot be undone;
+              export a backup from that profile first if you might need it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete profile</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
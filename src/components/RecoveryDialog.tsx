@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { AlertTriangle, Scissors, Square, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { RecoveryGap, RecoveryResolution } from '@/hooks/useStudyTimer';
+import {
+  loadRecoveryGapMinutes,
+  saveRecoveryGapMinutes,
+  RECOVERY_GAP_OPTIONS,
+} from '@/lib/recoverySettings';
+
+interface RecoveryDialogProps {
+  recovery: RecoveryGap | null;
+  onResolve: (resolution: RecoveryResolution) => Promise<void>;
+}
+
+const formatGap = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatTime = (ts: number): string => {
+  return new Date(ts).toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function RecoveryDialog({ recovery, onResolve }: RecoveryDialogProps) {
+  const [gapMinutes, setGapMinutes] = useState(loadRecoveryGapMinutes());
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async (resolution: RecoveryResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleGapChange = (value: string) => {
+    const minutes = parseInt(value, 10);
+    setGapMinutes(minutes);
+    saveRecoveryGapMinutes(minutes);
+  };
+
+  const gap = recovery ? recovery.detectedAt - recovery.lastHeartbeatTs : 0;
+
+  return (
+    <AlertDialog open={recovery !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Timer was left running
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {recovery && (
+              <>
+                The timer last checked in {formatTime(recovery.lastHeartbeatTs)}, {formatGap(gap)} ago.
+                The browser may have closed or the computer slept. What should happen to that time?
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            disabled={isResolving}
+            onClick={() => handleResolve('close')}
+          >
+            <Square className="h-4 w-4" />
+            Stop at the last check-in
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            disabled={isResolving}
+            onClick={() => handleResolve('split')}
+          >
+            <Scissors className="h-4 w-4" />
+            Drop the gap and keep going from now
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            disabled={isResolving}
+            onClick={() => handleResolve('keep')}
+          >
+            <Play className="h-4 w-4" />
+            Keep all {formatGap(gap)} - I was studying
+          </Button>
+        </div>
+
+        <AlertDialogFooter className="sm:justify-start">
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Ask after a gap of</Label>
+            <Select value={String(gapMinutes)} onValueChange={handleGapChange}>
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECOVERY_GAP_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes >= 60 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} min`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
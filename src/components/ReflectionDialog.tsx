@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { NotebookPen } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { setSessionReflection, SessionReflection } from '@/lib/db';
+import { ENERGY_LABELS, MOOD_EMOJI, RATING_VALUES } from '@/lib/reflections';
+import { loadReflectionPromptEnabled, saveReflectionPromptEnabled } from '@/lib/reflectionSettings';
+
+interface ReflectionDialogProps {
+  sessionId: string | null; // open while set
+  initial?: SessionReflection; // when editing an earlier reflection
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const FOCUS_LABELS = ['Scattered', 'Distracted', 'Okay', 'Focused', 'In the zone'];
+
+export function ReflectionDialog({ sessionId, initial, onClose, onSaved }: ReflectionDialogProps) {
+  const [focus, setFocus] = useState<number | null>(null);
+  const [mood, setMood] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [accomplished, setAccomplished] = useState('');
+  const [nextStep, setNextStep] = useState('');
+  const [askEveryTime, setAskEveryTime] = useState(loadReflectionPromptEnabled());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setFocus(initial?.focus ?? null);
+    setMood(initial?.mood ?? null);
+    setEnergy(initial?.energy ?? null);
+    setAccomplished(initial?.accomplished ?? '');
+    setNextStep(initial?.nextStep ?? '');
+  }, [sessionId, initial]);
+
+  const handleAskChange = (enabled: boolean) => {
+    setAskEveryTime(enabled);
+    saveReflectionPromptEnabled(enabled);
+  };
+
+  const handleSave = async () => {
+    if (!sessionId || !focus) return;
+    setIsSaving(true);
+    try {
+      await setSessionReflection(sessionId, { focus, mood, energy, accomplished, nextStep });
+      toast.success('Reflection saved');
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the reflection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderScale = (
+    value: number | null,
+    onChange: (value: number | null) => void,
+    label: (rating: number) => string,
+    title: (rating: number) => string
+  ) => (
+    <div className="grid grid-cols-5 gap-1.5">
+      {RATING_VALUES.map(rating => (
+        <Button
+          key={rating}
+          type="button"
+          variant={value === rating ? 'default' : 'outline'}
+          size="sm"
+          title={title(rating)}
+          className="h-9"
+          onClick={() => onChange(value === rating ? null : rating)}
+        >
+          {label(rating)}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={sessionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <NotebookPen className="h-5 w-5" />
+            How did it go?
+          </DialogTitle>
+          <DialogDescription>
+            A quick reflection on the session. Only the focus rating is needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>
+              Focus
+              {focus && <span className="ml-2 text-xs text-muted-foreground font-normal">{FOCUS_LABELS[focus - 1]}</span>}
+            </Label>
+            {renderScale(focus, setFocus, rating => String(rating), rating => FOCUS_LABELS[rating - 1])}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Mood</Label>
+            {renderScale(mood, setMood, rating => MOOD_EMOJI[rating - 1], rating => `Mood ${rating} of 5`)}
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Energy
+              {energy && <span className="ml-2 text-xs text-muted-foreground font-normal">{ENERGY_LABELS[energy - 1]}</span>}
+            </Label>
+            {renderScale(energy, setEnergy, rating => String(rating), rating => ENERGY_LABELS[rating - 1])}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reflection-accomplished">What I accomplished</Label>
+            <Textarea
+              id="reflection-accomplished"
+              value={accomplished}
+              onChange={(e) => setAccomplished(e.target.value)}
+              placeholder="Finished chapter 3 exercises..."
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reflection-next">Next step</Label>
+            <Input
+              id="reflection-next"
+              value={nextStep}
+              onChange={(e) => setNextStep(e.target.value)}
+              placeholder="Review the proofs I got stuck on..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch checked={askEveryTime} onCheckedChange={handleAskChange} className="scale-75" />
+            Ask after every session
+          </label>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Skip</Button>
+            <Button onClick={handleSave} disabled={!focus || isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { Scissors, Merge, Save, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { showUndoToast } from '@/lib/undo';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TopicSelector } from '@/components/TopicSelector';
+import {
+  getSegmentsBySession,
+  updateSegment,
+  splitSegment,
+  mergeSegments,
+  Segment,
+} from '@/lib/db';
+import { isStudySegment } from '@/lib/segmentKinds';
+
+interface SessionEditorProps {
+  sessionId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+interface SegmentDraft {
+  start: string;
+  end: string;
+  topicId: string | null;
+}
+
+// Format a timestamp for a datetime-local input (local time, second precision)
+const toInputValue = (ts: number): string => {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const fromInputValue = (value: string): number => new Date(value).getTime();
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
+
+const toDraft = (seg: Segment): SegmentDraft => ({
+  start: toInputValue(seg.startTs),
+  end: seg.endTs ? toInputValue(seg.endTs) : '',
+  topicId: seg.topicId,
+});
+
+export const SessionEditor = ({ sessionId, onOpenChange, onSaved }: SessionEditorProps) => {
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, SegmentDraft>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [splitting, setSplitting] = useState<{ id: string; at: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadSegments = async (id: string) => {
+    // Breaks and pauses are the gaps between study segments, not edited here
+    const segs = (await getSegmentsBySession(id)).filter(isStudySegment);
+    segs.sort((a, b) => a.startTs - b.startTs);
+    setSegments(segs);
+    setDrafts(Object.fromEntries(segs.map(seg => [seg.id, toDraft(seg)])));
+    setSelected(new Set());
+    setSplitting(null);
+  };
+
+  useEffect(() => {
+    if (!sessionId) return;
+    loadSegments(sessionId);
+  }, [sessionId]);
+
+  const runEdit = async (action: () => Promise<string>, successMessage: string) => {
+    if (!sessionId) return;
+    setIsBusy(true);
+    try {
+      const trashId = await action();
+      showUndoToast(successMessage, trashId, () => {
+        loadSegments(sessionId);
+        onSaved?.();
+      });
+      await loadSegments(sessionId);
+      onSaved?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update segment');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateDraft = (id: string, changes: Partial<SegmentDraft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const handleSave = (seg: Segment) => {
+    const draft = drafts[seg.id];
+    const startTs = fromInputValue(draft.start);
+    const endTs = fromInputValue(draft.end);
+    if (isNaN(startTs) || isNaN(endTs)) {
+      toast.error('Fill in a start and end time');
+      return;
+    }
+    runEdit(
+      () => updateSegment(seg.id, { startTs, endTs, topicId: draft.topicId }),
+      'Segment updated'
+    );
+  };
+
+  const handleSplit = () => {
+    if (!splitting) return;
+    const atTs = fromInputValue(splitting.at);
+    if (isNaN(atTs)) {
+      toast.error('Fill in a time to split at');
+      return;
+    }
+    runEdit(() => splitSegment(splitting.id, atTs), 'Segment split');
+  };
+
+  const handleMerge = () => {
+    runEdit(() => mergeSegments(Array.from(selected)), 'Segments merged');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={sessionId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>Edit Session</DialogTitle>
+          <DialogDescription>
+            Adjust times, split, merge or reassign the segments in this session
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMerge}
+            disabled={isBusy || selected.size < 2}
+            className="gap-2"
+          >
+            <Merge className="h-4 w-4" />
+            Merge selected ({selected.size})
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[480px] pr-4">
+          <div className="space-y-3">
+            {segments.map((seg) => {
+              const draft = drafts[seg.id];
+              if (!draft) return null;
+              const isOpen = seg.endTs === null;
+
+              return (
+                <div key={seg.id} className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      checked={selected.has(seg.id)}
+                      onCheckedChange={() => toggleSelected(seg.id)}
+                      disabled={isOpen}
+                    />
+                    <span className="text-sm font-mono text-primary">
+                      {isOpen ? 'Running' : formatDuration(seg.endTs! - seg.startTs)}
+                    </span>
+                    <div className="ml-auto flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        disabled={isBusy || isOpen}
+                        onClick={() => setSplitting({
+                          id: seg.id,
+                          at: toInputValue(seg.startTs + Math.floor((seg.endTs! - seg.startTs) / 2)),
+                        })}
+                      >
+                        <Scissors className="h-3.5 w-3.5 mr-1" />
+                        Split
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        disabled={isBusy || isOpen}
+                        onClick={() => handleSave(seg)}
+                      >
+                        <Save className="h-3.5 w-3.5 mr-1" />
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="datetime-local"
+                      step={1}
+                      value={draft.start}
+                      disabled={isOpen}
+                      onChange={(e) => updateDraft(seg.id, { start: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      type="datetime-local"
+                      step={1}
+                      value={draft.end}
+                      disabled={isOpen}
+                      onChange={(e) => updateDraft(seg.id, { end: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+
+                  <TopicSelector
+                    compact
+                    selectedId={draft.topicId}
+                    disabled={isOpen}
+                    onSelect={(topicId) => updateDraft(seg.id, { topicId })}
+                  />
+
+                  {splitting?.id === seg.id && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">Split at</span>
+                      <Input
+                        type="datetime-local"
+                        step={1}
+                        value={splitting.at}
+                        onChange={(e) => setSplitting({ id: seg.id, at: e.target.value })}
+                        className="h-8 text-xs flex-1"
+                      />
+                      <Button size="icon" variant="ghost" className="h-7 w-7" disabled={isBusy} onClick={handleSplit}>
+                        <Check className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setSplitting(null)}>
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
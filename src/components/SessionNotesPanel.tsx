@@ -8,63 +8,73 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
-  StudyTask,
-  SessionNote,
-  loadTasks,
-  addTask,
-  toggleTask,
-  deleteTask,
-  clearCompletedTasks,
-  loadNotes,
-  addNote,
+  Note,
+  NoteContext,
+  createNote,
+  getNotesByKind,
+  setNoteCompleted,
   deleteNote,
-} from '@/lib/notes';
+  deleteNotes,
+} from '@/lib/db';
 import { cn } from '@/lib/utils';
 
-export function SessionNotesPanel() {
-  const [tasks, setTasks] = useState<StudyTask[]>([]);
-  const [notes, setNotes] = useState<SessionNote[]>([]);
+interface SessionNotesPanelProps {
+  context: NoteContext;
+  onChange?: () => void;
+}
+
+export function SessionNotesPanel({ context, onChange }: SessionNotesPanelProps) {
+  const [tasks, setTasks] = useState<Note[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
   const [newTaskText, setNewTaskText] = useState('');
   const [newNoteText, setNewNoteText] = useState('');
 
+  const loadTasks = async () => setTasks(await getNotesByKind('task'));
+  const loadNotes = async () => setNotes(await getNotesByKind('note'));
+
   // Load data on mount
   useEffect(() => {
-    setTasks(loadTasks());
-    setNotes(loadNotes());
+    loadTasks();
+    loadNotes();
   }, []);
 
-  const handleAddTask = () => {
+  const handleAddTask = async () => {
     if (!newTaskText.trim()) return;
-    const task = addTask(newTaskText.trim());
+    const task = await createNote('task', newTaskText.trim(), context);
     setTasks([task, ...tasks]);
     setNewTaskText('');
+    onChange?.();
   };
 
-  const handleToggleTask = (id: string) => {
-    toggleTask(id);
-    setTasks(loadTasks());
+  const handleToggleTask = async (task: Note) => {
+    await setNoteCompleted(task.id, !task.completed);
+    await loadTasks();
   };
 
-  const handleDeleteTask = (id: string) => {
-    deleteTask(id);
-    setTasks(loadTasks());
+  const handleDeleteTask = async (id: string) => {
+    await deleteNote(id);
+    await loadTasks();
+    onChange?.();
   };
 
-  const handleClearCompleted = () => {
-    clearCompletedTasks();
-    setTasks(loadTasks());
+  const handleClearCompleted = async () => {
+    await deleteNotes(tasks.filter(t => t.completed).map(t => t.id));
+    await loadTasks();
+    onChange?.();
   };
 
-  const handleAddNote = () => {
+  const handleAddNote = async () => {
     if (!newNoteText.trim()) return;
-    const note = addNote(newNoteText.trim());
+    const note = await createNote('note', newNoteText.trim(), context);
     setNotes([note, ...notes]);
     setNewNoteText('');
+    onChange?.();
   };
 
-  const handleDeleteNote = (id: string) => {
-    deleteNote(id);
-    setNotes(loadNotes());
+  const handleDeleteNote = async (id: string) => {
+    await deleteNote(id);
+    await loadNotes();
+    onChange?.();
   };
 
   const completedCount = tasks.filter(t => t.completed).length;
@@ -138,7 +148,7 @@ export function SessionNotesPanel() {
                   >
                     <Checkbox
                       checked={task.completed}
-                      onCheckedChange={() => handleToggleTask(task.id)}
+                      onCheckedChange={() => handleToggleTask(task)}
                       className="data-[state=checked]:bg-primary data-[state=checked]:border-primary"
                     />
                     <span className={cn(
@@ -235,7 +245,7 @@ export function SessionNotesPanel() {
                       </Button>
                     </div>
                     <p className="text-xs text-muted-foreground mt-2">
-                      {formatNoteDate(note.createdAt)}
+                      {formatNoteDate(note.atTs)}
                     </p>
                   </motion.div>
                 ))}
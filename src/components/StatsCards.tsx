@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { TrendingUp, Clock, Target, Flame } from 'lucide-react';
+import { TrendingUp, Clock, Target, Flame, Brain, Zap } from 'lucide-react';
 import { MiniProgressRing } from './CircularProgress';
 import { cn } from '@/lib/utils';
 
@@ -135,3 +135,36 @@ export function QuickStats({ todayTime, weeklyGoalProgress, streak, sessionsToda
     </div>
   );
 }
+
+// Net vs gross focus for a stretch of time
+interface FocusQualityStatsProps {
+  grossTime: number;
+  distractedTime: number;
+  distractions: number;
+  label?: string;
+}
+
+export function FocusQualityStats({ grossTime, distractedTime, distractions, label = 'today' }: FocusQualityStatsProps) {
+  const netTime = Math.max(0, grossTime - distractedTime);
+  const netShare = grossTime > 0 ? (netTime / grossTime) * 100 : 100;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <StatsCard
+        title="Net Focus"
+        value={formatDuration(netTime)}
+        icon={<Brain className="h-5 w-5" />}
+        variant="primary"
+        progress={netShare}
+        subtitle={`of ${formatDuration(grossTime)} ${label}`}
+      />
+      <StatsCard
+        title="Distractions"
+        value={`${distractions}`}
+        icon={<Zap className="h-5 w-5" />}
+        variant={distractions > 0 ? 'warning' : 'default'}
+        subtitle={`${formatDuration(distractedTime)} lost ${label}`}
+      />
+    </div>
+  );
+}
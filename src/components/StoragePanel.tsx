@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { HardDrive, ShieldCheck, ShieldAlert, AlertTriangle, DatabaseBackup } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  StorageBreakdownItem,
+  StorageEstimate,
+  getStorageBreakdown,
+  getStorageEstimate,
+  isNearQuota,
+  isStorageManagerSupported,
+  requestPersistentStorage,
+  requestPersistentStorageOnce,
+} from '@/lib/storageQuota';
+
+interface StorageButtonProps {
+  refreshTrigger?: number;
+  onExportBackup: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const StorageButton = ({ refreshTrigger, onExportBackup }: StorageButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [breakdown, setBreakdown] = useState<StorageBreakdownItem[]>([]);
+  const hasWarnedRef = useRef(false);
+
+  useEffect(() => {
+    requestPersistentStorageOnce()
+      .then(setPersisted)
+      .catch((error) => console.error('Persistent storage request failed:', error));
+  }, []);
+
+  // Check the quota as data grows; warn once per page load
+  useEffect(() => {
+    getStorageEstimate()
+      .then((next) => {
+        setEstimate(next);
+        if (!next || !isNearQuota(next) || hasWarnedRef.current) return;
+        hasWarnedRef.current = true;
+        toast.warning('Storage is almost full', {
+          description: `${formatBytes(next.usage)} of ${formatBytes(next.quota)} used. Export a backup before the browser runs out of space.`,
+          action: { label: 'Back up', onClick: onExportBackup },
+          duration: 10000,
+        });
+      })
+      .catch((error) => console.error('Storage estimate failed:', error));
+  }, [refreshTrigger, onExportBackup]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getStorageBreakdown()
+      .then(setBreakdown)
+      .catch((error) => console.error('Storage breakdown failed:', error));
+  }, [isOpen, refreshTrigger]);
+
+  const handleRequestPersistence = async () => {
+    const granted = await requestPersistentStorage();
+    setPersisted(granted);
+    if (granted) {
+      toast.success('Storage is now persistent');
+    } else {
+      toast.error('The browser declined', {
+        description: 'Browsers usually grant this to installed or frequently used sites.',
+      });
+    }
+  };
+
+  const handleExport = () => {
+    setIsOpen(false);
+    onExportBackup();
+  };
+
+  const usedPercent = estimate ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+  const isNear = estimate !== null && isNearQuota(estimate);
+  const largest = breakdown[0]?.bytes || 1;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <HardDrive className={isNear ? 'h-4 w-4 text-amber-500' : 'h-4 w-4'} />
+          <span className="hidden sm:inline">Storage</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            Storage
+          </DialogTitle>
+          <DialogDescription>
+            Your history is stored in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="p-3 rounded-lg border border-border/50 bg-muted/30 flex items-center gap-3">
+          {persisted ? (
+            <ShieldCheck className="h-5 w-5 text-primary shrink-0" />
+          ) : (
+            <ShieldAlert className="h-5 w-5 text-amber-500 shrink-0" />
+          )}
+          <div className="flex-1">
+            <p className="text-sm font-medium text-foreground">
+              {persisted ? 'Persistent' : persisted === false ? 'Best-effort' : 'Unknown'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {persisted
+                ? 'The browser will not clear this data to free up space.'
+                : 'The browser may clear this data when the device runs low on space.'}
+            </p>
+          </div>
+          {persisted === false && isStorageManagerSupported() && (
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleRequestPersistence}>
+              Make persistent
+            </Button>
+          )}
+        </div>
+
+        {estimate ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Used</span>
+              <span className="font-mono text-foreground">
+                {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}
+              </span>
+            </div>
+            <Progress value={usedPercent} className={isNear ? 'h-2 [&>div]:bg-amber-500' : 'h-2'} />
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">This browser does not report storage usage.</p>
+        )}
+
+        {isNear && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+            <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />
+            <p className="text-sm text-foreground">
+              Storage is {Math.round(usedPercent)}% full. New sessions may fail to save; export a backup and
+              empty the trash to make room.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Approximate size by kind of data, this profile only</p>
+          {breakdown.map((item) => (
+            <div key={item.label} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-foreground">{item.label}</span>
+                <span className="font-mono text-muted-foreground">{formatBytes(item.bytes)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                <div className="h-full bg-primary/60" style={{ width: `${(item.bytes / largest) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" className="w-full gap-2" onClick={handleExport}>
+          <DatabaseBackup className="h-4 w-4" />
+          Export a backup
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
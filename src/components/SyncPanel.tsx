@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { isEncryptionEnabled } from '@/lib/encryption';
+import {
+  DEFAULT_SYNC_SERVER_URL,
+  SyncConflict,
+  clearSyncConflicts,
+  countPendingChanges,
+  isSyncConfigured,
+  loadSyncConfig,
+  loadSyncConflicts,
+  setSyncServer,
+  syncNow,
+} from '@/lib/sync';
+
+interface SyncButtonProps {
+  refreshTrigger?: number;
+  onSynced?: () => void;
+}
+
+const STORE_LABELS: Record<SyncConflict['store'], string> = {
+  sessions: 'Session',
+  segments: 'Segment',
+  topics: 'Topic',
+  notes: 'Note',
+  tags: 'Tag',
+  settings: 'Setting',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return 'empty';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const describeConflict = (conflict: SyncConflict): string => {
+  if (conflict.kept === 'both') return 'Both devices recorded this time; both segments were kept';
+  const winner = conflict.kept === 'local' ? conflict.localValue : conflict.remoteValue;
+  const loser = conflict.kept === 'local' ? conflict.remoteValue : conflict.localValue;
+  const source = conflict.kept === 'local' ? 'this device' : 'another device';
+  return `Kept ${formatValue(winner)} from ${source} over ${formatValue(loser)}`;
+};
+
+export const SyncButton = ({ refreshTrigger, onSynced }: SyncButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [config, setConfig] = useState(loadSyncConfig);
+  const [serverUrl, setServerUrl] = useState(config.serverUrl || DEFAULT_SYNC_SERVER_URL);
+  const [space, setSpace] = useState(config.space);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [pendingCount, setPendingCount] = useState<number | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const isEncrypted = isEncryptionEnabled();
+  const isConfigured = isSyncConfigured(config);
+
+  const loadStatus = async () => {
+    setConfig(loadSyncConfig());
+    setConflicts(loadSyncConflicts());
+    try {
+      setPendingCount(await countPendingChanges());
+    } catch (error) {
+      console.error('Failed to count pending changes:', error);
+      setPendingCount(null);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadStatus();
+  }, [isOpen, refreshTrigger]);
+
+  const handleSave = () => {
+    try {
+      setSyncServer(serverUrl, space);
+      setConfig(loadSyncConfig());
+      toast.success('Sync server saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the sync server');
+    }
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncNow();
+      onSynced?.();
+      const conflictText = result.conflicts > 0
+        ? `, ${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} resolved`
+        : '';
+      toast.success(`Synced: sent ${result.pushed}, received ${result.pulled}${conflictText}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Sync failed');
+    } finally {
+      setIsSyncing(false);
+      await loadStatus();
+    }
+  };
+
+  const handleClearConflicts = () => {
+    clearSyncConflicts();
+    setConflicts([]);
+  };
+
+  const isDirty = serverUrl.trim().replace(/\/+$/, '') !== config.serverUrl || space.trim() !== config.space;
+  const StatusIcon = isConfigured && !config.lastError ? Cloud : CloudOff;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <StatusIcon className={`h-4 w-4 ${config.lastError ? 'text-amber-500' : ''}`} />
+          <span className="hidden sm:inline">Sync</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cloud className="h-5 w-5" />
+            Sync
+          </DialogTitle>
+          <DialogDescription>
+            Keep sessions, topics, tags, notes, goals and achievements in step across devices through a sync server.
+            Run the reference server with npm run sync-server.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isEncrypted && (
+          <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-500/40 bg-amber-500/10 text-sm">
+            <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />
+            <p className="text-foreground">
+              Sync is off while encryption is on, since the server would receive your data unencrypted.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="sync-server-url">Server URL</Label>
+            <Input
+              id="sync-server-url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder={DEFAULT_SYNC_SERVER_URL}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="sync-space">Space</Label>
+            <Input
+              id="sync-space"
+              value={space}
+              onChange={(e) => setSpace(e.target.value)}
+              placeholder="Use the same name on every device"
+            />
+          </div>
+          <Button variant="outline" className="w-full" onClick={handleSave} disabled={!isDirty}>
+            Save server
+          </Button>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t border-border/50 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Last synced</span>
+            <span className="text-foreground">
+              {config.lastSyncAt ? new Date(config.lastSyncAt).toLocaleString() : 'Never'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Changes waiting</span>
+            <span className="text-foreground">{pendingCount ?? '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">This device</span>
+            <span className="font-mono text-xs text-foreground">{config.deviceId.slice(0, 8)}</span>
+          </div>
+          {config.lastError && <p className="text-sm text-destructive">{config.lastError}</p>}
+          <Button
+            className="w-full gap-2"
+            onClick={handleSync}
+            disabled={isSyncing || isEncrypted || !isConfigured || isDirty}
+          >
+            {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Sync now
+          </Button>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t border-border/50">
+          <div className="flex items-center justify-between">
+            <Label>Conflicts</Label>
+            <Button variant="ghost" size="sm" onClick={handleClearConflicts} disabled={conflicts.length === 0}>
+              Clear
+            </Button>
+          </div>
+          <ScrollArea className="h-[200px] pr-4">
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No conflicts so far</p>
+            ) : (
+              <div className="space-y-2">
+                {conflicts.map((conflict) => (
+                  <div key={conflict.id} className="p-3 rounded-lg border border-border/50 bg-muted/30">
+                    <p className="text-sm font-medium text-foreground">
+                      {STORE_LABELS[conflict.store]} · {conflict.field}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{describeConflict(conflict)}</p>
+                    <p className="text-xs text-muted-foreground">{new Date(conflict.at).toLocaleString()}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
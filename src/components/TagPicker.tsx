@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { Plus, ChevronDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { getAllTags, createTag, Tag } from '@/lib/db';
+
+interface TagPickerProps {
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  disabled?: boolean;
+  refreshTrigger?: number;
+}
+
+const ALL_TAGS = '__all__';
+
+const sortByName = (tags: Tag[]): Tag[] => [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+export const TagPicker = ({ selectedIds, onChange, disabled, refreshTrigger }: TagPickerProps) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    loadTags();
+  }, [refreshTrigger]);
+
+  const loadTags = async () => {
+    setTags(sortByName(await getAllTags()));
+  };
+
+  const toggleTag = (tagId: string) => {
+    onChange(selectedIds.includes(tagId)
+      ? selectedIds.filter(id => id !== tagId)
+      : [...selectedIds, tagId]);
+  };
+
+  const handleAddTag = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    // Typing an existing name picks that tag instead of making a twin
+    const existing = tags.find(t => t.name.toLowerCase() === name.toLowerCase());
+    try {
+      const tag = existing ?? await createTag(name);
+      if (!existing) setTags(sortByName([...tags, tag]));
+      if (!selectedIds.includes(tag.id)) onChange([...selectedIds, tag.id]);
+      setNewName('');
+      setIsAdding(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not add the tag');
+    }
+  };
+
+  const selectedNames = tags.filter(t => selectedIds.includes(t.id)).map(t => t.name);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs uppercase tracking-widest text-muted-foreground font-medium">
+        Tags
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled}>
+          <Button
+            variant="outline"
+            className="w-full justify-between bg-card border-border hover:bg-accent"
+          >
+            <span className={`truncate ${selectedNames.length > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+              {selectedNames.length > 0 ? selectedNames.join(', ') : 'Add tags...'}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-56 bg-card border-border">
+          {tags.length === 0 && (
+            <DropdownMenuItem disabled className="text-muted-foreground">
+              No tags yet
+            </DropdownMenuItem>
+          )}
+          {tags.map((tag) => (
+            <DropdownMenuCheckboxItem
+              key={tag.id}
+              checked={selectedIds.includes(tag.id)}
+              onCheckedChange={() => toggleTag(tag.id)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {tag.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+          <DropdownMenuSeparator />
+          {isAdding ? (
+            <div className="p-2 flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Tag name..."
+                className="h-8 bg-background"
+                autoFocus
+                onKeyDown={(e) => {
+                  // Keep the menu's type-ahead from swallowing keys
+                  e.stopPropagation();
+                  if (e.key === 'Enter') handleAddTag();
+                  if (e.key === 'Escape') setIsAdding(false);
+                }}
+              />
+              <Button size="sm" onClick={handleAddTag} className="h-8">
+                Add
+              </Button>
+            </div>
+          ) : (
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.preventDefault();
+                setIsAdding(true);
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add new tag
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+interface TagFilterProps {
+  value: string | null;
+  onChange: (tagId: string | null) => void;
+  refreshTrigger?: number;
+}
+
+// Narrow a panel to time carrying one tag. Hidden until a tag exists.
+export const TagFilter = ({ value, onChange, refreshTrigger }: TagFilterProps) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    getAllTags().then(all => setTags(sortByName(all)));
+  }, [refreshTrigger]);
+
+  if (tags.length === 0 && value === null) return null;
+
+  return (
+    <Select value={value ?? ALL_TAGS} onValueChange={(v) => onChange(v === ALL_TAGS ? null : v)}>
+      <SelectTrigger className="h-7 w-36 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+        {tags.map(tag => (
+          <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
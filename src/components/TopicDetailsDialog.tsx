@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Check, Palette } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { updateTopicDetails, Topic } from '@/lib/db';
+import { TOPIC_COLORS } from '@/lib/topicAppearance';
+import { cn } from '@/lib/utils';
+
+interface TopicDetailsDialogProps {
+  topic: Topic | null; // open while set
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export const TopicDetailsDialog = ({ topic, onClose, onSaved }: TopicDetailsDialogProps) => {
+  const [color, setColor] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [description, setDescription] = useState('');
+  const [link, setLink] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!topic) return;
+    setColor(topic.color ?? '');
+    setEmoji(topic.emoji ?? '');
+    setDescription(topic.description ?? '');
+    setLink(topic.link ?? '');
+  }, [topic]);
+
+  const handleSave = async () => {
+    if (!topic) return;
+    setIsSaving(true);
+    try {
+      await updateTopicDetails(topic.id, { color, emoji, description, link });
+      toast.success(`Saved "${topic.name}"`);
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the topic');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={topic !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            {topic?.name}
+          </DialogTitle>
+          <DialogDescription>
+            The color and emoji are used for this topic in every chart, in history and in focus mode
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setColor('')}
+                className={cn(
+                  'h-7 px-2 rounded-md border border-border text-xs text-muted-foreground',
+                  !color && 'ring-2 ring-primary ring-offset-1 ring-offset-background'
+                )}
+              >
+                Auto
+              </button>
+              {TOPIC_COLORS.map(swatch => (
+                <button
+                  key={swatch}
+                  type="button"
+                  title={swatch}
+                  onClick={() => setColor(swatch)}
+                  className={cn(
+                    'h-7 w-7 rounded-full flex items-center justify-center',
+                    color === swatch && 'ring-2 ring-primary ring-offset-1 ring-offset-background'
+                  )}
+                  style={{ backgroundColor: swatch }}
+                >
+                  {color === swatch && <Check className="h-3.5 w-3.5 text-background" />}
+                </button>
+              ))}
+              <Input
+                type="color"
+                title="Custom color"
+                value={color.startsWith('#') ? color : '#888888'}
+                onChange={(e) => setColor(e.target.value)}
+                className="h-7 w-10 p-0.5 cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-emoji">Emoji</Label>
+            <Input
+              id="topic-emoji"
+              value={emoji}
+              onChange={(e) => setEmoji(e.target.value)}
+              placeholder="📘"
+              maxLength={8}
+              className="w-20 text-center"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-description">Description</Label>
+            <Textarea
+              id="topic-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this topic covers..."
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-link">Link</Label>
+            <Input
+              id="topic-link"
+              type="url"
+              value={link}
+              onChange={(e) => setLink(e.target.value)}
+              placeholder="https://..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,391 @@
+import { useEffect, useState } from 'react';
+import { FolderCog, Pencil, Palette, Archive, ArchiveRestore, GitMerge, FolderInput, Trash2, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { TopicDetailsDialog } from '@/components/TopicDetailsDialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getAllTopics,
+  renameTopic,
+  setTopicArchived,
+  moveTopic,
+  mergeTopics,
+  deleteTopic,
+  getAllTags,
+  renameTag,
+  deleteTag,
+  OrphanStrategy,
+  Topic,
+  Tag,
+} from '@/lib/db';
+import { cn } from '@/lib/utils';
+import { showUndoToast } from '@/lib/undo';
+import { buildTopicTree, formatTopicPath, getChildTopics, getSubtreeIds } from '@/lib/topicTree';
+import { getTopicColor } from '@/lib/topicAppearance';
+
+interface TopicManagerProps {
+  refreshTrigger?: number;
+  onChange?: () => void;
+}
+
+type PendingAction =
+  | { type: 'merge'; topic: Topic }
+  | { type: 'move'; topic: Topic }
+  | { type: 'deleteTopic'; topic: Topic };
+
+interface RenameState {
+  id: string;
+  kind: 'topic' | 'tag';
+  name: string;
+}
+
+const NONE = '__none__';
+
+export const TopicManager = ({ refreshTrigger, onChange }: TopicManagerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [renaming, setRenaming] = useState<RenameState | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [editingDetails, setEditingDetails] = useState<Topic | null>(null);
+  const [strategy, setStrategy] = useState<OrphanStrategy>('reassign');
+  const [targetId, setTargetId] = useState<string>(NONE);
+
+  const loadData = async () => {
+    const [allTopics, allTags] = await Promise.all([getAllTopics(), getAllTags()]);
+    allTags.sort((a, b) => a.name.localeCompare(b.name));
+    setTopics(allTopics);
+    setTags(allTags);
+  };
+
+  useEffect(() => {
+    if (isOpen) loadData();
+  }, [isOpen, refreshTrigger]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage?: string) => {
+    try {
+      await action();
+      if (successMessage) toast.success(successMessage);
+      await loadData();
+      onChange?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  // Merges and deletes go to the trash, so offer an Undo instead of a plain toast
+  const runUndoableAction = (action: () => Promise<string>, successMessage: string) => {
+    runAction(async () => {
+      const trashId = await action();
+      showUndoToast(successMessage, trashId, () => {
+        loadData();
+        onChange?.();
+      });
+    });
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const { id, kind, name } = renaming;
+    const rename = kind === 'topic' ? renameTopic : renameTag;
+    runAction(() => rename(id, name));
+    setRenaming(null);
+  };
+
+  const openPending = (action: PendingAction) => {
+    setStrategy('reassign');
+    setTargetId(NONE);
+    setPending(action);
+  };
+
+  const handleConfirmPending = () => {
+    if (!pending) return;
+    const target = targetId === NONE ? null : targetId;
+
+    if (pending.type === 'merge') {
+      if (!target) {
+        toast.error('Choose a topic to merge into');
+        return;
+      }
+      runUndoableAction(() => mergeTopics(pending.topic.id, target), `Merged "${pending.topic.name}"`);
+    } else if (pending.type === 'move') {
+      runAction(() => moveTopic(pending.topic.id, target), `Moved "${pending.topic.name}"`);
+    } else {
+      runUndoableAction(() => deleteTopic(pending.topic.id, strategy, target), `Deleted "${pending.topic.name}"`);
+    }
+    setPending(null);
+  };
+
+  const renderName = (id: string, kind: RenameState['kind'], name: string, archived: boolean, depth = 0) => {
+    if (renaming?.id === id) {
+      return (
+        <div className="flex items-center gap-1 flex-1">
+          <Input
+            value={renaming.name}
+            onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') setRenaming(null);
+            }}
+            className="h-7 text-sm"
+            autoFocus
+          />
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={handleRename}>
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setRenaming(null)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <span className={cn(
+          'truncate',
+          kind === 'topic' && depth === 0 ? 'font-medium text-foreground' : 'text-sm text-muted-foreground',
+          archived && 'opacity-60'
+        )}>
+          {name}
+        </span>
+        {archived && <Badge variant="outline" className="text-[10px]">Archived</Badge>}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => setRenaming({ id, kind, name })}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  };
+
+  const tree = buildTopicTree(topics);
+
+  // A topic can't be merged, moved or reassigned into its own branch
+  const targetTopics = pending
+    ? (() => {
+      const excluded = getSubtreeIds(tree, pending.topic.id);
+      return topics
+        .filter(t => !excluded.has(t.id) && (pending.type !== 'move' || t.id !== tree.parentOf.get(pending.topic.id)))
+        .map(t => ({ id: t.id, label: formatTopicPath(tree, t.id) }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+    })()
+    : [];
+
+  const pendingTitle = pending?.type === 'merge'
+    ? `Merge "${pending.topic.name}"`
+    : pending?.type === 'move'
+      ? `Move "${pending.topic.name}"`
+      : pending ? `Delete "${pending.topic.name}"?` : '';
+
+  const pendingDescription = pending?.type === 'merge'
+    ? 'All recorded time and sub-topics will move to the chosen topic. This topic will be removed.'
+    : pending?.type === 'move'
+      ? 'The topic and everything inside it will sit under the chosen topic. Recorded time moves with it.'
+      : 'Its sub-topics are deleted with it. Choose what happens to the study time recorded under them.';
+
+  const renderTopic = (topic: Topic, depth: number) => (
+    <div key={topic.id} className={cn('space-y-1', depth === 0 && 'p-3 rounded-lg border border-border/50 bg-muted/30')}>
+      <div className="flex items-center gap-1">
+        <span
+          className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+          style={{ backgroundColor: getTopicColor(tree, topic.id) }}
+        />
+        {topic.emoji && <span className="text-sm">{topic.emoji}</span>}
+        {renderName(topic.id, 'topic', topic.name, topic.archived, depth)}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Color, emoji and details"
+          onClick={() => setEditingDetails(topic)}
+        >
+          <Palette className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title={topic.archived ? 'Unarchive' : 'Archive'}
+          onClick={() => runAction(() => setTopicArchived(topic.id, !topic.archived))}
+        >
+          {topic.archived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Move under another topic"
+          onClick={() => openPending({ type: 'move', topic })}
+        >
+          <FolderInput className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Merge into another topic"
+          disabled={topics.length < 2}
+          onClick={() => openPending({ type: 'merge', topic })}
+        >
+          <GitMerge className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 text-destructive hover:text-destructive"
+          title="Delete"
+          onClick={() => openPending({ type: 'deleteTopic', topic })}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {getChildTopics(tree, topic.id).length > 0 && (
+        <div className="ml-4 space-y-1 border-l border-border/50 pl-2">
+          {getChildTopics(tree, topic.id).map(child => renderTopic(child, depth + 1))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <FolderCog className="h-4 w-4" />
+            <span className="hidden sm:inline">Topics</span>
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg max-h-[80vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FolderCog className="h-5 w-5" />
+              Manage Topics
+            </DialogTitle>
+            <DialogDescription>
+              Archived topics are hidden from the selectors but stay in your analytics. Deleting a tag keeps the time it was on.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="h-[420px] pr-4">
+            {topics.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No topics yet</p>
+            ) : (
+              <div className="space-y-3">
+                {getChildTopics(tree, null).map(topic => renderTopic(topic, 0))}
+              </div>
+            )}
+
+            {tags.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <Label>Tags</Label>
+                <div className="p-3 rounded-lg border border-border/50 bg-muted/30 space-y-1">
+                  {tags.map((tag) => (
+                    <div key={tag.id} className="flex items-center gap-1">
+                      {renderName(tag.id, 'tag', tag.name, false)}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6 text-destructive hover:text-destructive"
+                        title="Delete"
+                        onClick={() => runUndoableAction(() => deleteTag(tag.id), `Deleted tag "${tag.name}"`)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <TopicDetailsDialog
+        topic={editingDetails}
+        onClose={() => setEditingDetails(null)}
+        onSaved={() => {
+          loadData();
+          onChange?.();
+        }}
+      />
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDescription}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {pending?.type === 'deleteTopic' && (
+            <RadioGroup value={strategy} onValueChange={(v) => setStrategy(v as OrphanStrategy)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="reassign" id="strategy-reassign" />
+                <Label htmlFor="strategy-reassign">Keep the time and reassign it</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="cascade" id="strategy-cascade" />
+                <Label htmlFor="strategy-cascade">Delete the recorded time as well</Label>
+              </div>
+            </RadioGroup>
+          )}
+
+          {pending && (pending.type !== 'deleteTopic' || strategy === 'reassign') && (
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>
+                  {pending.type === 'merge' ? 'Select a topic...' : pending.type === 'move' ? 'Top level' : 'No topic'}
+                </SelectItem>
+                {targetTopics.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmPending}
+              className={pending?.type !== 'deleteTopic' ? '' : 'bg-destructive text-destructive-foreground hover:bg-destructive/90'}
+            >
+              {pending?.type === 'merge' ? 'Merge' : pending?.type === 'move' ? 'Move' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -1,81 +1,152 @@
 import { useState, useEffect } from 'react';
-import { Plus, ChevronDown } from 'lucide-react';
+import { Plus, ChevronDown, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { getAllTopics, createTopic, Topic } from '@/lib/db';
+import { buildTopicTree, formatTopicPath, getChildTopics, getTopicPath } from '@/lib/topicTree';
 
 interface TopicSelectorProps {
   selectedId: string | null;
   onSelect: (topicId: string | null) => void;
   disabled?: boolean;
+  refreshTrigger?: number;
+  compact?: boolean; // small trigger without a label, for rows in dialogs
 }
 
-export const TopicSelector = ({ selectedId, onSelect, disabled }: TopicSelectorProps) => {
+// Browse the topic tree one level at a time. The breadcrumb at the top walks
+// back up; any topic can be picked, at any depth.
+export const TopicSelector = ({ selectedId, onSelect, disabled, refreshTrigger, compact }: TopicSelectorProps) => {
   const [topics, setTopics] = useState<Topic[]>([]);
+  const [browseId, setBrowseId] = useState<string | null>(null);
   const [isAdding, setIsAdding] = useState(false);
   const [newName, setNewName] = useState('');
 
   useEffect(() => {
     loadTopics();
-  }, []);
+  }, [refreshTrigger]);
 
   const loadTopics = async () => {
     const allTopics = await getAllTopics();
     setTopics(allTopics);
   };
 
+  const tree = buildTopicTree(topics);
+  const selectedPath = getTopicPath(tree, selectedId);
+  const browsePath = getTopicPath(tree, browseId);
+
+  // Open on the level holding the current topic
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setBrowseId(selectedPath.length > 1 ? selectedPath[selectedPath.length - 2].id : null);
+    setIsAdding(false);
+  };
+
   const handleAddTopic = async () => {
-    if (newName.trim()) {
-      const topic = await createTopic(newName.trim());
+    if (!newName.trim()) return;
+    try {
+      const topic = await createTopic(newName.trim(), browseId);
       setTopics([...topics, topic]);
       onSelect(topic.id);
       setNewName('');
       setIsAdding(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not add the topic');
     }
   };
 
-  const selectedTopic = topics.find(t => t.id === selectedId);
+  // Archived topics stay hidden unless the current topic is in them
+  const visibleChildren = getChildTopics(tree, browseId)
+    .filter(t => !t.archived || selectedPath.some(topic => topic.id === t.id));
+  const browsedTopic = browsePath[browsePath.length - 1];
 
   return (
-    <div className="flex flex-col gap-2">
-      <span className="text-xs uppercase tracking-widest text-muted-foreground font-medium">
-        Topic
-      </span>
-      <DropdownMenu>
+    <div className="flex flex-col gap-2 min-w-0">
+      {!compact && (
+        <span className="text-xs uppercase tracking-widest text-muted-foreground font-medium">
+          Topic
+        </span>
+      )}
+      <DropdownMenu onOpenChange={handleOpenChange}>
         <DropdownMenuTrigger asChild disabled={disabled}>
-          <Button 
-            variant="outline" 
-            className="w-full justify-between bg-card border-border hover:bg-accent"
+          <Button
+            variant="outline"
+            className={`w-full justify-between bg-card border-border hover:bg-accent ${compact ? 'h-8 text-xs' : ''}`}
           >
-            <span className={selectedTopic ? 'text-foreground' : 'text-muted-foreground'}>
-              {selectedTopic?.name || 'Select topic...'}
+            <span className={`truncate ${selectedPath.length > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+              {selectedId ? formatTopicPath(tree, selectedId) : 'Select topic...'}
             </span>
-            <ChevronDown className="h-4 w-4 opacity-50" />
+            <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
           </Button>
         </DropdownMenuTrigger>
-        <DropdownMenuContent className="w-56 bg-card border-border">
-          <DropdownMenuItem 
-            onClick={() => onSelect(null)}
-            className="text-muted-foreground"
-          >
-            No topic
-          </DropdownMenuItem>
+        <DropdownMenuContent className="w-64 bg-card border-border">
+          <DropdownMenuLabel className="flex flex-wrap items-center gap-1 text-xs font-normal">
+            <button
+              type="button"
+              className={browseId ? 'text-muted-foreground hover:text-foreground' : 'text-foreground'}
+              onClick={() => setBrowseId(null)}
+            >
+              All topics
+            </button>
+            {browsePath.map(topic => (
+              <span key={topic.id} className="flex items-center gap-1">
+                <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                <button
+                  type="button"
+                  className={topic.id === browseId ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}
+                  onClick={() => setBrowseId(topic.id)}
+                >
+                  {topic.name}
+                </button>
+              </span>
+            ))}
+          </DropdownMenuLabel>
           <DropdownMenuSeparator />
-          {topics.map((topic) => (
+          {browsedTopic ? (
+            <DropdownMenuItem
+              onClick={() => onSelect(browsedTopic.id)}
+              className={selectedId === browsedTopic.id ? 'bg-accent' : ''}
+            >
+              Choose "{browsedTopic.name}"
+            </DropdownMenuItem>
+          ) : (
             <DropdownMenuItem
-              key={topic.id}
-              onClick={() => onSelect(topic.id)}
-              className={selectedId === topic.id ? 'bg-accent' : ''}
+              onClick={() => onSelect(null)}
+              className="text-muted-foreground"
             >
-              {topic.name}
+              No topic
             </DropdownMenuItem>
+          )}
+          {visibleChildren.length > 0 && <DropdownMenuSeparator />}
+          {visibleChildren.map((topic) => (
+            <div key={topic.id} className="flex items-center">
+              <DropdownMenuItem
+                onClick={() => onSelect(topic.id)}
+                className={`flex-1 ${selectedId === topic.id ? 'bg-accent' : ''}`}
+              >
+                {topic.emoji && `${topic.emoji} `}{topic.name}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                title={`Open "${topic.name}"`}
+                className="px-2 text-muted-foreground"
+                onSelect={(e) => {
+                  e.preventDefault();
+                  setBrowseId(topic.id);
+                  setIsAdding(false);
+                }}
+              >
+                <span className="text-xs mr-1">{getChildTopics(tree, topic.id).length || ''}</span>
+                <ChevronRight className="h-4 w-4" />
+              </DropdownMenuItem>
+            </div>
           ))}
           <DropdownMenuSeparator />
           {isAdding ? (
@@ -83,10 +154,12 @@ export const TopicSelector = ({ selectedId, onSelect, disabled }: TopicSelectorP
               <Input
                 value={newName}
                 onChange={(e) => setNewName(e.target.value)}
-                placeholder="Topic name..."
+                placeholder={browsedTopic ? `Inside "${browsedTopic.name}"...` : 'Topic name...'}
                 className="h-8 bg-background"
                 autoFocus
                 onKeyDown={(e) => {
+                  // Keep the menu's type-ahead from swallowing keys
+                  e.stopPropagation();
                   if (e.key === 'Enter') handleAddTopic();
                   if (e.key === 'Escape') setIsAdding(false);
                 }}
@@ -96,9 +169,14 @@ export const TopicSelector = ({ selectedId, onSelect, disabled }: TopicSelectorP
               </Button>
             </div>
           ) : (
-            <DropdownMenuItem onClick={() => setIsAdding(true)}>
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.preventDefault();
+                setIsAdding(true);
+              }}
+            >
               <Plus className="mr-2 h-4 w-4" />
-              Add new topic
+              {browsedTopic ? `Add sub-topic to "${browsedTopic.name}"` : 'Add new topic'}
             </DropdownMenuItem>
           )}
         </DropdownMenuContent>
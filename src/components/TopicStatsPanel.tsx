@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
-import { getAllSegments, getAllTopics, Segment, Topic } from '@/lib/db';
-import { BookOpen } from 'lucide-react';
+import { getTotalTimeByTopic, getUnclosedSession, getOpenSegment, getAllTopics, Topic } from '@/lib/db';
+import { BookOpen, ChevronRight } from 'lucide-react';
+import { buildTopicTree, getTopicLevelTimes, getTopicPath } from '@/lib/topicTree';
+import { getTopicColor, getTopicEmoji } from '@/lib/topicAppearance';
 
 interface TopicStatsProps {
   refreshTrigger?: number;
@@ -22,43 +24,49 @@ const formatDuration = (ms: number): string => {
 };
 
 export const TopicStatsPanel = ({ refreshTrigger }: TopicStatsProps) => {
-  const [topicStats, setTopicStats] = useState<{ name: string; time: number }[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [timeByTopic, setTimeByTopic] = useState<Map<string | null, number>>(new Map());
   const [totalTime, setTotalTime] = useState(0);
+  const [browseId, setBrowseId] = useState<string | null>(null);
 
   useEffect(() => {
     const loadStats = async () => {
-      const [segments, topics] = await Promise.all([
-        getAllSegments(),
-        getAllTopics()
+      const [closedTimes, allTopics, unclosedSession] = await Promise.all([
+        getTotalTimeByTopic(),
+        getAllTopics(),
+        getUnclosedSession(),
       ]);
 
-      const topicMap = new Map<string, Topic>();
-      topics.forEach(t => topicMap.set(t.id, t));
-
-      const timeByTopic = new Map<string, number>();
+      const times = new Map<string | null, number>();
       let total = 0;
 
-      segments.forEach((seg: Segment) => {
-        const duration = (seg.endTs ?? Date.now()) - seg.startTs;
+      const addTime = (topicId: string | null, duration: number) => {
         total += duration;
-        const topicId = seg.topicId || 'no-topic';
-        timeByTopic.set(topicId, (timeByTopic.get(topicId) || 0) + duration);
-      });
+        times.set(topicId, (times.get(topicId) || 0) + duration);
+      };
+
+      closedTimes.forEach((time, topicId) => addTime(topicId, time));
 
-      const stats = Array.from(timeByTopic.entries())
-        .map(([id, time]) => ({
-          name: id === 'no-topic' ? 'No Topic' : (topicMap.get(id)?.name || 'Unknown'),
-          time
-        }))
-        .sort((a, b) => b.time - a.time);
+      // Include the segment that is currently running
+      const openSegment = unclosedSession ? await getOpenSegment(unclosedSession.id) : null;
+      if (openSegment) {
+        addTime(openSegment.topicId, Date.now() - openSegment.startTs);
+      }
 
-      setTopicStats(stats);
+      setTopics(allTopics);
+      setTimeByTopic(times);
       setTotalTime(total);
     };
 
     loadStats();
   }, [refreshTrigger]);
 
+  // Time rolls up the tree; a topic with sub-topics opens to show them
+  const tree = buildTopicTree(topics);
+  const browsePath = getTopicPath(tree, browseId);
+  const topicStats = getTopicLevelTimes(tree, timeByTopic, browsePath.length > 0 ? browseId : null);
+  const levelTime = topicStats.reduce((sum, stat) => sum + stat.time, 0);
+
   return (
     <div className="glass-card rounded-2xl p-4 flex-shrink-0">
       <div className="flex items-center justify-between mb-3">
@@ -71,6 +79,30 @@ export const TopicStatsPanel = ({ refreshTrigger }: TopicStatsProps) => {
         </span>
       </div>
 
+      {browsePath.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => setBrowseId(null)}
+          >
+            All topics
+          </button>
+          {browsePath.map(topic => (
+            <span key={topic.id} className="flex items-center gap-1">
+              <ChevronRight className="h-3 w-3 text-muted-foreground" />
+              <button
+                type="button"
+                className={topic.id === browseId ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}
+                onClick={() => setBrowseId(topic.id)}
+              >
+                {topic.name}
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       {topicStats.length === 0 ? (
         <p className="text-xs text-muted-foreground text-center py-4">
           No study time recorded yet
@@ -78,19 +110,31 @@ export const TopicStatsPanel = ({ refreshTrigger }: TopicStatsProps) => {
       ) : (
         <div className="space-y-2">
           {topicStats.map((stat) => {
-            const percentage = totalTime > 0 ? (stat.time / totalTime) * 100 : 0;
+            const percentage = levelTime > 0 ? (stat.time / levelTime) * 100 : 0;
+            const emoji = getTopicEmoji(tree, stat.topicId);
             return (
-              <div key={stat.name} className="space-y-1">
+              <div key={`${stat.topicId}-${stat.name}`} className="space-y-1">
                 <div className="flex items-center justify-between text-xs">
-                  <span className="text-foreground truncate">{stat.name}</span>
+                  {stat.hasChildren ? (
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 text-foreground truncate hover:text-primary"
+                      onClick={() => setBrowseId(stat.topicId)}
+                    >
+                      {emoji && `${emoji} `}{stat.name}
+                      <ChevronRight className="h-3 w-3 flex-shrink-0" />
+                    </button>
+                  ) : (
+                    <span className="text-foreground truncate">{emoji && `${emoji} `}{stat.name}</span>
+                  )}
                   <span className="text-muted-foreground ml-2 flex-shrink-0">
                     {formatDuration(stat.time)}
                   </span>
                 </div>
                 <div className="h-1.5 bg-muted rounded-full overflow-hidden">
                   <div 
-                    className="h-full bg-primary rounded-full transition-all duration-300"
-                    style={{ width: `${percentage}%` }}
+                    className="h-full rounded-full transition-all duration-300"
+                    style={{ width: `${percentage}%`, backgroundColor: getTopicColor(tree, stat.topicId) }}
                   />
                 </div>
               </div>
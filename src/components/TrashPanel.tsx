@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, X, History, FolderCog, Scissors, Wrench, Tag } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getTrashEntries,
+  purgeTrashEntry,
+  purgeExpiredTrash,
+  emptyTrash,
+  TrashEntry,
+  TrashKind,
+} from '@/lib/db';
+import {
+  loadTrashRetentionDays,
+  saveTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+} from '@/lib/trashSettings';
+import { restoreFromTrash } from '@/lib/undo';
+
+interface TrashButtonProps {
+  refreshTrigger?: number;
+  onRestored?: () => void;
+}
+
+const KIND_ICONS: Record<TrashKind, typeof Trash2> = {
+  sessionDelete: History,
+  topicMerge: FolderCog,
+  topicDelete: FolderCog,
+  tagDelete: Tag,
+  segmentEdit: Scissors,
+  repair: Wrench,
+};
+
+const summarize = (entry: TrashEntry): string => {
+  const { sessions, segments } = entry.before;
+  const parts: string[] = [];
+  if (sessions.length > 0) parts.push(`${sessions.length} session${sessions.length === 1 ? '' : 's'}`);
+  if (segments.length > 0) parts.push(`${segments.length} segment${segments.length === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
+
+export const TrashButton = ({ refreshTrigger, onRestored }: TrashButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(loadTrashRetentionDays());
+
+  // Drop expired entries once on startup
+  useEffect(() => {
+    purgeExpiredTrash(loadTrashRetentionDays()).catch((error) => {
+      console.error('Failed to purge expired trash:', error);
+    });
+  }, []);
+
+  const loadEntries = async () => {
+    setEntries(await getTrashEntries());
+  };
+
+  useEffect(() => {
+    if (isOpen) loadEntries();
+  }, [isOpen, refreshTrigger]);
+
+  const handleRestore = async (id: string) => {
+    await restoreFromTrash(id, onRestored);
+    await loadEntries();
+  };
+
+  const handlePurge = async (id: string) => {
+    await purgeTrashEntry(id);
+    await loadEntries();
+  };
+
+  const handleEmpty = async () => {
+    await emptyTrash();
+    toast.success('Trash emptied');
+    await loadEntries();
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const days = parseInt(value, 10);
+    setRetentionDays(days);
+    saveTrashRetentionDays(days);
+    await purgeExpiredTrash(days);
+    await loadEntries();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Trash2 className="h-4 w-4" />
+          <span className="hidden sm:inline">Trash</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Trash
+          </DialogTitle>
+          <DialogDescription>
+            Deleted sessions, topic changes and segment edits can be restored until they expire
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">Keep for</Label>
+            <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleEmpty}
+            disabled={entries.length === 0}
+            className="text-destructive hover:text-destructive"
+          >
+            Empty trash
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[380px] pr-4">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Trash is empty</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => {
+                const Icon = KIND_ICONS[entry.kind];
+                const summary = summarize(entry);
+                return (
+                  <div key={entry.id} className="flex items-center gap-3 p-3 rounded-lg border border-border/50 bg-muted/30">
+                    <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{entry.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(entry.deletedAt).toLocaleString()}
+                        {summary && ` · ${summary}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Restore"
+                      onClick={() => handleRestore(entry.id)}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      title="Delete permanently"
+                      onClick={() => handlePurge(entry.id)}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,10 +1,13 @@
 import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { BarChart3, TrendingUp, TrendingDown, Clock, Calendar, Minus } from 'lucide-react';
+import { BarChart3, TrendingUp, TrendingDown, Clock, Calendar, Minus, BookOpen, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { getAllSegments } from '@/lib/db';
+import { getDailyTotals, getLocalDateKey, getAllTopics, NO_TOPIC_KEY, NO_CATEGORY_KEY } from '@/lib/db';
+import { getDistractionLabel } from '@/lib/distractions';
+import { buildTopicTree, getTopicLevelTimes } from '@/lib/topicTree';
+import { getTopicColor, getTopicEmoji } from '@/lib/topicAppearance';
 import {
   BarChart,
   Bar,
@@ -36,19 +39,33 @@ interface HourData {
   minutes: number;
 }
 
-const COLORS = ['hsl(var(--primary))', 'hsl(var(--primary) / 0.8)', 'hsl(var(--primary) / 0.6)', 'hsl(var(--primary) / 0.4)'];
+interface TopicSlice {
+  topicId: string | null;
+  name: string;
+  emoji: string | null;
+  color: string;
+  hours: number;
+}
+
+interface DistractionSlice {
+  category: string;
+  label: string;
+  count: number;
+  ms: number;
+}
 
 export const WeeklyReports = ({ refreshTrigger }: WeeklyReportsProps) => {
   const [weekData, setWeekData] = useState<DayData[]>([]);
   const [hourlyData, setHourlyData] = useState<HourData[]>([]);
+  const [topicData, setTopicData] = useState<TopicSlice[]>([]);
   const [prevWeekTotal, setPrevWeekTotal] = useState(0);
+  const [distractionData, setDistractionData] = useState<DistractionSlice[]>([]);
   const [isOpen, setIsOpen] = useState(false);
 
   useEffect(() => {
     if (!isOpen) return;
 
     const loadData = async () => {
-      const segments = await getAllSegments();
       const now = new Date();
       
       // Get start of current week (Sunday)
@@ -60,6 +77,12 @@ export const WeeklyReports = ({ refreshTrigger }: WeeklyReportsProps) => {
       const startOfPrevWeek = new Date(startOfWeek);
       startOfPrevWeek.setDate(startOfPrevWeek.getDate() - 7);
 
+      const [dailyTotals, topics] = await Promise.all([
+        getDailyTotals(startOfPrevWeek.getTime(), now.getTime()),
+        getAllTopics(),
+      ]);
+      const timeByTopic = new Map<string | null, number>();
+
       // Initialize day data
       const days: DayData[] = [];
       const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -86,30 +109,56 @@ export const WeeklyReports = ({ refreshTrigger }: WeeklyReportsProps) => {
       }
 
       let prevWeekMs = 0;
+      const byDistraction = new Map<string, { count: number; ms: number }>();
 
-      // Process segments
-      segments
-        .filter(seg => seg.endTs)
-        .forEach(seg => {
-          const segDate = new Date(seg.startTs);
-          const duration = (seg.endTs || 0) - seg.startTs;
+      // Process daily totals
+      const weekStartKey = getLocalDateKey(startOfWeek.getTime());
+      dailyTotals.forEach(dayTotal => {
+        // Current week data
+        if (dayTotal.date >= weekStartKey) {
+          const [year, month, date] = dayTotal.date.split('-').map(Number);
+          const dayIndex = new Date(year, month - 1, date).getDay();
+          days[dayIndex].ms += dayTotal.total;
+          days[dayIndex].hours = days[dayIndex].ms / 3600000;
 
-          // Current week data
-          if (segDate >= startOfWeek) {
-            const dayIndex = segDate.getDay();
-            days[dayIndex].ms += duration;
-            days[dayIndex].hours = days[dayIndex].ms / 3600000;
+          // Hourly distribution
+          dayTotal.byHour.forEach((ms, hour) => {
+            hours[hour].minutes += ms / 60000;
+          });
 
-            // Hourly distribution
-            const hour = segDate.getHours();
-            hours[hour].minutes += duration / 60000;
-          }
-          // Previous week total
-          else if (segDate >= startOfPrevWeek && segDate < startOfWeek) {
-            prevWeekMs += duration;
-          }
-        });
+          Object.entries(dayTotal.byTopic).forEach(([key, ms]) => {
+            const topicId = key === NO_TOPIC_KEY ? null : key;
+            timeByTopic.set(topicId, (timeByTopic.get(topicId) || 0) + ms);
+          });
+
+          Object.entries(dayTotal.byDistraction).forEach(([key, { count, ms }]) => {
+            const entry = byDistraction.get(key) ?? { count: 0, ms: 0 };
+            byDistraction.set(key, { count: entry.count + count, ms: entry.ms + ms });
+          });
+        }
+        // Previous week total
+        else {
+          prevWeekMs += dayTotal.total;
+        }
+      });
 
+      // Top-level topics, with time from their sub-topics rolled up
+      const tree = buildTopicTree(topics);
+      setTopicData(getTopicLevelTimes(tree, timeByTopic, null).map(row => ({
+        topicId: row.topicId,
+        name: row.name,
+        emoji: getTopicEmoji(tree, row.topicId),
+        color: getTopicColor(tree, row.topicId),
+        hours: row.time / 3600000,
+      })));
+      setDistractionData(Array.from(byDistraction.entries())
+        .map(([key, { count, ms }]) => ({
+          category: key,
+          label: getDistractionLabel(key === NO_CATEGORY_KEY ? null : key),
+          count,
+          ms,
+        }))
+        .sort((a, b) => b.count - a.count));
       setWeekData(days);
       setHourlyData(hours);
       setPrevWeekTotal(prevWeekMs);
@@ -128,15 +177,20 @@ export const WeeklyReports = ({ refreshTrigger }: WeeklyReportsProps) => {
       ? ((totalMs - prevWeekTotal) / prevWeekTotal) * 100 
       : totalMs > 0 ? 100 : 0;
 
+    const distractedMs = distractionData.reduce((sum, slice) => sum + slice.ms, 0);
+
     return {
       totalHours: totalMs / 3600000,
+      netHours: Math.max(0, totalMs - distractedMs) / 3600000,
+      distractedHours: distractedMs / 3600000,
+      distractions: distractionData.reduce((sum, slice) => sum + slice.count, 0),
       avgHours: avgMs / 3600000,
       maxDay: maxDay?.day || 'N/A',
       maxDayHours: (maxDay?.ms || 0) / 3600000,
       peakHour: peakHour?.hour || 'N/A',
       weekChange: change,
     };
-  }, [weekData, hourlyData, prevWeekTotal]);
+  }, [weekData, hourlyData, prevWeekTotal, distractionData]);
 
   const formatHours = (hours: number) => {
     if (hours < 1) {
@@ -230,6 +284,97 @@ export const WeeklyReports = ({ refreshTrigger }: WeeklyReportsProps) => {
               </div>
             </div>
 
+            {/* Topic Breakdown */}
+            {topicData.length > 0 && (
+              <div className="bg-muted/20 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
+                  <BookOpen className="h-4 w-4" />
+                  Time by Topic
+                </h3>
+                <div className="flex items-center gap-6">
+                  <div className="h-40 w-40 flex-shrink-0">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <PieChart>
+                        <Pie data={topicData} dataKey="hours" innerRadius={35} outerRadius={65} paddingAngle={2}>
+                          {topicData.map((slice) => (
+                            <Cell key={slice.topicId ?? 'no-topic'} fill={slice.color} />
+                          ))}
+                        </Pie>
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: 'hsl(var(--background))',
+                            border: '1px solid hsl(var(--border))',
+                            borderRadius: '8px',
+                          }}
+                          formatter={(value: number, _name, item) => [formatHours(value), (item.payload as TopicSlice).name]}
+                        />
+                      </PieChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="flex-1 space-y-1.5 min-w-0">
+                    {topicData.map((slice) => (
+                      <div key={slice.topicId ?? 'no-topic'} className="flex items-center justify-between text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: slice.color }} />
+                          <span className="text-foreground truncate">
+                            {slice.emoji && `${slice.emoji} `}{slice.name}
+                          </span>
+                        </div>
+                        <span className="font-mono text-muted-foreground ml-2">{formatHours(slice.hours)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Net vs gross focus, and what got in the way */}
+            {stats.totalHours > 0 && (
+              <div className="bg-muted/20 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
+                  <Zap className="h-4 w-4" />
+                  Net Focus
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {stats.distractions} distraction{stats.distractions !== 1 ? 's' : ''}
+                  </span>
+                </h3>
+                <div className="grid grid-cols-3 gap-3 mb-4">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Gross</p>
+                    <p className="text-lg font-bold text-foreground">{formatHours(stats.totalHours)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Lost</p>
+                    <p className="text-lg font-bold text-foreground">{formatHours(stats.distractedHours)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Net</p>
+                    <p className="text-lg font-bold text-primary">{formatHours(stats.netHours)}</p>
+                  </div>
+                </div>
+                {distractionData.length > 0 && (
+                  <div className="space-y-2">
+                    {distractionData.map((slice) => (
+                      <div key={slice.category} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-foreground">{slice.label}</span>
+                          <span className="font-mono text-muted-foreground">
+                            {slice.count}× · {formatHours(slice.ms / 3600000)}
+                          </span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-warning"
+                            style={{ width: `${(slice.count / stats.distractions) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Peak Hours Chart */}
             <div className="bg-muted/20 rounded-lg p-4">
               <h3 className="text-sm font-medium text-foreground mb-4 flex items-center gap-2">
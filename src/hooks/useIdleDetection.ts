@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import { broadcastActivity, subscribeToTabMessages } from '@/lib/tabSync';
+import { watchSystemIdle } from '@/lib/idleDetector';
+
+interface UseIdleDetectionOptions {
+  enabled: boolean; // watch for idleness, e.g. only while the timer runs
+  thresholdMs: number;
+  useSystemIdle: boolean;
+  onIdle: (idleSinceTs: number) => void;
+  onActivity?: () => void;
+}
+
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15 * 1000;
+const BROADCAST_INTERVAL_MS = 30 * 1000;
+
+// Input in this or any other StudyWatch tab counts as activity; while the
+// tab is hidden nothing arrives, so hidden time counts as idle unless the
+// Idle Detection API says the user is busy elsewhere on the machine.
+export function useIdleDetection({
+  enabled,
+  thresholdMs,
+  useSystemIdle,
+  onIdle,
+  onActivity,
+}: UseIdleDetectionOptions) {
+  const lastActivityRef = useRef(Date.now());
+  const lastBroadcastRef = useRef(0);
+  const systemActiveRef = useRef<(() => boolean) | null>(null);
+  const onIdleRef = useRef(onIdle);
+  const onActivityRef = useRef(onActivity);
+
+  useEffect(() => { onIdleRef.current = onIdle; }, [onIdle]);
+  useEffect(() => { onActivityRef.current = onActivity; }, [onActivity]);
+
+  // Track input always, so returning after an auto-pause is noticed
+  useEffect(() => {
+    const markActive = () => {
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastBroadcastRef.current > BROADCAST_INTERVAL_MS) {
+        lastBroadcastRef.current = now;
+        broadcastActivity();
+      }
+      onActivityRef.current?.();
+    };
+    const handleVisibilityChange = () => {
+      if (!document.hidden) markActive();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const unsubscribe = subscribeToTabMessages((message) => {
+      if (message.type !== 'activity') return;
+      lastActivityRef.current = Date.now();
+      onActivityRef.current?.();
+    });
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!useSystemIdle) return;
+    const controller = new AbortController();
+    watchSystemIdle(controller.signal).then((watcher) => {
+      if (!controller.signal.aborted) systemActiveRef.current = watcher?.isActive ?? null;
+    });
+    return () => {
+      controller.abort();
+      systemActiveRef.current = null;
+    };
+  }, [useSystemIdle]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      if (systemActiveRef.current?.()) {
+        lastActivityRef.current = now;
+        return;
+      }
+      if (now - lastActivityRef.current > thresholdMs) {
+        onIdleRef.current(lastActivityRef.current);
+      }
+    }, CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [enabled, thresholdMs]);
+}
@@ -6,6 +6,7 @@ interface KeyboardShortcutsConfig {
   onResume: () => void;
   onEnd: () => void;
   onSkip?: () => void;
+  onDistraction?: () => void;
   timerState: 'idle' | 'running' | 'paused';
   enabled?: boolean;
 }
@@ -16,6 +17,7 @@ export function useKeyboardShortcuts({
   onResume,
   onEnd,
   onSkip,
+  onDistraction,
   timerState,
   enabled = true,
 }: KeyboardShortcutsConfig) {
@@ -56,8 +58,16 @@ export function useKeyboardShortcuts({
           onSkip();
         }
         break;
+
+      case 'KeyD':
+        // Distractions are only logged against a running segment
+        if (onDistraction && timerState === 'running') {
+          event.preventDefault();
+          onDistraction();
+        }
+        break;
     }
-  }, [timerState, onStart, onPause, onResume, onEnd, onSkip]);
+  }, [timerState, onStart, onPause, onResume, onEnd, onSkip, onDistraction]);
 
   useEffect(() => {
     if (!enabled) return;
@@ -72,4 +82,5 @@ export const KEYBOARD_SHORTCUTS = [
   { key: 'Space', description: 'Start / Pause / Resume' },
   { key: 'Escape', description: 'End session' },
   { key: 'S', description: 'Skip break (Pomodoro)' },
+  { key: 'D', description: 'Log a distraction' },
 ] as const;
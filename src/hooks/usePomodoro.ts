@@ -5,6 +5,7 @@ import {
   loadPomodoroSettings,
   savePomodoroSettings,
 } from '@/lib/pomodoro';
+import { profileStorage } from '@/lib/profiles';
 
 interface UsePomodoroReturn {
   settings: PomodoroSettings;
@@ -28,7 +29,7 @@ interface UsePomodoroReturn {
 const POMODORO_STATE_KEY = 'studywatch-pomodoro-state';
 
 const savePomodoroState = (state: PomodoroState, isPaused: boolean, lastTick: number) => {
-  localStorage.setItem(POMODORO_STATE_KEY, JSON.stringify({
+  profileStorage.setItem(POMODORO_STATE_KEY, JSON.stringify({
     state,
     isPaused,
     lastTick,
@@ -37,14 +38,14 @@ const savePomodoroState = (state: PomodoroState, isPaused: boolean, lastTick: nu
 };
 
 const loadPomodoroState = (): { state: PomodoroState; isPaused: boolean; lastTick: number } | null => {
-  const stored = localStorage.getItem(POMODORO_STATE_KEY);
+  const stored = profileStorage.getItem(POMODORO_STATE_KEY);
   if (!stored) return null;
   
   try {
     const data = JSON.parse(stored);
     // Only restore if saved within last 24 hours
     if (Date.now() - data.savedAt > 24 * 60 * 60 * 1000) {
-      localStorage.removeItem(POMODORO_STATE_KEY);
+      profileStorage.removeItem(POMODORO_STATE_KEY);
       return null;
     }
     return data;
@@ -54,7 +55,7 @@ const loadPomodoroState = (): { state: PomodoroState; isPaused: boolean; lastTic
 };
 
 const clearPomodoroState = () => {
-  localStorage.removeItem(POMODORO_STATE_KEY);
+  profileStorage.removeItem(POMODORO_STATE_KEY);
 };
 
 export function usePomodoro(
@@ -1,4 +1,5 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
+import { profileStorage } from '@/lib/profiles';
 
 type SoundType = 'workComplete' | 'breakComplete' | 'tick' | 'start' | 'stop';
 
@@ -20,7 +21,7 @@ const createAudioContext = () => {
 export function useSoundAlerts(): UseSoundAlertsReturn {
   const audioContextRef = useRef<AudioContext | null>(null);
   const [soundEnabled, setSoundEnabledState] = useState(() => {
-    const stored = localStorage.getItem(SOUND_STORAGE_KEY);
+    const stored = profileStorage.getItem(SOUND_STORAGE_KEY);
     if (stored) {
       try {
         return JSON.parse(stored).enabled ?? true;
@@ -31,7 +32,7 @@ export function useSoundAlerts(): UseSoundAlertsReturn {
     return true;
   });
   const [volume, setVolumeState] = useState(() => {
-    const stored = localStorage.getItem(SOUND_STORAGE_KEY);
+    const stored = profileStorage.getItem(SOUND_STORAGE_KEY);
     if (stored) {
       try {
         return JSON.parse(stored).volume ?? 0.5;
@@ -44,7 +45,7 @@ export function useSoundAlerts(): UseSoundAlertsReturn {
 
   // Save settings to localStorage
   useEffect(() => {
-    localStorage.setItem(SOUND_STORAGE_KEY, JSON.stringify({ enabled: soundEnabled, volume }));
+    profileStorage.setItem(SOUND_STORAGE_KEY, JSON.stringify({ enabled: soundEnabled, volume }));
   }, [soundEnabled, volume]);
 
   const getAudioContext = useCallback(() => {
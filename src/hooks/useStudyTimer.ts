@@ -6,31 +6,81 @@ import {
   openSegment,
   closeSegment,
   getSegmentsBySession,
-  getAllSegments,
+  getSegmentsInRange,
+  getTotalTimeByTopic,
   getUnclosedSession,
-  getOpenSegment,
+  recordHeartbeat,
+  keepRecoveredSegment,
+  reopenSegment,
+  recordGap,
+  setSegmentTags,
   Segment,
+  SegmentKind,
 } from '@/lib/db';
+import { isStudySegment } from '@/lib/segmentKinds';
+import { loadRecoveryGapMinutes } from '@/lib/recoverySettings';
+import { runScheduledBackup } from '@/lib/autoBackup';
+import {
+  broadcastDataChanged,
+  requestTimerLeadership,
+  sendTimerCommand,
+  subscribeToTabMessages,
+  TimerCommand,
+} from '@/lib/tabSync';
 
 export type TimerState = 'idle' | 'running' | 'paused';
 
+// An open segment whose heartbeat stopped for longer than the threshold
+export interface RecoveryGap {
+  segmentId: string;
+  lastHeartbeatTs: number;
+  detectedAt: number;
+}
+
+// close: end at the last heartbeat and pause; keep: count the gap;
+// split: end at the last heartbeat and carry on in a new segment from now
+export type RecoveryResolution = 'close' | 'keep' | 'split';
+
+// Time between an idle auto-pause and the user coming back
+export interface AwayPeriod {
+  sessionId: string;
+  segmentId: string;
+  startTs: number; // last activity, where the segment was closed
+  endTs: number | null; // null until the user returns
+}
+
+// discard: leave the time out; keep: count it as study and carry on;
+// break: record it as a break
+export type AwayResolution = 'discard' | 'keep' | 'break';
+
+// What the time between pausing and resuming was spent on
+export type GapKind = Exclude<SegmentKind, 'study'>;
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
 interface UseStudyTimerReturn {
   state: TimerState;
   sessionId: string | null;
   currentTopicId: string | null;
-  currentSubtopicId: string | null;
+  currentTagIds: string[];
   todayTime: number;
   allTimeTotal: number;
   topicTime: number;
-  subtopicTime: number;
   historyRefreshTrigger: number;
+  isTimerLeader: boolean; // false while another tab owns the running timer
+  pendingRecovery: RecoveryGap | null;
+  resolveRecovery: (resolution: RecoveryResolution) => Promise<void>;
+  awayPeriod: AwayPeriod | null;
+  pauseForIdle: (idleSinceTs: number) => Promise<void>;
+  markReturned: () => void;
+  resolveAway: (resolution: AwayResolution) => Promise<void>;
   startSession: () => Promise<void>;
   pauseSession: () => Promise<void>;
-  resumeSession: () => Promise<void>;
+  resumeSession: (gapKind?: GapKind) => Promise<void>; // gapKind labels the time since pausing
   endCurrentSession: () => Promise<void>;
   setTopic: (topicId: string | null) => Promise<void>;
-  setSubtopic: (subtopicId: string | null) => Promise<void>;
-  resumeWithContext: (topicId: string | null, subtopicId: string | null) => Promise<void>;
+  setTags: (tagIds: string[]) => Promise<void>;
+  resumeWithContext: (topicId: string | null) => Promise<void>;
   refreshData: () => void;
 }
 
@@ -40,20 +90,41 @@ const getStartOfToday = (): number => {
   return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
 };
 
+// Load today's segments plus the closed time recorded outside them, so the
+// per-frame tick never has to walk the whole history
+const loadTimerSegments = async (): Promise<{ segments: Segment[]; baseline: number }> => {
+  const startOfToday = getStartOfToday();
+  const [segments, closedTimes] = await Promise.all([
+    getSegmentsInRange(startOfToday, Infinity),
+    getTotalTimeByTopic(),
+  ]);
+
+  let baseline = 0;
+  closedTimes.forEach(time => {
+    baseline += time;
+  });
+  segments.forEach(seg => {
+    if (seg.endTs && isStudySegment(seg)) baseline -= seg.endTs - seg.startTs;
+  });
+
+  return { segments, baseline };
+};
+
 // Compute times from segments with high precision
 const computeTimesFromSegments = (
   segments: Segment[], 
   now: number,
   currentTopicId: string | null,
-  currentSubtopicId: string | null,
-  sessionSegments: Segment[]
+  sessionSegments: Segment[],
+  baseline: number
 ) => {
   const startOfToday = getStartOfToday();
   
-  let allTime = 0;
+  let allTime = baseline;
   let todayTime = 0;
   
   for (const seg of segments) {
+    if (!isStudySegment(seg)) continue;
     const endTs = seg.endTs || now;
     const duration = endTs - seg.startTs;
     allTime += duration;
@@ -65,55 +136,57 @@ const computeTimesFromSegments = (
     }
   }
   
-  // Calculate topic/subtopic time from session segments only
+  // Calculate topic time from session segments only
   let topicTime = 0;
-  let subtopicTime = 0;
   
   for (const seg of sessionSegments) {
+    if (!isStudySegment(seg)) continue;
     const endTs = seg.endTs || now;
     const duration = endTs - seg.startTs;
     
     if (seg.topicId === currentTopicId && currentTopicId !== null) {
       topicTime += duration;
     }
-    if (seg.subtopicId === currentSubtopicId && currentSubtopicId !== null) {
-      subtopicTime += duration;
-    }
   }
   
-  return { allTime, todayTime, topicTime, subtopicTime };
+  return { allTime, todayTime, topicTime };
 };
 
 export function useStudyTimer(): UseStudyTimerReturn {
   const [state, setState] = useState<TimerState>('idle');
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [currentTopicId, setCurrentTopicId] = useState<string | null>(null);
-  const [currentSubtopicId, setCurrentSubtopicId] = useState<string | null>(null);
+  const [currentTagIds, setCurrentTagIds] = useState<string[]>([]);
   const [segments, setSegments] = useState<Segment[]>([]);
   const [allSegments, setAllSegments] = useState<Segment[]>([]);
   const [todayTime, setTodayTime] = useState(0);
   const [allTimeTotal, setAllTimeTotal] = useState(0);
   const [topicTime, setTopicTime] = useState(0);
-  const [subtopicTime, setSubtopicTime] = useState(0);
   const [isInitialized, setIsInitialized] = useState(false);
   const [historyRefreshTrigger, setHistoryRefreshTrigger] = useState(0);
+  const [isTimerLeader, setIsTimerLeader] = useState(false);
+  const [pendingRecovery, setPendingRecovery] = useState<RecoveryGap | null>(null);
+  const [awayPeriod, setAwayPeriod] = useState<AwayPeriod | null>(null);
   
   const currentSegmentIdRef = useRef<string | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastUpdateRef = useRef<number>(Date.now());
   const isRunningRef = useRef(false);
+  const baselineRef = useRef(0);
+  const isLeaderRef = useRef(false);
+  const runCommandRef = useRef<(command: TimerCommand) => void>(() => {});
 
   // Stable refs for current state (avoids stale closures)
   const allSegmentsRef = useRef(allSegments);
   const segmentsRef = useRef(segments);
   const topicIdRef = useRef(currentTopicId);
-  const subtopicIdRef = useRef(currentSubtopicId);
+  const tagIdsRef = useRef(currentTagIds);
   
   // Keep refs in sync
   useEffect(() => { allSegmentsRef.current = allSegments; }, [allSegments]);
   useEffect(() => { segmentsRef.current = segments; }, [segments]);
   useEffect(() => { topicIdRef.current = currentTopicId; }, [currentTopicId]);
-  useEffect(() => { subtopicIdRef.current = currentSubtopicId; }, [currentSubtopicId]);
+  useEffect(() => { tagIdsRef.current = currentTagIds; }, [currentTagIds]);
 
   // High-precision timer loop using requestAnimationFrame
   const tick = useCallback(() => {
@@ -126,15 +199,14 @@ export function useStudyTimer(): UseStudyTimerReturn {
       allSegmentsRef.current,
       now,
       topicIdRef.current,
-      subtopicIdRef.current,
-      segmentsRef.current
+      segmentsRef.current,
+      baselineRef.current
     );
     
     // Batch state updates
     setAllTimeTotal(times.allTime);
     setTodayTime(times.todayTime);
     setTopicTime(times.topicTime);
-    setSubtopicTime(times.subtopicTime);
     
     lastUpdateRef.current = now;
     animationFrameRef.current = requestAnimationFrame(tick);
@@ -162,62 +234,195 @@ export function useStudyTimer(): UseStudyTimerReturn {
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [tick]);
 
-  // Initialize DB and recover any unclosed session on mount
-  useEffect(() => {
-    const initAndRecover = async () => {
-      await initDB();
+  // Load timer state from IndexedDB: on mount, when this tab becomes the
+  // leader, and whenever another tab changes data. Only reads, so every tab
+  // can mirror the session the leader is recording.
+  const syncFromDb = useCallback(async () => {
+    await initDB();
+    
+    const { segments: historicalSegments, baseline } = await loadTimerSegments();
+    baselineRef.current = baseline;
+    setAllSegments(historicalSegments);
+    allSegmentsRef.current = historicalSegments;
+    
+    const now = Date.now();
+    const times = computeTimesFromSegments(historicalSegments, now, null, [], baseline);
+    setAllTimeTotal(times.allTime);
+    setTodayTime(times.todayTime);
+    
+    // Check for unclosed session from previous app run or another tab
+    const unclosedSession = await getUnclosedSession();
+    if (unclosedSession) {
+      setSessionId(unclosedSession.id);
       
-      const historicalSegments = await getAllSegments();
-      setAllSegments(historicalSegments);
-      allSegmentsRef.current = historicalSegments;
+      const sessionSegments = await getSegmentsBySession(unclosedSession.id);
+      setSegments(sessionSegments);
+      segmentsRef.current = sessionSegments;
       
-      const now = Date.now();
-      const times = computeTimesFromSegments(historicalSegments, now, null, null, []);
-      setAllTimeTotal(times.allTime);
-      setTodayTime(times.todayTime);
+      const openSeg = sessionSegments.find(seg => !seg.endTs);
+      const studySegments = sessionSegments.filter(isStudySegment);
+      const current = openSeg ?? studySegments[studySegments.length - 1];
+      if (current) {
+        setCurrentTopicId(current.topicId);
+        topicIdRef.current = current.topicId;
+        setCurrentTagIds(current.tagIds ?? []);
+        tagIdsRef.current = current.tagIds ?? [];
+      }
       
-      // Check for unclosed session from previous app run
-      const unclosedSession = await getUnclosedSession();
-      if (unclosedSession) {
-        setSessionId(unclosedSession.id);
-        
-        const sessionSegments = await getSegmentsBySession(unclosedSession.id);
-        setSegments(sessionSegments);
-        segmentsRef.current = sessionSegments;
-        
-        const openSeg = await getOpenSegment(unclosedSession.id);
-        if (openSeg) {
-          currentSegmentIdRef.current = openSeg.id;
-          setCurrentTopicId(openSeg.topicId);
-          setCurrentSubtopicId(openSeg.subtopicId);
-          topicIdRef.current = openSeg.topicId;
-          subtopicIdRef.current = openSeg.subtopicId;
-          setState('running');
-          isRunningRef.current = true;
+      if (openSeg) {
+        // A stale heartbeat means the app crashed or the machine slept while running
+        const lastHeartbeatTs = openSeg.heartbeatTs ?? openSeg.startTs;
+        if (isLeaderRef.current && now - lastHeartbeatTs > loadRecoveryGapMinutes() * 60 * 1000) {
+          setPendingRecovery({ segmentId: openSeg.id, lastHeartbeatTs, detectedAt: now });
+        }
+        currentSegmentIdRef.current = openSeg.id;
+        setState('running');
+        isRunningRef.current = true;
+        if (!animationFrameRef.current) {
           animationFrameRef.current = requestAnimationFrame(tick);
-        } else {
-          const lastSegment = sessionSegments[sessionSegments.length - 1];
-          if (lastSegment) {
-            setCurrentTopicId(lastSegment.topicId);
-            setCurrentSubtopicId(lastSegment.subtopicId);
-            topicIdRef.current = lastSegment.topicId;
-            subtopicIdRef.current = lastSegment.subtopicId;
-          }
-          setState('paused');
         }
+      } else {
+        currentSegmentIdRef.current = null;
+        isRunningRef.current = false;
+        if (animationFrameRef.current) {
+          cancelAnimationFrame(animationFrameRef.current);
+          animationFrameRef.current = null;
+        }
+        const sessionTimes = computeTimesFromSegments(
+          historicalSegments, now, topicIdRef.current, sessionSegments, baseline
+        );
+        setTopicTime(sessionTimes.topicTime);
+        setState('paused');
       }
-      
-      setIsInitialized(true);
-    };
+    } else {
+      currentSegmentIdRef.current = null;
+      isRunningRef.current = false;
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+      setSessionId(null);
+      setSegments([]);
+      segmentsRef.current = [];
+      setCurrentTagIds([]);
+      tagIdsRef.current = [];
+      setTopicTime(0);
+      setState('idle');
+    }
     
-    initAndRecover();
+    setIsInitialized(true);
+  }, [tick]);
+
+  // Initialize DB and recover any unclosed session on mount
+  useEffect(() => {
+    syncFromDb();
     
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
       }
     };
-  }, [tick]);
+  }, [syncFromDb]);
+
+  // Only the tab holding the timer lock writes timer segments
+  useEffect(() => {
+    return requestTimerLeadership(() => {
+      isLeaderRef.current = true;
+      setIsTimerLeader(true);
+      // The previous leader may have changed things right before closing
+      syncFromDb();
+    });
+  }, [syncFromDb]);
+
+  // Mirror changes made in other tabs, and run their timer commands when leading
+  useEffect(() => {
+    return subscribeToTabMessages((message) => {
+      if (message.type === 'command') {
+        if (isLeaderRef.current) runCommandRef.current(message.command);
+        return;
+      }
+      if (message.type !== 'changed') return;
+      syncFromDb().then(() => setHistoryRefreshTrigger(prev => prev + 1));
+    });
+  }, [syncFromDb]);
+
+  // Stamp the running segment while this tab leads. A stamp that comes due
+  // long after the previous one means the machine slept in between.
+  useEffect(() => {
+    if (state !== 'running' || !isTimerLeader || pendingRecovery) return;
+    
+    let lastBeat = Date.now();
+    const interval = setInterval(() => {
+      const segmentId = currentSegmentIdRef.current;
+      if (!segmentId) return;
+      const now = Date.now();
+      if (now - lastBeat > loadRecoveryGapMinutes() * 60 * 1000) {
+        setPendingRecovery({ segmentId, lastHeartbeatTs: lastBeat, detectedAt: now });
+        return;
+      }
+      lastBeat = now;
+      recordHeartbeat(segmentId, now).catch((error) => {
+        console.error('Failed to record heartbeat:', error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    
+    return () => clearInterval(interval);
+  }, [state, isTimerLeader, pendingRecovery]);
+
+  const resolveRecovery = useCallback(async (resolution: RecoveryResolution) => {
+    if (!pendingRecovery) return;
+    const { segmentId, lastHeartbeatTs } = pendingRecovery;
+    
+    if (resolution === 'keep') {
+      await keepRecoveredSegment(segmentId);
+    } else {
+      await closeSegment(segmentId, { endTs: lastHeartbeatTs, recovered: true });
+      if (resolution === 'split' && sessionId) {
+        await openSegment(sessionId, topicIdRef.current, tagIdsRef.current);
+      }
+    }
+    
+    setPendingRecovery(null);
+    await syncFromDb();
+    setHistoryRefreshTrigger(prev => prev + 1);
+    broadcastDataChanged();
+  }, [pendingRecovery, sessionId, syncFromDb]);
+
+  // Auto-pause after inactivity, ending the segment when activity stopped
+  const pauseForIdle = useCallback(async (idleSinceTs: number) => {
+    const segmentId = currentSegmentIdRef.current;
+    if (!isLeaderRef.current || !isRunningRef.current || !segmentId || !sessionId) return;
+    
+    isRunningRef.current = false;
+    currentSegmentIdRef.current = null;
+    await closeSegment(segmentId, { endTs: idleSinceTs });
+    setAwayPeriod({ sessionId, segmentId, startTs: idleSinceTs, endTs: null });
+    
+    await syncFromDb();
+    setHistoryRefreshTrigger(prev => prev + 1);
+    broadcastDataChanged();
+  }, [sessionId, syncFromDb]);
+
+  const markReturned = useCallback(() => {
+    setAwayPeriod(prev => (prev && prev.endTs === null ? { ...prev, endTs: Date.now() } : prev));
+  }, []);
+
+  const resolveAway = useCallback(async (resolution: AwayResolution) => {
+    if (!awayPeriod) return;
+    const { sessionId: awaySessionId, segmentId, endTs } = awayPeriod;
+    
+    if (resolution === 'keep') {
+      await reopenSegment(segmentId);
+    } else if (resolution === 'break') {
+      await recordGap(awaySessionId, 'break', endTs ?? Date.now());
+    }
+    
+    setAwayPeriod(null);
+    await syncFromDb();
+    setHistoryRefreshTrigger(prev => prev + 1);
+    broadcastDataChanged();
+  }, [awayPeriod, syncFromDb]);
 
   const refreshSegments = useCallback(async () => {
     if (sessionId) {
@@ -225,17 +430,23 @@ export function useStudyTimer(): UseStudyTimerReturn {
       setSegments(segs);
       segmentsRef.current = segs;
     }
-    const allSegs = await getAllSegments();
+    const { segments: allSegs, baseline } = await loadTimerSegments();
+    baselineRef.current = baseline;
     setAllSegments(allSegs);
     allSegmentsRef.current = allSegs;
     setHistoryRefreshTrigger(prev => prev + 1);
+    broadcastDataChanged();
   }, [sessionId]);
 
   const startSession = useCallback(async () => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'start' });
+      return;
+    }
     const session = await createSession();
     setSessionId(session.id);
     
-    const segment = await openSegment(session.id, null, null);
+    const segment = await openSegment(session.id, null);
     currentSegmentIdRef.current = segment.id;
     setSegments([segment]);
     segmentsRef.current = [segment];
@@ -250,9 +461,14 @@ export function useStudyTimer(): UseStudyTimerReturn {
     isRunningRef.current = true;
     lastUpdateRef.current = Date.now();
     animationFrameRef.current = requestAnimationFrame(tick);
+    broadcastDataChanged();
   }, [tick]);
 
   const pauseSession = useCallback(async () => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'pause' });
+      return;
+    }
     // Stop the animation loop first
     isRunningRef.current = false;
     if (animationFrameRef.current) {
@@ -268,9 +484,14 @@ export function useStudyTimer(): UseStudyTimerReturn {
     setState('paused');
   }, [refreshSegments]);
 
-  const resumeSession = useCallback(async () => {
+  const resumeSession = useCallback(async (gapKind: GapKind = 'pause') => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'resume', gapKind });
+      return;
+    }
     if (sessionId) {
-      const segment = await openSegment(sessionId, currentTopicId, currentSubtopicId);
+      await recordGap(sessionId, gapKind);
+      const segment = await openSegment(sessionId, currentTopicId, tagIdsRef.current);
       currentSegmentIdRef.current = segment.id;
       await refreshSegments();
     }
@@ -278,9 +499,13 @@ export function useStudyTimer(): UseStudyTimerReturn {
     isRunningRef.current = true;
     lastUpdateRef.current = Date.now();
     animationFrameRef.current = requestAnimationFrame(tick);
-  }, [sessionId, currentTopicId, currentSubtopicId, refreshSegments, tick]);
+  }, [sessionId, currentTopicId, refreshSegments, tick]);
 
   const endCurrentSession = useCallback(async () => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'end' });
+      return;
+    }
     // Stop the animation loop
     isRunningRef.current = false;
     if (animationFrameRef.current) {
@@ -296,66 +521,73 @@ export function useStudyTimer(): UseStudyTimerReturn {
       await endSession(sessionId);
     }
     
-    const allSegs = await getAllSegments();
+    const { segments: allSegs, baseline } = await loadTimerSegments();
+    baselineRef.current = baseline;
     setAllSegments(allSegs);
     allSegmentsRef.current = allSegs;
     
     const now = Date.now();
-    const times = computeTimesFromSegments(allSegs, now, null, null, []);
+    const times = computeTimesFromSegments(allSegs, now, null, [], baseline);
     setAllTimeTotal(times.allTime);
     setTodayTime(times.todayTime);
     
     setSessionId(null);
     setCurrentTopicId(null);
-    setCurrentSubtopicId(null);
     topicIdRef.current = null;
-    subtopicIdRef.current = null;
+    setCurrentTagIds([]);
+    tagIdsRef.current = [];
     setSegments([]);
     segmentsRef.current = [];
     setTopicTime(0);
-    setSubtopicTime(0);
     setState('idle');
     setHistoryRefreshTrigger(prev => prev + 1);
+    broadcastDataChanged();
+    runScheduledBackup('sessionEnd');
   }, [sessionId]);
 
   const setTopic = useCallback(async (topicId: string | null) => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'setTopic', topicId });
+      return;
+    }
     if (state === 'running' && sessionId) {
       if (currentSegmentIdRef.current) {
         await closeSegment(currentSegmentIdRef.current);
       }
       
-      const segment = await openSegment(sessionId, topicId, null);
+      const segment = await openSegment(sessionId, topicId, tagIdsRef.current);
       currentSegmentIdRef.current = segment.id;
       await refreshSegments();
     }
     
     setCurrentTopicId(topicId);
-    setCurrentSubtopicId(null);
     topicIdRef.current = topicId;
-    subtopicIdRef.current = null;
   }, [state, sessionId, refreshSegments]);
 
-  const setSubtopic = useCallback(async (subtopicId: string | null) => {
-    if (state === 'running' && sessionId) {
-      if (currentSegmentIdRef.current) {
-        await closeSegment(currentSegmentIdRef.current);
-      }
-      
-      const segment = await openSegment(sessionId, currentTopicId, subtopicId);
-      currentSegmentIdRef.current = segment.id;
+  // Tags apply to the running segment and carry over to the segments after it
+  const setTags = useCallback(async (tagIds: string[]) => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'setTags', tagIds });
+      return;
+    }
+    setCurrentTagIds(tagIds);
+    tagIdsRef.current = tagIds;
+    if (currentSegmentIdRef.current) {
+      await setSegmentTags(currentSegmentIdRef.current, tagIds);
       await refreshSegments();
     }
-    
-    setCurrentSubtopicId(subtopicId);
-    subtopicIdRef.current = subtopicId;
-  }, [state, sessionId, currentTopicId, refreshSegments]);
+  }, [refreshSegments]);
 
-  const resumeWithContext = useCallback(async (topicId: string | null, subtopicId: string | null) => {
+  const resumeWithContext = useCallback(async (topicId: string | null) => {
+    if (!isLeaderRef.current) {
+      sendTimerCommand({ action: 'resumeWithContext', topicId });
+      return;
+    }
     if (state === 'idle') {
       const session = await createSession();
       setSessionId(session.id);
       
-      const segment = await openSegment(session.id, topicId, subtopicId);
+      const segment = await openSegment(session.id, topicId, tagIdsRef.current);
       currentSegmentIdRef.current = segment.id;
       setSegments([segment]);
       segmentsRef.current = [segment];
@@ -366,22 +598,20 @@ export function useStudyTimer(): UseStudyTimerReturn {
       });
       
       setCurrentTopicId(topicId);
-      setCurrentSubtopicId(subtopicId);
       topicIdRef.current = topicId;
-      subtopicIdRef.current = subtopicId;
       setState('running');
       isRunningRef.current = true;
       lastUpdateRef.current = Date.now();
       animationFrameRef.current = requestAnimationFrame(tick);
       setHistoryRefreshTrigger(prev => prev + 1);
+      broadcastDataChanged();
     } else if (state === 'paused' && sessionId) {
-      const segment = await openSegment(sessionId, topicId, subtopicId);
+      await recordGap(sessionId, 'pause');
+      const segment = await openSegment(sessionId, topicId, tagIdsRef.current);
       currentSegmentIdRef.current = segment.id;
       
       setCurrentTopicId(topicId);
-      setCurrentSubtopicId(subtopicId);
       topicIdRef.current = topicId;
-      subtopicIdRef.current = subtopicId;
       await refreshSegments();
       setState('running');
       isRunningRef.current = true;
@@ -392,37 +622,71 @@ export function useStudyTimer(): UseStudyTimerReturn {
         await closeSegment(currentSegmentIdRef.current);
       }
       
-      const segment = await openSegment(sessionId, topicId, subtopicId);
+      const segment = await openSegment(sessionId, topicId, tagIdsRef.current);
       currentSegmentIdRef.current = segment.id;
       
       setCurrentTopicId(topicId);
-      setCurrentSubtopicId(subtopicId);
       topicIdRef.current = topicId;
-      subtopicIdRef.current = subtopicId;
       await refreshSegments();
     }
   }, [state, sessionId, refreshSegments, tick]);
 
   const refreshData = useCallback(() => {
     setHistoryRefreshTrigger(prev => prev + 1);
+    broadcastDataChanged();
   }, []);
 
+  // Commands forwarded from follower tabs run against the latest callbacks
+  useEffect(() => {
+    runCommandRef.current = (command: TimerCommand) => {
+      switch (command.action) {
+        case 'start':
+          if (state === 'idle') startSession();
+          break;
+        case 'pause':
+          if (state === 'running') pauseSession();
+          break;
+        case 'resume':
+          if (state === 'paused') resumeSession(command.gapKind);
+          break;
+        case 'end':
+          if (state !== 'idle') endCurrentSession();
+          break;
+        case 'setTopic':
+          setTopic(command.topicId);
+          break;
+        case 'setTags':
+          setTags(command.tagIds);
+          break;
+        case 'resumeWithContext':
+          resumeWithContext(command.topicId);
+          break;
+      }
+    };
+  }, [state, startSession, pauseSession, resumeSession, endCurrentSession, setTopic, setTags, resumeWithContext]);
+
   return {
     state,
     sessionId,
     currentTopicId,
-    currentSubtopicId,
+    currentTagIds,
     todayTime,
     allTimeTotal,
     topicTime,
-    subtopicTime,
     historyRefreshTrigger,
+    isTimerLeader,
+    pendingRecovery,
+    resolveRecovery,
+    awayPeriod,
+    pauseForIdle,
+    markReturned,
+    resolveAway,
     startSession,
     pauseSession,
     resumeSession,
     endCurrentSession,
     setTopic,
-    setSubtopic,
+    setTags,
     resumeWithContext,
     refreshData,
   };
@@ -1,4 +1,5 @@
 // Achievement system with local storage persistence
+import { profileStorage } from '@/lib/profiles';
 
 export interface Achievement {
   id: string;
@@ -51,7 +52,7 @@ export const ACHIEVEMENTS: Achievement[] = [
 ];
 
 export const loadUnlockedAchievements = (): Map<string, number> => {
-  const stored = localStorage.getItem(ACHIEVEMENTS_KEY);
+  const stored = profileStorage.getItem(ACHIEVEMENTS_KEY);
   if (stored) {
     try {
       const data = JSON.parse(stored);
@@ -68,12 +69,12 @@ export const saveUnlockedAchievement = (achievementId: string): void => {
   if (!unlocked.has(achievementId)) {
     unlocked.set(achievementId, Date.now());
     const obj = Object.fromEntries(unlocked);
-    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(obj));
+    profileStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(obj));
   }
 };
 
 export const loadProgress = (): AchievementProgress => {
-  const stored = localStorage.getItem(PROGRESS_KEY);
+  const stored = profileStorage.getItem(PROGRESS_KEY);
   if (stored) {
     try {
       return JSON.parse(stored);
@@ -91,7 +92,7 @@ export const loadProgress = (): AchievementProgress => {
 };
 
 export const saveProgress = (progress: AchievementProgress): void => {
-  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  profileStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
 };
 
 export const checkAndUnlockAchievements = (progress: AchievementProgress): Achievement[] => {
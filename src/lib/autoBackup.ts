@@ -0,0 +1,249 @@
+// Automatic backups to a folder on disk
+//
+// The user picks a folder once through the File System Access API and its
+// handle is kept in IndexedDB. A complete backup (encrypted when encryption is
+// on) is written there after each session or once a day, and only the newest
+// few are kept. Browsers without the API download the backup instead.
+import { createBackup } from '@/lib/backup';
+import { getFileHandle, saveFileHandle } from '@/lib/db';
+import { encryptExport, isEncryptionEnabled } from '@/lib/encryption';
+import { getActiveProfileId, getProfileScopedName, profileStorage } from '@/lib/profiles';
+
+export type AutoBackupFrequency = 'session' | 'daily';
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  frequency: AutoBackupFrequency;
+  keep: number; // newest backups left in the folder
+  folderName: string | null;
+  lastBackupAt: number | null;
+  lastError: string | null;
+}
+
+export interface AutoBackupFile {
+  name: string;
+  size: number;
+  modifiedAt: number;
+  encrypted: boolean;
+}
+
+// 'missing' until a folder is picked; 'prompt' when the browser wants the
+// user to allow access again, which needs a click
+export type BackupFolderAccess = 'missing' | 'prompt' | 'granted';
+
+export const AUTO_BACKUP_KEEP_OPTIONS = [3, 5, 10, 20, 30];
+
+const SETTINGS_KEY = 'studywatch-auto-backup';
+const FOLDER_HANDLE_ID = 'autoBackupFolder';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKUP_LOCK = getProfileScopedName('studywatch-auto-backup');
+
+const DEFAULT_SETTINGS: AutoBackupSettings = {
+  enabled: false,
+  frequency: 'daily',
+  keep: 10,
+  folderName: null,
+  lastBackupAt: null,
+  lastError: null,
+};
+
+// Permission methods and the picker are not in TypeScript's DOM types yet
+interface PermissionDescriptor {
+  mode: 'read' | 'readwrite';
+}
+
+interface BackupFolderHandle extends FileSystemDirectoryHandle {
+  queryPermission?: (descriptor: PermissionDescriptor) => Promise<PermissionState>;
+  requestPermission?: (descriptor: PermissionDescriptor) => Promise<PermissionState>;
+  values: () => AsyncIterable<FileSystemHandle>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+const READ_WRITE: PermissionDescriptor = { mode: 'readwrite' };
+
+const getDirectoryPicker = (): DirectoryPicker | null => {
+  if (typeof window === 'undefined') return null;
+  return (window as Window & { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker ?? null;
+};
+
+export const isFolderBackupSupported = (): boolean => getDirectoryPicker() !== null;
+
+// Profiles name their files apart in case two share a folder
+const getFilePrefix = (): string => `studywatch-auto-${getActiveProfileId()}-`;
+
+const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Settings
+
+export const loadAutoBackupSettings = (): AutoBackupSettings => {
+  const stored = profileStorage.getItem(SETTINGS_KEY);
+  if (stored) {
+    try {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const saveAutoBackupSettings = (changes: Partial<AutoBackupSettings>): AutoBackupSettings => {
+  const settings = { ...loadAutoBackupSettings(), ...changes };
+  profileStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+};
+
+// Folder
+
+const getBackupFolder = (): Promise<BackupFolderHandle | null> => {
+  return getFileHandle<BackupFolderHandle>(FOLDER_HANDLE_ID);
+};
+
+// Must run from a click, like the picker itself
+export const chooseBackupFolder = async (): Promise<string> => {
+  const picker = getDirectoryPicker();
+  if (!picker) {
+    throw new Error('This browser cannot write to a folder; backups will be downloaded instead');
+  }
+  const handle = await picker({ id: 'studywatch-backups', mode: 'readwrite' });
+  await saveFileHandle(FOLDER_HANDLE_ID, handle);
+  saveAutoBackupSettings({ folderName: handle.name, lastError: null });
+  return handle.name;
+};
+
+export const forgetBackupFolder = async (): Promise<void> => {
+  await saveFileHandle(FOLDER_HANDLE_ID, null);
+  saveAutoBackupSettings({ folderName: null });
+};
+
+export const getBackupFolderAccess = async (): Promise<BackupFolderAccess> => {
+  const folder = await getBackupFolder();
+  if (!folder) return 'missing';
+  if (!folder.queryPermission) return 'granted';
+  return (await folder.queryPermission(READ_WRITE)) === 'granted' ? 'granted' : 'prompt';
+};
+
+// Must run from a click
+export const allowBackupFolderAccess = async (): Promise<boolean> => {
+  const folder = await getBackupFolder();
+  if (!folder) return false;
+  if (!folder.requestPermission) return true;
+  return (await folder.requestPermission(READ_WRITE)) === 'granted';
+};
+
+const requireWritableFolder = async (): Promise<BackupFolderHandle | null> => {
+  const folder = await getBackupFolder();
+  if (!folder) return null;
+  if (folder.queryPermission && (await folder.queryPermission(READ_WRITE)) !== 'granted') {
+    throw new Error(`Allow StudyWatch to use the "${folder.name}" folder again`);
+  }
+  return folder;
+};
+
+export const listAutoBackups = async (): Promise<AutoBackupFile[]> => {
+  const folder = await requireWritableFolder();
+  if (!folder) return [];
+  const prefix = getFilePrefix();
+  const files: AutoBackupFile[] = [];
+  for await (const entry of folder.values()) {
+    if (entry.kind !== 'file' || !entry.name.startsWith(prefix)) continue;
+    const file = await (entry as FileSystemFileHandle).getFile();
+    files.push({
+      name: entry.name,
+      size: file.size,
+      modifiedAt: file.lastModified,
+      encrypted: entry.name.endsWith('.encrypted.json'),
+    });
+  }
+  // Names carry the time, so they sort newest first
+  return files.sort((a, b) => b.name.localeCompare(a.name));
+};
+
+export const readAutoBackup = async (name: string): Promise<string> => {
+  const folder = await requireWritableFolder();
+  if (!folder) {
+    throw new Error('No backup folder is set');
+  }
+  const handle = await folder.getFileHandle(name);
+  return (await handle.getFile()).text();
+};
+
+const pruneAutoBackups = async (folder: BackupFolderHandle, keep: number): Promise<void> => {
+  const files = await listAutoBackups();
+  for (const file of files.slice(keep)) {
+    await folder.removeEntry(file.name);
+  }
+};
+
+// Writing
+
+const createBackupFile = async (): Promise<{ name: string; content: string }> => {
+  const json = JSON.stringify(await createBackup(), null, 2);
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  if (isEncryptionEnabled()) {
+    return { name: `${getFilePrefix()}${stamp}.encrypted.json`, content: await encryptExport(json) };
+  }
+  return { name: `${getFilePrefix()}${stamp}.json`, content: json };
+};
+
+// Write a backup to the folder, or download it without one. Returns the file
+// name.
+export const backUpNow = async (): Promise<string> => {
+  try {
+    const folder = await requireWritableFolder();
+    const { name, content } = await createBackupFile();
+    if (folder) {
+      const file = await folder.getFileHandle(name, { create: true });
+      const writable = await file.createWritable();
+      await writable.write(content);
+      await writable.close();
+      await pruneAutoBackups(folder, loadAutoBackupSettings().keep);
+    } else {
+      downloadFile(content, name, 'application/json');
+    }
+    saveAutoBackupSettings({ lastBackupAt: Date.now(), lastError: null });
+    return name;
+  } catch (error) {
+    saveAutoBackupSettings({ lastError: error instanceof Error ? error.message : 'Backup failed' });
+    throw error;
+  }
+};
+
+const isBackupDue = (settings: AutoBackupSettings, trigger: 'sessionEnd' | 'schedule'): boolean => {
+  if (!settings.enabled) return false;
+  if (settings.frequency === 'session') return trigger === 'sessionEnd';
+  return settings.lastBackupAt === null || Date.now() - settings.lastBackupAt >= DAY_MS;
+};
+
+// Called when a session ends and periodically while the app is open. Never
+// throws; failures are kept in lastError for the settings panel.
+export const runScheduledBackup = async (trigger: 'sessionEnd' | 'schedule'): Promise<void> => {
+  if (!isBackupDue(loadAutoBackupSettings(), trigger)) return;
+  const run = async () => {
+    // Another tab may have just written one
+    if (!isBackupDue(loadAutoBackupSettings(), trigger)) return;
+    await backUpNow();
+  };
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      await navigator.locks.request(BACKUP_LOCK, { ifAvailable: true }, async (lock) => {
+        if (lock) await run();
+      });
+    } else {
+      await run();
+    }
+  } catch (error) {
+    console.error('Automatic backup failed:', error);
+  }
+};
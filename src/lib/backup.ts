@@ -0,0 +1,246 @@
+// Complete, lossless backups
+//
+// A backup holds every IndexedDB record with its id plus the studywatch-*
+// localStorage entries (settings, goals, achievements). Files are validated
+// against a schema before anything is written.
+import { z } from 'zod';
+import { getAllRecords, importRecords, BackupRecords, ImportMode } from '@/lib/db';
+import { LATEST_DB_VERSION } from '@/lib/migrations';
+import { profileStorage } from '@/lib/profiles';
+
+export const BACKUP_FORMAT = 'studywatch-backup';
+export const BACKUP_VERSION = 1;
+
+const SETTINGS_PREFIX = 'studywatch-';
+
+// Machine-specific or transient state that should not travel with a backup
+const SKIPPED_SETTINGS = new Set([
+  'studywatch-migration-log',
+  'studywatch-pomodoro-state',
+  'studywatch-profiles',
+  'studywatch-active-profile',
+  'studywatch-encryption',
+  'studywatch-sync-config',
+  'studywatch-sync-conflicts',
+  'studywatch-auto-backup',
+]);
+
+// Records keep unknown fields so newer backups survive a round trip
+const sessionSchema = z.object({
+  id: z.string(),
+  startTs: z.number(),
+  endTs: z.number().nullable(),
+  source: z.enum(['timer', 'manual', 'import']).default('timer'),
+  breaks: z.array(z.object({ startTs: z.number(), endTs: z.number() })).optional(), // before breaks were segments
+  tagIds: z.array(z.string()).optional(),
+  reflection: z.object({
+    focus: z.number(),
+    mood: z.number().nullable(),
+    energy: z.number().nullable(),
+    accomplished: z.string(),
+    nextStep: z.string(),
+    recordedAt: z.number(),
+  }).optional(),
+}).passthrough();
+
+const topicSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().nullable().default(null),
+  createdAt: z.number(),
+  archived: z.boolean().default(false),
+  color: z.string().optional(),
+  emoji: z.string().optional(),
+  description: z.string().optional(),
+  link: z.string().optional(),
+}).passthrough();
+
+// Backups made before topics became a tree keep sub-topics in a list of
+// their own, and segments and notes point at both
+const subtopicSchema = topicSchema.extend({
+  topicId: z.string(),
+}).passthrough();
+
+const pointAtSubtopic = <T extends { topicId?: string | null; subtopicId?: string | null }>(record: T): T => {
+  const { subtopicId, ...rest } = record;
+  return (subtopicId ? { ...rest, topicId: subtopicId } : rest) as T;
+};
+
+// Older backups log breaks on the session. The ids match the ones the v13
+// migration gives the same breaks.
+const toBreakSegments = ({ id, breaks = [] }: z.infer<typeof sessionSchema>) =>
+  breaks.map(({ startTs, endTs }, index) => ({
+    id: `${id}-break-${index}`,
+    sessionId: id,
+    topicId: null,
+    startTs,
+    endTs,
+    source: 'timer' as const,
+    kind: 'break' as const,
+  }));
+
+const segmentSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  topicId: z.string().nullable(),
+  subtopicId: z.string().nullable().optional(),
+  startTs: z.number(),
+  endTs: z.number().nullable(),
+  source: z.enum(['timer', 'manual', 'import']).default('timer'),
+  heartbeatTs: z.number().optional(),
+  recovered: z.boolean().optional(),
+  tagIds: z.array(z.string()).optional(),
+  kind: z.enum(['study', 'break', 'pause']).optional(),
+  distractions: z.array(z.object({
+    id: z.string(),
+    atTs: z.number(),
+    category: z.enum(['phone', 'chat', 'noise', 'hunger']).nullable(),
+    durationMs: z.number(),
+  })).optional(),
+}).passthrough();
+
+const noteSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['note', 'task']).default('note'),
+  sessionId: z.string().nullable().default(null),
+  topicId: z.string().nullable().default(null),
+  subtopicId: z.string().nullable().optional(),
+  atTs: z.number(),
+  text: z.string(),
+  completed: z.boolean().default(false),
+}).passthrough();
+
+const tagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.number(),
+}).passthrough();
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  schemaVersion: z.number().int(),
+  exportedAt: z.string(),
+  data: z.object({
+    sessions: z.array(sessionSchema),
+    topics: z.array(topicSchema),
+    subtopics: z.array(subtopicSchema).default([]),
+    segments: z.array(segmentSchema),
+    notes: z.array(noteSchema).default([]),
+    tags: z.array(tagSchema).default([]),
+  }).transform(({ subtopics, ...data }) => ({
+    ...data,
+    topics: [...data.topics, ...subtopics.map(({ topicId, ...subtopic }) => ({ ...subtopic, parentId: topicId }))],
+    sessions: data.sessions.map(({ breaks, ...session }) => session),
+    segments: [...data.segments.map(pointAtSubtopic), ...data.sessions.flatMap(toBreakSegments)],
+    notes: data.notes.map(pointAtSubtopic),
+  })),
+  settings: z.record(z.string()).default({}),
+});
+
+export interface StudyWatchBackup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  schemaVersion: number;
+  exportedAt: string;
+  data: BackupRecords;
+  settings: Record<string, string>;
+}
+
+export interface BackupPreview {
+  exportedAt: string;
+  sessions: number;
+  segments: number;
+  topics: number;
+  notes: number;
+  tasks: number;
+  tags: number;
+  settings: number;
+  firstTs: number | null;
+  lastTs: number | null;
+}
+
+const readSettings = (): Record<string, string> => {
+  const settings: Record<string, string> = {};
+  profileStorage.keys().forEach(key => {
+    if (!key.startsWith(SETTINGS_PREFIX) || SKIPPED_SETTINGS.has(key)) return;
+    settings[key] = profileStorage.getItem(key) ?? '';
+  });
+  return settings;
+};
+
+export const createBackup = async (): Promise<StudyWatchBackup> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: LATEST_DB_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: await getAllRecords(),
+  settings: readSettings(),
+});
+
+// Parse and validate a backup file, throwing a readable error on any problem
+export const parseBackup = (text: string): StudyWatchBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (raw && typeof raw === 'object' && 'summary' in raw && !('format' in raw)) {
+    throw new Error('This is a summary export without IDs. Export a complete backup to restore from it.');
+  }
+
+  const result = backupSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    throw new Error(`Invalid backup file${path ? ` at ${path}` : ''}: ${issue.message}`);
+  }
+
+  if (result.data.schemaVersion > LATEST_DB_VERSION) {
+    throw new Error('This backup was made by a newer version of StudyWatch');
+  }
+
+  return result.data as StudyWatchBackup;
+};
+
+export const previewBackup = (backup: StudyWatchBackup): BackupPreview => {
+  const { data } = backup;
+  // reduce rather than Math.min(...) so large histories don't overflow the stack
+  const firstTs = data.segments.reduce<number | null>(
+    (min, seg) => (min === null || seg.startTs < min ? seg.startTs : min), null
+  );
+  const lastTs = data.segments.reduce<number | null>(
+    (max, seg) => Math.max(max ?? 0, seg.endTs ?? seg.startTs), null
+  );
+  return {
+    exportedAt: backup.exportedAt,
+    sessions: data.sessions.length,
+    segments: data.segments.length,
+    topics: data.topics.length,
+    notes: data.notes.filter(n => n.kind === 'note').length,
+    tasks: data.notes.filter(n => n.kind === 'task').length,
+    tags: data.tags.length,
+    settings: Object.keys(backup.settings).length,
+    firstTs,
+    lastTs,
+  };
+};
+
+// Restore records and settings. 'merge' keeps existing records and settings;
+// 'replace' wipes them first. Returns how many records were written.
+export const restoreBackup = async (backup: StudyWatchBackup, mode: ImportMode): Promise<number> => {
+  const written = await importRecords(backup.data, mode);
+
+  if (mode === 'replace') {
+    Object.keys(readSettings()).forEach(key => profileStorage.removeItem(key));
+  }
+  Object.entries(backup.settings).forEach(([key, value]) => {
+    if (!key.startsWith(SETTINGS_PREFIX) || SKIPPED_SETTINGS.has(key)) return;
+    if (mode === 'merge' && profileStorage.getItem(key) !== null) return;
+    profileStorage.setItem(key, value);
+  });
+
+  return written;
+};
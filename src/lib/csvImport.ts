@@ -0,0 +1,370 @@
+// Import time logs exported from other trackers (Toggl, Clockify, generic CSV)
+//
+// Rows are parsed with a column mapping, grouped into one synthetic session
+// per local day and checked against existing segments. planCsvImport is a dry
+// run; nothing is written until commitCsvImport is called with its plan.
+import { getSegmentsInRange, importSessions, ImportedSessionInput, Segment } from '@/lib/db';
+
+export type DateFormat = 'ymd' | 'mdy' | 'dmy';
+export type CsvProfileId = 'toggl' | 'clockify' | 'generic';
+
+// Header names for each field; null when the file has no such column
+export interface CsvColumnMapping {
+  topic: string | null;
+  subtopic: string | null;
+  startDate: string | null;
+  startTime: string | null;
+  endDate: string | null;
+  endTime: string | null;
+  duration: string | null;
+  dateFormat: DateFormat;
+}
+
+export interface CsvProfile {
+  label: string;
+  mapping: CsvColumnMapping;
+}
+
+export const CSV_PROFILES: Record<CsvProfileId, CsvProfile> = {
+  toggl: {
+    label: 'Toggl Track',
+    mapping: {
+      topic: 'Project',
+      subtopic: 'Tags',
+      startDate: 'Start date',
+      startTime: 'Start time',
+      endDate: 'End date',
+      endTime: 'End time',
+      duration: 'Duration',
+      dateFormat: 'ymd',
+    },
+  },
+  clockify: {
+    label: 'Clockify',
+    mapping: {
+      topic: 'Project',
+      subtopic: 'Tags',
+      startDate: 'Start Date',
+      startTime: 'Start Time',
+      endDate: 'End Date',
+      endTime: 'End Time',
+      duration: 'Duration (h)',
+      dateFormat: 'mdy',
+    },
+  },
+  generic: {
+    label: 'Generic CSV',
+    mapping: {
+      topic: null,
+      subtopic: null,
+      startDate: null,
+      startTime: null,
+      endDate: null,
+      endTime: null,
+      duration: null,
+      dateFormat: 'ymd',
+    },
+  },
+};
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PlannedEntry {
+  row: number; // 1-based line number in the file, header included
+  topicName: string | null;
+  subtopicName: string | null;
+  startTs: number;
+  endTs: number;
+}
+
+export interface SkippedRow {
+  row: number;
+  reason: string;
+}
+
+export interface CsvImportPlan {
+  sessions: ImportedSessionInput[];
+  entries: PlannedEntry[];
+  duplicates: SkippedRow[];
+  errors: SkippedRow[];
+  newTopics: string[];
+  totalMs: number;
+  firstTs: number | null;
+  lastTs: number | null;
+}
+
+// RFC 4180-style parser: quoted fields, escaped quotes, CRLF or LF line ends
+export const parseCsv = (text: string): CsvTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('This file is empty');
+  }
+  const [headers, ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+// Pick the built-in profile whose columns are all present
+export const detectProfile = (headers: string[]): CsvProfileId => {
+  const has = (name: string | null) => name === null || headers.includes(name);
+  for (const id of ['toggl', 'clockify'] as CsvProfileId[]) {
+    const { mapping } = CSV_PROFILES[id];
+    if (has(mapping.topic) && has(mapping.startDate) && has(mapping.startTime) && has(mapping.endTime)) {
+      return id;
+    }
+  }
+  return 'generic';
+};
+
+const parseDate = (value: string, format: DateFormat): [number, number, number] | null => {
+  const parts = value.trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+  if (!parts) return null;
+  const [a, b, c] = parts.slice(1).map(Number);
+  // Four-digit first part is always year-month-day, whatever the setting
+  if (parts[1].length === 4 || format === 'ymd') return [a, b, c];
+  return format === 'mdy' ? [c, a, b] : [c, b, a];
+};
+
+// [hours, minutes, seconds] for 24h or 12h clock times
+const parseTime = (value: string): [number, number, number] | null => {
+  const parts = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+  if (!parts) return null;
+  let hours = Number(parts[1]);
+  const minutes = Number(parts[2]);
+  const seconds = Number(parts[3] ?? 0);
+  const meridiem = parts[4]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return [hours, minutes, seconds];
+};
+
+// Accepts a date plus a separate time, or one combined "date time" value
+const parseDateTime = (dateValue: string, timeValue: string | null, format: DateFormat): number | null => {
+  let datePart = dateValue.trim();
+  let timePart = timeValue?.trim() ?? '';
+
+  if (!timePart) {
+    // Full ISO timestamps carry their own offset
+    if (/\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(datePart)) {
+      const ts = Date.parse(datePart);
+      return isNaN(ts) ? null : ts;
+    }
+    const split = datePart.match(/^(\S+)[T\s]+(.+)$/);
+    if (!split) return null;
+    datePart = split[1];
+    timePart = split[2];
+  }
+
+  const date = parseDate(datePart, format);
+  const time = parseTime(timePart);
+  if (!date || time === null) return null;
+
+  const [year, month, day] = date;
+  const result = new Date(year, month - 1, day, ...time);
+  if (result.getMonth() !== month - 1) return null;
+  return result.getTime();
+};
+
+// "1:30:00", "01:30" or decimal hours like "1.5"
+const parseDuration = (value: string): number | null => {
+  const trimmed = value.trim();
+  const clock = trimmed.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return ((Number(clock[1]) * 60 + Number(clock[2])) * 60 + Number(clock[3] ?? 0)) * 1000;
+  }
+  const hours = Number(trimmed.replace(',', '.'));
+  return trimmed && !isNaN(hours) ? Math.round(hours * 3600000) : null;
+};
+
+const readCell = (table: CsvTable, row: string[], column: string | null): string | null => {
+  if (!column) return null;
+  const index = table.headers.indexOf(column);
+  if (index === -1) return null;
+  const value = row[index]?.trim();
+  return value ? value : null;
+};
+
+// Tags columns can hold several comma-separated tags; the first one wins
+const firstTag = (value: string | null): string | null => {
+  if (!value) return null;
+  return value.split(',')[0].trim() || null;
+};
+
+const parseRow = (table: CsvTable, row: string[], mapping: CsvColumnMapping): Omit<PlannedEntry, 'row'> => {
+  const startDate = readCell(table, row, mapping.startDate);
+  if (!startDate) {
+    throw new Error('Missing start date');
+  }
+  const startTs = parseDateTime(startDate, readCell(table, row, mapping.startTime), mapping.dateFormat);
+  if (startTs === null) {
+    throw new Error(`Unreadable start "${startDate}"`);
+  }
+
+  let endTs: number | null = null;
+  const endTime = readCell(table, row, mapping.endTime);
+  if (endTime) {
+    const endDate = readCell(table, row, mapping.endDate) ?? startDate;
+    endTs = parseDateTime(endDate, endTime, mapping.dateFormat);
+    // An end time earlier than the start on the same date ran past midnight
+    if (endTs !== null && endTs <= startTs && !readCell(table, row, mapping.endDate)) {
+      endTs += 24 * 60 * 60 * 1000;
+    }
+  } else {
+    const duration = readCell(table, row, mapping.duration);
+    const ms = duration ? parseDuration(duration) : null;
+    endTs = ms === null ? null : startTs + ms;
+  }
+
+  if (endTs === null) {
+    throw new Error('Missing or unreadable end time / duration');
+  }
+  if (endTs <= startTs) {
+    throw new Error('Entry ends before it starts');
+  }
+  if (endTs > Date.now()) {
+    throw new Error('Entry ends in the future');
+  }
+
+  const topicName = readCell(table, row, mapping.topic);
+  const subtopicCell = readCell(table, row, mapping.subtopic);
+  return {
+    topicName,
+    subtopicName: topicName ? (mapping.subtopic === 'Tags' ? firstTag(subtopicCell) : subtopicCell) : null,
+    startTs,
+    endTs,
+  };
+};
+
+const overlaps = (a: { startTs: number; endTs: number | null }, b: { startTs: number; endTs: number | null }) =>
+  a.startTs < (b.endTs ?? Infinity) && b.startTs < (a.endTs ?? Infinity);
+
+const getDayKey = (ts: number): string => {
+  const date = new Date(ts);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+};
+
+// Dry run: parse every row, flag duplicates and build the sessions to create
+export const planCsvImport = async (
+  table: CsvTable,
+  mapping: CsvColumnMapping,
+  existingTopicNames: string[]
+): Promise<CsvImportPlan> => {
+  const parsed: PlannedEntry[] = [];
+  const errors: SkippedRow[] = [];
+
+  table.rows.forEach((row, index) => {
+    const line = index + 2;
+    try {
+      parsed.push({ row: line, ...parseRow(table, row, mapping) });
+    } catch (error) {
+      errors.push({ row: line, reason: error instanceof Error ? error.message : 'Unreadable row' });
+    }
+  });
+  parsed.sort((a, b) => a.startTs - b.startTs);
+
+  const firstTs = parsed.length > 0 ? parsed[0].startTs : null;
+  const lastTs = parsed.reduce<number | null>((max, e) => Math.max(max ?? 0, e.endTs), null);
+  const existing: Segment[] = firstTs !== null && lastTs !== null
+    ? await getSegmentsInRange(firstTs, lastTs)
+    : [];
+
+  // Anything overlapping recorded time, or an earlier row, is a duplicate.
+  // Both lists are sorted by start, so a single sweep finds every clash.
+  existing.sort((a, b) => a.startTs - b.startTs);
+  const entries: PlannedEntry[] = [];
+  const duplicates: SkippedRow[] = [];
+  let cursor = 0;
+  let latest: PlannedEntry | null = null;
+  parsed.forEach(entry => {
+    while (cursor < existing.length && (existing[cursor].endTs ?? Infinity) <= entry.startTs) cursor++;
+    for (let i = cursor; i < existing.length && existing[i].startTs < entry.endTs; i++) {
+      if (overlaps(entry, existing[i])) {
+        duplicates.push({ row: entry.row, reason: 'Overlaps time already recorded' });
+        return;
+      }
+    }
+    if (latest && entry.startTs < latest.endTs) {
+      duplicates.push({ row: entry.row, reason: `Overlaps row ${latest.row}` });
+      return;
+    }
+    entries.push(entry);
+    latest = entry;
+  });
+
+  // One synthetic session per local day
+  const byDay = new Map<string, PlannedEntry[]>();
+  entries.forEach(entry => {
+    const key = getDayKey(entry.startTs);
+    byDay.set(key, [...(byDay.get(key) || []), entry]);
+  });
+  const sessions: ImportedSessionInput[] = Array.from(byDay.values()).map(dayEntries => ({
+    startTs: Math.min(...dayEntries.map(e => e.startTs)),
+    endTs: Math.max(...dayEntries.map(e => e.endTs)),
+    // The sub-topic column names a topic under the row's topic
+    segments: dayEntries.map(({ topicName, subtopicName, startTs, endTs }) => ({
+      topicPath: [topicName, subtopicName].filter((name): name is string => !!name),
+      startTs,
+      endTs,
+    })),
+  }));
+
+  const known = new Set(existingTopicNames.map(name => name.toLowerCase()));
+  const newTopics = Array.from(new Set(
+    entries.map(e => e.topicName).filter((name): name is string => !!name && !known.has(name.toLowerCase()))
+  ));
+
+  return {
+    sessions,
+    entries,
+    duplicates,
+    errors,
+    newTopics,
+    totalMs: entries.reduce((sum, e) => sum + (e.endTs - e.startTs), 0),
+    firstTs,
+    lastTs,
+  };
+};
+
+export const commitCsvImport = (plan: CsvImportPlan): Promise<number> => {
+  return importSessions(plan.sessions);
+};
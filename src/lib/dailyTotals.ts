@@ -0,0 +1,156 @@
+// Materialized per-day study totals, keyed by local date (YYYY-MM-DD)
+//
+// Only closed study segments are counted; breaks and pauses never are. Every
+// write that changes closed segments hands the old and new versions to
+// applyDailyDeltas inside the same transaction, so the rollup can never drift
+// from the raw segments.
+import type { Segment } from '@/lib/db';
+import { isStudySegment } from '@/lib/segmentKinds';
+
+export const DAILY_TOTALS_STORE = 'dailyTotals';
+
+// byTopic key for time recorded without a topic
+export const NO_TOPIC_KEY = '__none__';
+
+// byDistraction key for distractions logged without a category
+export const NO_CATEGORY_KEY = '__none__';
+
+export interface DailyTotal {
+  date: string;
+  total: number; // gross; net focus is total - distracted
+  byTopic: Record<string, number>; // the topic a segment sits on, not its ancestors
+  byHour: number[]; // 24 entries, local hour of day
+  distracted: number;
+  byDistraction: Record<string, { count: number; ms: number }>;
+}
+
+export const getLocalDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const createDailyTotal = (date: string): DailyTotal => ({
+  date,
+  total: 0,
+  byTopic: {},
+  byHour: new Array(24).fill(0),
+  distracted: 0,
+  byDistraction: {},
+});
+
+const addTo = (record: Record<string, number>, key: string, ms: number) => {
+  record[key] = (record[key] || 0) + ms;
+};
+
+// Add (sign 1) or subtract (sign -1) a closed segment's time, split at local
+// hour boundaries so segments crossing midnight land on both days
+export const addSegmentToTotals = (
+  totals: Map<string, DailyTotal>,
+  segment: Segment,
+  sign: 1 | -1 = 1
+): void => {
+  if (segment.endTs === null || !isStudySegment(segment)) return;
+
+  let cursor = segment.startTs;
+  while (cursor < segment.endTs) {
+    const nextHour = new Date(cursor);
+    nextHour.setMinutes(60, 0, 0);
+    const chunkEnd = Math.min(nextHour.getTime(), segment.endTs);
+    const ms = (chunkEnd - cursor) * sign;
+
+    const date = getLocalDateKey(cursor);
+    const day = totals.get(date) ?? createDailyTotal(date);
+    totals.set(date, day);
+
+    day.total += ms;
+    day.byHour[new Date(cursor).getHours()] += ms;
+    addTo(day.byTopic, segment.topicId ?? NO_TOPIC_KEY, ms);
+
+    cursor = chunkEnd;
+  }
+
+  // Distraction time lands on the day it was logged, and a segment never
+  // loses more than its own length
+  let remaining = segment.endTs - segment.startTs;
+  (segment.distractions ?? []).forEach(distraction => {
+    const ms = Math.min(Math.max(0, distraction.durationMs), remaining);
+    remaining -= ms;
+
+    const date = getLocalDateKey(distraction.atTs);
+    const day = totals.get(date) ?? createDailyTotal(date);
+    totals.set(date, day);
+
+    const key = distraction.category ?? NO_CATEGORY_KEY;
+    const entry = day.byDistraction[key] ?? { count: 0, ms: 0 };
+    day.distracted += ms * sign;
+    day.byDistraction[key] = { count: entry.count + sign, ms: entry.ms + ms * sign };
+  });
+};
+
+const pruneEmpty = (record: Record<string, number>): Record<string, number> => {
+  return Object.fromEntries(Object.entries(record).filter(([, ms]) => ms > 0));
+};
+
+const mergeDailyTotal = (stored: DailyTotal, delta: DailyTotal): DailyTotal => {
+  const byTopic = { ...stored.byTopic };
+  Object.entries(delta.byTopic).forEach(([key, ms]) => addTo(byTopic, key, ms));
+
+  const byDistraction = { ...stored.byDistraction };
+  Object.entries(delta.byDistraction).forEach(([key, { count, ms }]) => {
+    const entry = byDistraction[key] ?? { count: 0, ms: 0 };
+    byDistraction[key] = { count: entry.count + count, ms: entry.ms + ms };
+  });
+
+  return {
+    date: stored.date,
+    total: stored.total + delta.total,
+    byTopic: pruneEmpty(byTopic),
+    byHour: stored.byHour.map((ms, hour) => Math.max(0, ms + delta.byHour[hour])),
+    distracted: Math.max(0, stored.distracted + delta.distracted),
+    byDistraction: Object.fromEntries(Object.entries(byDistraction).filter(([, entry]) => entry.count > 0)),
+  };
+};
+
+// Queue rollup updates on a transaction that includes the dailyTotals store.
+// `removed` are the previous versions of changed segments, `added` the new ones.
+export const applyDailyDeltas = (tx: IDBTransaction, removed: Segment[], added: Segment[]): void => {
+  const deltas = new Map<string, DailyTotal>();
+  removed.forEach(seg => addSegmentToTotals(deltas, seg, -1));
+  added.forEach(seg => addSegmentToTotals(deltas, seg));
+  if (deltas.size === 0) return;
+
+  const store = tx.objectStore(DAILY_TOTALS_STORE);
+  deltas.forEach((delta, date) => {
+    const request = store.get(date);
+    request.onsuccess = () => {
+      const merged = mergeDailyTotal(request.result ?? createDailyTotal(date), delta);
+      if (merged.total > 0) {
+        store.put(merged);
+      } else {
+        store.delete(date);
+      }
+    };
+  });
+};
+
+// Recompute every day from raw segments within an existing transaction
+export const rebuildDailyTotalsInTransaction = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const totals = new Map<string, DailyTotal>();
+    const dailyStore = tx.objectStore(DAILY_TOTALS_STORE);
+    dailyStore.clear();
+
+    const request = tx.objectStore('segments').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        totals.forEach(day => dailyStore.put(day));
+        resolve();
+        return;
+      }
+      addSegmentToTotals(totals, cursor.value as Segment);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
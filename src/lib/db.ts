@@ -1,48 +1,150 @@
 // IndexedDB wrapper for segment-based time tracking
+import {
+  runMigrations,
+  promisifyRequest,
+  snapshotBeforeUpgrade,
+  readMigrationSnapshot,
+  deleteMigrationSnapshot,
+  LATEST_DB_VERSION,
+  FILE_HANDLE_STORE,
+  MigrationSnapshot,
+} from '@/lib/migrations';
+import {
+  DAILY_TOTALS_STORE,
+  DailyTotal,
+  applyDailyDeltas,
+  getLocalDateKey,
+  NO_TOPIC_KEY,
+  rebuildDailyTotalsInTransaction,
+} from '@/lib/dailyTotals';
+import { getProfileDbName, getProfileSnapshotDbName } from '@/lib/profiles';
+import { isEncryptedText, openText, sealText } from '@/lib/encryption';
+import {
+  SYNC_BASE_STORE,
+  SYNC_TOMBSTONE_STORE,
+  SYNCED_STORES,
+  SyncBaseEntry,
+  SyncTombstone,
+  SyncedStoreName,
+  deleteSyncedRecords,
+} from '@/lib/syncMeta';
+import { buildTopicTree, getChildTopics, getSubtreeIds } from '@/lib/topicTree';
+import { isValidTopicLink } from '@/lib/topicAppearance';
+import { getSegmentKind, isStudySegment } from '@/lib/segmentKinds';
 
-const DB_NAME = 'studywatch';
-const DB_VERSION = 1;
+// Each local profile has its own database
+const DB_NAME = getProfileDbName();
+const SNAPSHOT_DB_NAME = getProfileSnapshotDbName();
+const DB_VERSION = LATEST_DB_VERSION;
+
+// Where a time entry came from: the live timer, a retroactive manual entry
+// or a time log imported from another tracker
+export type EntrySource = 'timer' | 'manual' | 'import';
 
 export interface Session {
   id: string;
   startTs: number;
   endTs: number | null;
+  source: EntrySource;
+  tagIds?: string[]; // every tag used on the session's segments
+  reflection?: SessionReflection; // filled in after ending, when not skipped
+  updatedAt?: number; // last local write, read by sync
 }
 
-export interface Topic {
-  id: string;
-  name: string;
-  createdAt: number;
+// How a session went, rated by the user when it ends. Scales run 1 (worst) to 5.
+export interface SessionReflection {
+  focus: number;
+  mood: number | null;
+  energy: number | null;
+  accomplished: string;
+  nextStep: string;
+  recordedAt: number;
 }
 
-export interface Subtopic {
+export interface Topic {
   id: string;
-  topicId: string;
   name: string;
+  parentId: string | null; // null for a top-level topic
   createdAt: number;
+  archived: boolean; // hidden from selectors, still counted in analytics
+  color?: string; // CSS color; one is derived from the id when unset (see lib/topicAppearance)
+  emoji?: string;
+  description?: string;
+  link?: string; // course page, syllabus or similar
+  updatedAt?: number;
 }
 
 export interface Segment {
   id: string;
   sessionId: string;
-  topicId: string | null;
-  subtopicId: string | null;
+  topicId: string | null; // any topic in the tree, however deep
   startTs: number;
   endTs: number | null;
+  source: EntrySource;
+  heartbeatTs?: number; // last time the running timer was seen alive, open timer segments only
+  recovered?: boolean; // closed, kept or split after a gap in heartbeats
+  tagIds?: string[];
+  distractions?: Distraction[];
+  kind?: SegmentKind; // unset on study segments from before breaks were recorded
+  updatedAt?: number;
+}
+
+// Breaks and pauses are the gaps between stretches of study, written as closed
+// segments once the timer carries on (see lib/segmentKinds)
+export type SegmentKind = 'study' | 'break' | 'pause';
+
+export type DistractionCategory = 'phone' | 'chat' | 'noise' | 'hunger';
+
+// Marked while the timer runs. The duration is taken off the segment's time
+// for net focus; gross time still counts all of it.
+export interface Distraction {
+  id: string;
+  atTs: number;
+  category: DistractionCategory | null;
+  durationMs: number; // 0 when only marked
+}
+
+// Free-form labels that cut across topics, such as "exam-prep" or "reading"
+export interface Tag {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt?: number;
 }
 
+export type NoteKind = 'note' | 'task';
+
 export interface Note {
   id: string;
-  sessionId: string;
+  kind: NoteKind;
+  sessionId: string | null; // null when written outside a session
   topicId: string | null;
-  subtopicId: string | null;
   atTs: number;
   text: string;
+  completed: boolean; // tasks only
+  updatedAt?: number;
 }
 
 let dbInstance: IDBDatabase | null = null;
 
-export const initDB = (): Promise<IDBDatabase> => {
+// Taken once per page load, before the first open that may upgrade
+let snapshotTaken: Promise<void> | null = null;
+
+const takeSnapshotOnce = (): Promise<void> => {
+  snapshotTaken ??= snapshotBeforeUpgrade(DB_NAME, SNAPSHOT_DB_NAME, DB_VERSION).catch((error) => {
+    // The upgrade still rolls back on failure, so carry on without a copy
+    console.error('[db] Could not snapshot the database before upgrading:', error);
+  });
+  return snapshotTaken;
+};
+
+export const initDB = async (): Promise<IDBDatabase> => {
+  if (dbInstance) return dbInstance;
+  await takeSnapshotOnce();
+  return openDB();
+};
+
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     if (dbInstance) {
       resolve(dbInstance);
@@ -50,45 +152,66 @@ export const initDB = (): Promise<IDBDatabase> => {
     }
 
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migrationError: unknown = null;
+    let upgraded = false;
 
-    request.onerror = () => reject(request.error);
+    request.onerror = () => reject(migrationError ?? request.error);
     request.onsuccess = () => {
       dbInstance = request.result;
+      if (upgraded) {
+        deleteMigrationSnapshot(SNAPSHOT_DB_NAME).catch((error) => {
+          console.error('[db] Could not remove the migration snapshot:', error);
+        });
+      }
+      // Let a newer version in another tab upgrade the schema
+      dbInstance.onversionchange = () => {
+        dbInstance?.close();
+        dbInstance = null;
+      };
       resolve(dbInstance);
     };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-
-      // Sessions store
-      if (!db.objectStoreNames.contains('sessions')) {
-        db.createObjectStore('sessions', { keyPath: 'id' });
-      }
-
-      // Topics store
-      if (!db.objectStoreNames.contains('topics')) {
-        db.createObjectStore('topics', { keyPath: 'id' });
-      }
+      const db = request.result;
+      const tx = request.transaction!;
 
-      // Subtopics store
-      if (!db.objectStoreNames.contains('subtopics')) {
-        const subtopicStore = db.createObjectStore('subtopics', { keyPath: 'id' });
-        subtopicStore.createIndex('topicId', 'topicId', { unique: false });
-      }
+      runMigrations(db, tx, event.oldVersion, event.newVersion ?? DB_VERSION).then(() => {
+        upgraded = true;
+      }).catch((error) => {
+        migrationError = error;
+        tx.abort();
+      });
+    };
+  });
+};
 
-      // Segments store
-      if (!db.objectStoreNames.contains('segments')) {
-        const segmentStore = db.createObjectStore('segments', { keyPath: 'id' });
-        segmentStore.createIndex('sessionId', 'sessionId', { unique: false });
-        segmentStore.createIndex('topicId', 'topicId', { unique: false });
-      }
+// Pre-migration copy of every store, left behind by a schema upgrade that
+// failed. Successful upgrades remove it.
+export const getMigrationSnapshot = async (): Promise<MigrationSnapshot | null> => {
+  await takeSnapshotOnce();
+  return readMigrationSnapshot(SNAPSHOT_DB_NAME);
+};
 
-      // Notes store
-      if (!db.objectStoreNames.contains('notes')) {
-        const noteStore = db.createObjectStore('notes', { keyPath: 'id' });
-        noteStore.createIndex('sessionId', 'sessionId', { unique: false });
-      }
-    };
+// Approximate size of each store from the JSON length of its records.
+// Browsers only report usage for the whole origin.
+export const getStoreSizes = async (): Promise<Record<string, number>> => {
+  const db = await initDB();
+  const storeNames = Array.from(db.objectStoreNames);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames);
+    const sizes: Record<string, number> = {};
+    storeNames.forEach(name => {
+      sizes[name] = 0;
+      const request = tx.objectStore(name).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        sizes[name] += JSON.stringify(cursor.value).length;
+        cursor.continue();
+      };
+    });
+    tx.oncomplete = () => resolve(sizes);
+    tx.onerror = () => reject(tx.error);
   });
 };
 
@@ -100,16 +223,140 @@ const getStore = async (storeName: string, mode: IDBTransactionMode = 'readonly'
 
 const generateId = () => crypto.randomUUID();
 
+// Marks a record as locally changed for the next sync
+const stamp = <T extends object>(record: T): T => ({ ...record, updatedAt: Date.now() });
+
+const getRecord = async <T>(storeName: string, id: string): Promise<T | null> => {
+  const store = await getStore(storeName);
+  return new Promise((resolve, reject) => {
+    const request = store.get(id);
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run a batch of writes across several stores atomically
+const runTransaction = async (
+  storeNames: string[],
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readwrite');
+    work(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Trash - an undo journal. Every destructive edit stores the records it
+// touched in the same transaction, so it can be restored until purged.
+const TRASH_STORE = 'trash';
+
+export type TrashKind =
+  | 'sessionDelete'
+  | 'topicMerge'
+  | 'topicDelete'
+  | 'tagDelete'
+  | 'segmentEdit'
+  | 'repair';
+
+export interface TrashRecords {
+  sessions: Session[];
+  topics: Topic[];
+  segments: Segment[];
+  tags?: Tag[]; // absent from entries made before tags existed
+}
+
+export interface TrashEntry {
+  id: string;
+  kind: TrashKind;
+  label: string;
+  deletedAt: number;
+  before: TrashRecords; // records as they were, put back on restore
+  createdSegmentIds: string[]; // segments the edit added, removed on restore
+}
+
+const createTrashEntry = async (
+  kind: TrashKind,
+  label: string,
+  before: Partial<TrashRecords>,
+  createdSegmentIds: string[] = []
+): Promise<TrashEntry> => ({
+  id: generateId(),
+  kind,
+  label: await sealText(label),
+  deletedAt: Date.now(),
+  before: { sessions: [], topics: [], segments: [], tags: [], ...before },
+  createdSegmentIds,
+});
+
+// Free text covered by encryption at rest (see lib/encryption). Records are
+// sealed before a transaction opens, since awaiting WebCrypto inside one
+// would let it commit early, and opened after reading.
+type TextTransform = (value: string) => Promise<string>;
+
+// Topic descriptions and links are sealed along with the name
+const transformName = async <T extends { name: string; description?: string; link?: string }>(
+  record: T,
+  transform: TextTransform
+): Promise<T> => ({
+  ...record,
+  name: await transform(record.name),
+  ...(record.description ? { description: await transform(record.description) } : {}),
+  ...(record.link ? { link: await transform(record.link) } : {}),
+});
+
+const transformNote = async (note: Note, transform: TextTransform): Promise<Note> => ({
+  ...note,
+  text: await transform(note.text),
+});
+
+const transformReflection = async (
+  reflection: SessionReflection,
+  transform: TextTransform
+): Promise<SessionReflection> => ({
+  ...reflection,
+  accomplished: reflection.accomplished ? await transform(reflection.accomplished) : '',
+  nextStep: reflection.nextStep ? await transform(reflection.nextStep) : '',
+});
+
+const transformSession = async (session: Session, transform: TextTransform): Promise<Session> => {
+  if (!session.reflection) return session;
+  return { ...session, reflection: await transformReflection(session.reflection, transform) };
+};
+
+const transformTrashEntry = async (entry: TrashEntry, transform: TextTransform): Promise<TrashEntry> => ({
+  ...entry,
+  label: await transform(entry.label),
+  before: {
+    ...entry.before,
+    sessions: await Promise.all(entry.before.sessions.map(session => transformSession(session, transform))),
+    topics: await Promise.all(entry.before.topics.map(topic => transformName(topic, transform))),
+    tags: await Promise.all((entry.before.tags ?? []).map(tag => transformName(tag, transform))),
+  },
+});
+
+const openNames = <T extends { name: string }>(records: T[]): Promise<T[]> => {
+  return Promise.all(records.map(record => transformName(record, openText)));
+};
+
+const openNotes = (notes: Note[]): Promise<Note[]> => {
+  return Promise.all(notes.map(note => transformNote(note, openText)));
+};
+
 // Session helpers
 export const createSession = async (): Promise<Session> => {
   const session: Session = {
     id: generateId(),
     startTs: Date.now(),
     endTs: null,
+    source: 'timer',
   };
   const store = await getStore('sessions', 'readwrite');
   return new Promise((resolve, reject) => {
-    const request = store.add(session);
+    const request = store.add(stamp(session));
     request.onsuccess = () => resolve(session);
     request.onerror = () => reject(request.error);
   });
@@ -128,6 +375,39 @@ export const getUnclosedSession = async (): Promise<Session | null> => {
   });
 };
 
+export const getAllSessions = async (): Promise<Session[]> => {
+  const store = await getStore('sessions');
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Sessions with a reflection that started in the range, opened for display
+export const getReflectedSessions = async (from = 0, to = Date.now()): Promise<Session[]> => {
+  const sessions = await getAllSessions();
+  return Promise.all(sessions
+    .filter(session => session.reflection && session.startTs >= from && session.startTs < to)
+    .map(session => transformSession(session, openText)));
+};
+
+export const setSessionReflection = async (
+  id: string,
+  reflection: Omit<SessionReflection, 'recordedAt'>
+): Promise<Session> => {
+  if (reflection.focus < 1 || reflection.focus > 5) {
+    throw new Error('Rate your focus from 1 to 5');
+  }
+  const sealed = await transformReflection({
+    ...reflection,
+    accomplished: reflection.accomplished.trim(),
+    nextStep: reflection.nextStep.trim(),
+    recordedAt: Date.now(),
+  }, sealText);
+  return transformSession(await updateRecord<Session>('sessions', id, { reflection: sealed }), openText);
+};
+
 export const getOpenSegment = async (sessionId: string): Promise<Segment | null> => {
   const segments = await getSegmentsBySession(sessionId);
   const open = segments.find(s => !s.endTs);
@@ -142,6 +422,7 @@ export const endSession = async (id: string): Promise<void> => {
       const session = getRequest.result;
       if (session) {
         session.endTs = Date.now();
+        session.updatedAt = session.endTs;
         const putRequest = store.put(session);
         putRequest.onsuccess = () => resolve();
         putRequest.onerror = () => reject(putRequest.error);
@@ -153,22 +434,26 @@ export const endSession = async (id: string): Promise<void> => {
   });
 };
 
-// Topic helpers
-export const createTopic = async (name: string): Promise<Topic> => {
+// Topic helpers - topics form a tree through parentId (see lib/topicTree)
+export const createTopic = async (name: string, parentId: string | null = null): Promise<Topic> => {
   const topic: Topic = {
     id: generateId(),
     name,
+    parentId,
     createdAt: Date.now(),
+    archived: false,
   };
+  const sealed = await transformName(stamp(topic), sealText);
   const store = await getStore('topics', 'readwrite');
   return new Promise((resolve, reject) => {
-    const request = store.add(topic);
+    const request = store.add(sealed);
     request.onsuccess = () => resolve(topic);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const getAllTopics = async (): Promise<Topic[]> => {
+// As stored, for edits that write the records back
+const readAllTopics = async (): Promise<Topic[]> => {
   const store = await getStore('topics');
   return new Promise((resolve, reject) => {
     const request = store.getAll();
@@ -177,73 +462,470 @@ export const getAllTopics = async (): Promise<Topic[]> => {
   });
 };
 
-// Subtopic helpers
-export const createSubtopic = async (topicId: string, name: string): Promise<Subtopic> => {
-  const subtopic: Subtopic = {
+export const getAllTopics = async (): Promise<Topic[]> => {
+  return openNames(await readAllTopics());
+};
+
+// Name matching for imports and copies: siblings are told apart by name,
+// ignoring case
+const getTopicKey = (parentId: string | null, name: string): string => `${parentId ?? ''}:${name.toLowerCase()}`;
+
+// Topic lifecycle - rename, archive, merge and delete
+export type OrphanStrategy = 'cascade' | 'reassign';
+
+const updateRecord = async <T extends { id: string }>(
+  storeName: string,
+  id: string,
+  changes: Partial<T>
+): Promise<T> => {
+  const store = await getStore(storeName, 'readwrite');
+  return new Promise((resolve, reject) => {
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      if (!getRequest.result) {
+        reject(new Error('Record not found'));
+        return;
+      }
+      const updated = stamp({ ...getRequest.result, ...changes }) as T;
+      const putRequest = store.put(updated);
+      putRequest.onsuccess = () => resolve(updated);
+      putRequest.onerror = () => reject(putRequest.error);
+    };
+    getRequest.onerror = () => reject(getRequest.error);
+  });
+};
+
+const requireName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Name cannot be empty');
+  }
+  return trimmed;
+};
+
+export const renameTopic = async (id: string, name: string): Promise<Topic> => {
+  const sealed = await sealText(requireName(name));
+  return transformName(await updateRecord<Topic>('topics', id, { name: sealed }), openText);
+};
+
+export const setTopicArchived = async (id: string, archived: boolean): Promise<Topic> => {
+  return transformName(await updateRecord<Topic>('topics', id, { archived }), openText);
+};
+
+export type TopicDetails = Pick<Topic, 'color' | 'emoji' | 'description' | 'link'>;
+
+// Empty values clear a field. They are stored as '' rather than dropped, so
+// clearing one syncs like any other edit.
+export const updateTopicDetails = async (id: string, details: TopicDetails): Promise<Topic> => {
+  const description = details.description?.trim() ?? '';
+  const link = details.link?.trim() ?? '';
+  if (link && !isValidTopicLink(link)) {
+    throw new Error('The link must start with http:// or https://');
+  }
+  const changes: TopicDetails = {
+    color: details.color ?? '',
+    emoji: details.emoji?.trim() ?? '',
+    description: description ? await sealText(description) : '',
+    link: link ? await sealText(link) : '',
+  };
+  return transformName(await updateRecord<Topic>('topics', id, changes), openText);
+};
+
+// Move a topic, and everything below it, under another parent (null = top level)
+export const moveTopic = async (id: string, parentId: string | null): Promise<Topic> => {
+  if (parentId && getSubtreeIds(buildTopicTree(await readAllTopics()), id).has(parentId)) {
+    throw new Error('Cannot move a topic under itself');
+  }
+  return transformName(await updateRecord<Topic>('topics', id, { parentId }), openText);
+};
+
+export const getSegmentsByTopic = async (topicId: string): Promise<Segment[]> => {
+  const store = await getStore('segments');
+  const index = store.index('topicId');
+  return new Promise((resolve, reject) => {
+    const request = index.getAll(topicId);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Merge topic A into topic B: A's segments and sub-topics move to B, A is removed.
+// Returns the trash entry id that undoes the merge.
+export const mergeTopics = async (sourceId: string, targetId: string): Promise<string> => {
+  if (sourceId === targetId) {
+    throw new Error('Cannot merge a topic into itself');
+  }
+
+  const [topics, segments] = await Promise.all([readAllTopics(), getSegmentsByTopic(sourceId)]);
+  const tree = buildTopicTree(topics);
+  const source = tree.byId.get(sourceId);
+  const target = tree.byId.get(targetId);
+  if (!source || !target) {
+    throw new Error('Topic not found');
+  }
+  if (getSubtreeIds(tree, sourceId).has(targetId)) {
+    throw new Error('Cannot merge a topic into one of its own sub-topics');
+  }
+  // The timer keeps the topic id in memory and would write to a deleted topic
+  if (segments.some(seg => seg.endTs === null)) {
+    throw new Error('Stop the timer before merging the topic it is running on');
+  }
+  const [sourceName, targetName] = await Promise.all([openText(source.name), openText(target.name)]);
+
+  const children = getChildTopics(tree, sourceId);
+  const moved = segments.map(seg => stamp({ ...seg, topicId: targetId }));
+  const entry = await createTrashEntry(
+    'topicMerge',
+    `Merged "${sourceName}" into "${targetName}"`,
+    { topics: [source, ...children], segments }
+  );
+
+  const synced = ['topics', 'segments', DAILY_TOTALS_STORE, TRASH_STORE, SYNC_TOMBSTONE_STORE];
+  await runTransaction(synced, (tx) => {
+    tx.objectStore(TRASH_STORE).add(entry);
+    const segmentStore = tx.objectStore('segments');
+    moved.forEach(seg => segmentStore.put(seg));
+    applyDailyDeltas(tx, segments, moved);
+    const topicStore = tx.objectStore('topics');
+    children.forEach(child => topicStore.put(stamp({ ...child, parentId: targetId })));
+    deleteSyncedRecords(tx, 'topics', [sourceId]);
+  });
+  return entry.id;
+};
+
+// Delete a topic and everything below it. 'cascade' removes their segments too;
+// 'reassign' moves them to reassignTo (null = no topic). Returns the trash entry id.
+export const deleteTopic = async (
+  id: string,
+  strategy: OrphanStrategy,
+  reassignTo: string | null = null
+): Promise<string> => {
+  const tree = buildTopicTree(await readAllTopics());
+  const topic = tree.byId.get(id);
+  if (!topic) {
+    throw new Error('Topic not found');
+  }
+  const subtreeIds = getSubtreeIds(tree, id);
+  if (strategy === 'reassign' && reassignTo && subtreeIds.has(reassignTo)) {
+    throw new Error('Choose a topic outside the one being deleted');
+  }
+
+  const topics = Array.from(subtreeIds).map(topicId => tree.byId.get(topicId)!);
+  const segments = (await Promise.all(Array.from(subtreeIds).map(getSegmentsByTopic))).flat();
+  if (segments.some(seg => seg.endTs === null)) {
+    throw new Error('Stop the timer before deleting the topic it is running on');
+  }
+  const reassigned = strategy === 'cascade'
+    ? []
+    : segments.map(seg => stamp({ ...seg, topicId: reassignTo }));
+
+  const entry = await createTrashEntry(
+    'topicDelete',
+    `Deleted topic "${await openText(topic.name)}"`,
+    { topics, segments }
+  );
+
+  const synced = ['topics', 'segments', DAILY_TOTALS_STORE, TRASH_STORE, SYNC_TOMBSTONE_STORE];
+  await runTransaction(synced, (tx) => {
+    tx.objectStore(TRASH_STORE).add(entry);
+    if (strategy === 'cascade') {
+      deleteSyncedRecords(tx, 'segments', segments.map(seg => seg.id));
+    } else {
+      const segmentStore = tx.objectStore('segments');
+      reassigned.forEach(seg => segmentStore.put(seg));
+    }
+    applyDailyDeltas(tx, segments, reassigned);
+    deleteSyncedRecords(tx, 'topics', Array.from(subtreeIds));
+  });
+  return entry.id;
+};
+
+// Tag helpers - tags live on segments; a session lists every tag used on its
+// segments so it can be found by tag without reading them
+export const createTag = async (name: string): Promise<Tag> => {
+  const tag: Tag = {
     id: generateId(),
-    topicId,
-    name,
+    name: requireName(name),
     createdAt: Date.now(),
   };
-  const store = await getStore('subtopics', 'readwrite');
+  const sealed = await transformName(stamp(tag), sealText);
+  const store = await getStore('tags', 'readwrite');
   return new Promise((resolve, reject) => {
-    const request = store.add(subtopic);
-    request.onsuccess = () => resolve(subtopic);
+    const request = store.add(sealed);
+    request.onsuccess = () => resolve(tag);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const getSubtopicsByTopic = async (topicId: string): Promise<Subtopic[]> => {
-  const store = await getStore('subtopics');
-  const index = store.index('topicId');
+export const getAllTags = async (): Promise<Tag[]> => {
+  const store = await getStore('tags');
+  const tags = await new Promise<Tag[]>((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return openNames(tags);
+};
+
+export const renameTag = async (id: string, name: string): Promise<Tag> => {
+  const sealed = await sealText(requireName(name));
+  return transformName(await updateRecord<Tag>('tags', id, { name: sealed }), openText);
+};
+
+const getRecordsByTag = async <T>(storeName: 'sessions' | 'segments', tagId: string): Promise<T[]> => {
+  const store = await getStore(storeName);
   return new Promise((resolve, reject) => {
-    const request = index.getAll(topicId);
+    const request = store.index('tagIds').getAll(tagId);
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
+// Recompute a session's tags from its segments, after writes earlier in the
+// same transaction. The transaction must include sessions and segments.
+const refreshSessionTags = (tx: IDBTransaction, sessionId: string): void => {
+  const segmentsRequest = tx.objectStore('segments').index('sessionId').getAll(sessionId);
+  segmentsRequest.onsuccess = () => {
+    const segments = segmentsRequest.result as Segment[];
+    const tagIds = Array.from(new Set(segments.flatMap(seg => seg.tagIds ?? [])));
+    const sessionStore = tx.objectStore('sessions');
+    const sessionRequest = sessionStore.get(sessionId);
+    sessionRequest.onsuccess = () => {
+      const session: Session | undefined = sessionRequest.result;
+      if (!session) return;
+      const current = session.tagIds ?? [];
+      if (current.length === tagIds.length && tagIds.every(id => current.includes(id))) return;
+      sessionStore.put(stamp({ ...session, tagIds }));
+    };
+  };
+};
+
+// Replace the tags on a segment, running or closed
+export const setSegmentTags = async (id: string, tagIds: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(['segments', 'sessions'], 'readwrite');
+    const store = tx.objectStore('segments');
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      const segment: Segment | undefined = getRequest.result;
+      if (!segment) return;
+      store.put(stamp({ ...segment, tagIds }));
+      refreshSessionTags(tx, segment.sessionId);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Delete a tag and take it off every segment and session. Recorded time is
+// untouched. Returns the trash entry id.
+export const deleteTag = async (id: string): Promise<string> => {
+  const [tag, segments, sessions] = await Promise.all([
+    getRecord<Tag>('tags', id),
+    getRecordsByTag<Segment>('segments', id),
+    getRecordsByTag<Session>('sessions', id),
+  ]);
+  if (!tag) {
+    throw new Error('Tag not found');
+  }
+
+  const entry = await createTrashEntry(
+    'tagDelete',
+    `Deleted tag "${await openText(tag.name)}"`,
+    { tags: [tag], segments, sessions }
+  );
+  const untag = <T extends { tagIds?: string[] }>(record: T): T =>
+    stamp({ ...record, tagIds: (record.tagIds ?? []).filter(tagId => tagId !== id) });
+
+  await runTransaction(['tags', 'segments', 'sessions', TRASH_STORE, SYNC_TOMBSTONE_STORE], (tx) => {
+    tx.objectStore(TRASH_STORE).add(entry);
+    const segmentStore = tx.objectStore('segments');
+    segments.forEach(seg => segmentStore.put(untag(seg)));
+    const sessionStore = tx.objectStore('sessions');
+    sessions.forEach(session => sessionStore.put(untag(session)));
+    deleteSyncedRecords(tx, 'tags', [id]);
+  });
+  return entry.id;
+};
+
 // Segment helpers - CRITICAL for accurate time tracking
 export const openSegment = async (
   sessionId: string,
   topicId: string | null,
-  subtopicId: string | null
+  tagIds: string[] = []
 ): Promise<Segment> => {
+  const now = Date.now();
   const segment: Segment = {
     id: generateId(),
     sessionId,
     topicId,
-    subtopicId,
-    startTs: Date.now(),
+    startTs: now,
     endTs: null,
+    source: 'timer',
+    heartbeatTs: now,
+    tagIds,
+    updatedAt: now,
   };
-  const store = await getStore('segments', 'readwrite');
+  await runTransaction(['segments', 'sessions'], (tx) => {
+    tx.objectStore('segments').add(segment);
+    if (tagIds.length > 0) refreshSessionTags(tx, sessionId);
+  });
+  return segment;
+};
+
+export interface CloseSegmentOptions {
+  endTs?: number; // defaults to now; recovery closes at the last heartbeat
+  recovered?: boolean;
+}
+
+// Closing a segment also adds its time to the daily rollup in the same transaction
+export const closeSegment = async (id: string, options: CloseSegmentOptions = {}): Promise<void> => {
+  const db = await initDB();
   return new Promise((resolve, reject) => {
-    const request = store.add(segment);
-    request.onsuccess = () => resolve(segment);
-    request.onerror = () => reject(request.error);
+    const tx = db.transaction(['segments', DAILY_TOTALS_STORE], 'readwrite');
+    const store = tx.objectStore('segments');
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      const segment: Segment | undefined = getRequest.result;
+      if (segment && !segment.endTs) {
+        segment.endTs = Math.max(segment.startTs, options.endTs ?? Date.now());
+        delete segment.heartbeatTs;
+        if (options.recovered) segment.recovered = true;
+        segment.updatedAt = Date.now();
+        store.put(segment);
+        applyDailyDeltas(tx, [], [segment]);
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
   });
 };
 
-export const closeSegment = async (id: string): Promise<void> => {
+// Record that the timer is still alive; a later recovery trusts time up to here.
+// Heartbeats are local to this device, so they do not count as a change to sync.
+export const recordHeartbeat = async (id: string, ts: number = Date.now()): Promise<void> => {
   const store = await getStore('segments', 'readwrite');
   return new Promise((resolve, reject) => {
     const getRequest = store.get(id);
     getRequest.onsuccess = () => {
-      const segment = getRequest.result;
-      if (segment && !segment.endTs) {
-        segment.endTs = Date.now();
-        const putRequest = store.put(segment);
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      } else {
+      const segment: Segment | undefined = getRequest.result;
+      if (!segment || segment.endTs) {
         resolve();
+        return;
       }
+      const putRequest = store.put({ ...segment, heartbeatTs: ts });
+      putRequest.onsuccess = () => resolve();
+      putRequest.onerror = () => reject(putRequest.error);
     };
     getRequest.onerror = () => reject(getRequest.error);
   });
 };
 
+// Keep counting an open segment across a heartbeat gap, flagged for analytics
+export const keepRecoveredSegment = (id: string): Promise<Segment> => {
+  return updateRecord<Segment>('segments', id, { recovered: true, heartbeatTs: Date.now() });
+};
+
+// Undo an idle auto-pause: the segment runs on as if it had never closed
+export const reopenSegment = async (id: string): Promise<void> => {
+  const segment = await getRecord<Segment>('segments', id);
+  if (!segment || segment.endTs === null) return;
+
+  const [session, siblings] = await Promise.all([
+    getRecord<Session>('sessions', segment.sessionId),
+    getSegmentsBySession(segment.sessionId),
+  ]);
+  if (!session || session.endTs !== null) {
+    throw new Error('That session has already ended');
+  }
+  if (siblings.some(seg => seg.endTs === null || seg.startTs > segment.startTs)) {
+    throw new Error('The session has moved on since this segment was paused');
+  }
+
+  const reopened: Segment = stamp({ ...segment, endTs: null, heartbeatTs: Date.now() });
+  await runTransaction(['segments', DAILY_TOTALS_STORE], (tx) => {
+    tx.objectStore('segments').put(reopened);
+    applyDailyDeltas(tx, [segment], []);
+  });
+};
+
+// Distractions - stored on the segment they happened in
+export const logDistraction = async (sessionId: string): Promise<{ segmentId: string; distraction: Distraction }> => {
+  const distraction: Distraction = { id: generateId(), atTs: Date.now(), category: null, durationMs: 0 };
+  let segmentId: string | null = null;
+  await runTransaction(['segments'], (tx) => {
+    const store = tx.objectStore('segments');
+    const request = store.index('sessionId').getAll(sessionId);
+    request.onsuccess = () => {
+      const open = (request.result as Segment[]).find(seg => seg.endTs === null);
+      if (!open) return;
+      segmentId = open.id;
+      store.put(stamp({ ...open, distractions: [...(open.distractions ?? []), distraction] }));
+    };
+  });
+  if (!segmentId) {
+    throw new Error('Start the timer to log a distraction');
+  }
+  return { segmentId, distraction };
+};
+
+const updateDistractions = async (
+  segmentId: string,
+  update: (distractions: Distraction[]) => Distraction[]
+): Promise<void> => {
+  await runTransaction(['segments', DAILY_TOTALS_STORE], (tx) => {
+    const store = tx.objectStore('segments');
+    const request = store.get(segmentId);
+    request.onsuccess = () => {
+      const segment: Segment | undefined = request.result;
+      if (!segment) return;
+      const updated = stamp({ ...segment, distractions: update(segment.distractions ?? []) });
+      store.put(updated);
+      applyDailyDeltas(tx, [segment], [updated]);
+    };
+  });
+};
+
+export const updateDistraction = (
+  segmentId: string,
+  distractionId: string,
+  changes: Partial<Pick<Distraction, 'category' | 'durationMs'>>
+): Promise<void> => {
+  const durationMs = changes.durationMs === undefined ? {} : { durationMs: Math.max(0, changes.durationMs) };
+  return updateDistractions(segmentId, distractions => distractions.map(distraction =>
+    distraction.id === distractionId ? { ...distraction, ...changes, ...durationMs } : distraction
+  ));
+};
+
+export const removeDistraction = (segmentId: string, distractionId: string): Promise<void> => {
+  return updateDistractions(segmentId, distractions => distractions.filter(d => d.id !== distractionId));
+};
+
+// Record the time since the session's last segment ended as a break or a
+// pause. Does nothing while a segment is still open.
+export const recordGap = async (
+  sessionId: string,
+  kind: Exclude<SegmentKind, 'study'>,
+  endTs: number = Date.now()
+): Promise<void> => {
+  await runTransaction(['segments', DAILY_TOTALS_STORE], (tx) => {
+    const store = tx.objectStore('segments');
+    const request = store.index('sessionId').getAll(sessionId);
+    request.onsuccess = () => {
+      const segments = request.result as Segment[];
+      if (segments.length === 0 || segments.some(seg => seg.endTs === null)) return;
+      const startTs = segments.reduce((latest, seg) => Math.max(latest, seg.endTs!), 0);
+      if (endTs <= startTs) return;
+      const gap: Segment = { id: generateId(), sessionId, topicId: null, startTs, endTs, source: 'timer', kind };
+      store.add(stamp(gap));
+      applyDailyDeltas(tx, [], [gap]);
+    };
+  });
+};
+
 export const getSegmentsBySession = async (sessionId: string): Promise<Segment[]> => {
   const store = await getStore('segments');
   const index = store.index('sessionId');
@@ -263,6 +945,694 @@ export const getAllSegments = async (): Promise<Segment[]> => {
   });
 };
 
+const getSegmentsFromIndex = async (indexName: string, range: IDBKeyRange): Promise<Segment[]> => {
+  const store = await getStore('segments');
+  const index = store.index(indexName);
+  return new Promise((resolve, reject) => {
+    const request = index.getAll(range);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Segments overlapping [from, to), including ones that started before `from`
+// or are still running. Pass topicId to restrict the query to one topic.
+export const getSegmentsInRange = async (
+  from: number,
+  to: number,
+  topicId?: string
+): Promise<Segment[]> => {
+  if (to <= from) return [];
+
+  const [startingInside, endingAfterFrom, runningSegments] = await Promise.all([
+    topicId
+      ? getSegmentsFromIndex('topicId_startTs', IDBKeyRange.bound([topicId, from], [topicId, to], false, true))
+      : getSegmentsFromIndex('startTs', IDBKeyRange.bound(from, to, false, true)),
+    // Open segments have a null endTs and are absent from this index...
+    getSegmentsFromIndex('endTs', IDBKeyRange.lowerBound(from, true)),
+    // ...but every one of them carries a heartbeat
+    getSegmentsFromIndex('heartbeatTs', IDBKeyRange.lowerBound(-Infinity)),
+  ]);
+
+  const openSegments = runningSegments.filter(seg => seg.endTs === null);
+
+  const crossingFrom = [...endingAfterFrom, ...openSegments].filter(
+    seg => seg.startTs < from && (!topicId || seg.topicId === topicId)
+  );
+
+  return [...startingInside, ...crossingFrom];
+};
+
+// Sum closed study time per topic (null = no topic) with a cursor, so
+// all-time totals don't have to load every segment into memory at once
+export const getClosedTimeByTopic = async (
+  includeSegment: (segment: Segment) => boolean = () => true
+): Promise<Map<string | null, number>> => {
+  const store = await getStore('segments');
+  return new Promise((resolve, reject) => {
+    const totals = new Map<string | null, number>();
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(totals);
+        return;
+      }
+      const seg = cursor.value as Segment;
+      if (seg.endTs && isStudySegment(seg) && includeSegment(seg)) {
+        totals.set(seg.topicId, (totals.get(seg.topicId) || 0) + (seg.endTs - seg.startTs));
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Daily rollups - per-day totals of closed segments, keyed by local date
+export type { DailyTotal } from '@/lib/dailyTotals';
+export { NO_TOPIC_KEY, NO_CATEGORY_KEY, getLocalDateKey } from '@/lib/dailyTotals';
+
+// Daily totals for the local dates touching [from, to], oldest first
+export const getDailyTotals = async (from = 0, to = Date.now()): Promise<DailyTotal[]> => {
+  const store = await getStore(DAILY_TOTALS_STORE);
+  return new Promise((resolve, reject) => {
+    const request = store.getAll(IDBKeyRange.bound(getLocalDateKey(from), getLocalDateKey(to)));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// All-time closed study time per topic (null = no topic), summed from the
+// rollup - one record per day studied instead of one per segment
+export const getTotalTimeByTopic = async (): Promise<Map<string | null, number>> => {
+  const totals = new Map<string | null, number>();
+  (await getDailyTotals()).forEach(day => {
+    Object.entries(day.byTopic).forEach(([key, ms]) => {
+      const topicId = key === NO_TOPIC_KEY ? null : key;
+      totals.set(topicId, (totals.get(topicId) || 0) + ms);
+    });
+  });
+  return totals;
+};
+
+// Recompute the whole rollup from raw segments
+export const rebuildDailyTotals = async (): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(['segments', DAILY_TOTALS_STORE], 'readwrite');
+  await rebuildDailyTotalsInTransaction(tx);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Portion of a segment that falls inside [from, to)
+export const getOverlapDuration = (
+  segment: Segment,
+  from: number,
+  to: number,
+  now: number = Date.now()
+): number => {
+  const end = Math.min(segment.endTs ?? now, to);
+  const start = Math.max(segment.startTs, from);
+  return Math.max(0, end - start);
+};
+
+export const getSegment = async (id: string): Promise<Segment | null> => {
+  const store = await getStore('segments');
+  return new Promise((resolve, reject) => {
+    const request = store.get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Segment editing - every edit keeps segments within a session non-overlapping
+// and returns the id of the trash entry that undoes it
+export type SegmentChanges = Partial<Pick<Segment, 'startTs' | 'endTs' | 'topicId'>>;
+
+const segmentsOverlap = (a: Segment, b: Segment): boolean => {
+  const aEnd = a.endTs ?? Infinity;
+  const bEnd = b.endTs ?? Infinity;
+  return a.startTs < bEnd && b.startTs < aEnd;
+};
+
+const assertNoOverlap = (
+  candidates: Segment[],
+  siblings: Segment[],
+  overlapMessage = 'Segment would overlap another segment in this session'
+): void => {
+  const candidateIds = new Set(candidates.map(c => c.id));
+  for (const candidate of candidates) {
+    // NaN slips past every comparison below, so catch it first
+    if (!Number.isFinite(candidate.startTs) || (candidate.endTs !== null && !Number.isFinite(candidate.endTs))) {
+      throw new Error('Segment needs a valid start and end time');
+    }
+    if (candidate.endTs !== null && candidate.endTs <= candidate.startTs) {
+      throw new Error('Segment must end after it starts');
+    }
+    const clash = siblings.find(
+      other => !candidateIds.has(other.id) && segmentsOverlap(candidate, other)
+    );
+    if (clash) {
+      throw new Error(overlapMessage);
+    }
+  }
+};
+
+const requireClosedSegment = async (id: string): Promise<Segment> => {
+  const segment = await getSegment(id);
+  if (!segment) {
+    throw new Error('Segment not found');
+  }
+  if (segment.endTs === null) {
+    throw new Error('Cannot edit a segment that is still running');
+  }
+  return segment;
+};
+
+// Replace the previous versions of some segments with new ones in a single
+// transaction. Removed segments without a replacement are deleted. Returns
+// the trash entry id that undoes the edit.
+const writeSegments = async (removed: Segment[], added: Segment[], label: string): Promise<string> => {
+  const keptIds = new Set(added.map(seg => seg.id));
+  const removedIds = new Set(removed.map(seg => seg.id));
+  const entry = await createTrashEntry(
+    'segmentEdit',
+    label,
+    { segments: removed },
+    added.filter(seg => !removedIds.has(seg.id)).map(seg => seg.id)
+  );
+
+  const sessionIds = new Set([...removed, ...added].map(seg => seg.sessionId));
+  const stores = ['segments', 'sessions', DAILY_TOTALS_STORE, TRASH_STORE, SYNC_TOMBSTONE_STORE];
+  await runTransaction(stores, (tx) => {
+    tx.objectStore(TRASH_STORE).add(entry);
+    const store = tx.objectStore('segments');
+    added.forEach(seg => store.put(stamp(seg)));
+    deleteSyncedRecords(tx, 'segments', removed.filter(seg => !keptIds.has(seg.id)).map(seg => seg.id));
+    applyDailyDeltas(tx, removed, added);
+    sessionIds.forEach(sessionId => refreshSessionTags(tx, sessionId));
+  });
+  return entry.id;
+};
+
+// Break and pause segments give way to study time stretched over them: the
+// ones it covers are removed and the ones it partly covers are trimmed. Returns
+// the gaps to replace and their trimmed versions, for writeSegments.
+const absorbGaps = (span: Segment, siblings: Segment[]): { removed: Segment[]; trimmed: Segment[] } => {
+  if (!isStudySegment(span) || span.endTs === null) return { removed: [], trimmed: [] };
+  const removed = siblings.filter(
+    seg => seg.id !== span.id && !isStudySegment(seg) && seg.endTs !== null && segmentsOverlap(span, seg)
+  );
+  const trimmed = removed.flatMap((gap): Segment[] => {
+    if (gap.startTs < span.startTs) return [{ ...gap, endTs: span.startTs }];
+    if (gap.endTs! > span.endTs!) return [{ ...gap, startTs: span.endTs! }];
+    return [];
+  });
+  return { removed, trimmed };
+};
+
+// Siblings as they will be once the gaps are absorbed
+const withoutGaps = (siblings: Segment[], gaps: { removed: Segment[]; trimmed: Segment[] }): Segment[] => {
+  const removedIds = new Set(gaps.removed.map(seg => seg.id));
+  return [...siblings.filter(seg => !removedIds.has(seg.id)), ...gaps.trimmed];
+};
+
+export const updateSegment = async (id: string, changes: SegmentChanges): Promise<string> => {
+  const segment = await requireClosedSegment(id);
+  const updated: Segment = { ...segment, ...changes };
+  if (updated.endTs === null) {
+    throw new Error('A closed segment cannot be reopened');
+  }
+  if (updated.endTs > Date.now()) {
+    throw new Error('Segments cannot end in the future');
+  }
+
+  const siblings = await getSegmentsBySession(segment.sessionId);
+  const gaps = absorbGaps(updated, siblings);
+  assertNoOverlap([updated], withoutGaps(siblings, gaps));
+  return writeSegments([segment, ...gaps.removed], [updated, ...gaps.trimmed], 'Edited a segment');
+};
+
+export const reassignSegment = (id: string, topicId: string | null): Promise<string> => {
+  return updateSegment(id, { topicId });
+};
+
+// Split distractions at atTs; one still running at atTs is clipped into both
+const splitDistractions = (distractions: Distraction[], atTs: number): [Distraction[], Distraction[]] => {
+  const before: Distraction[] = [];
+  const after: Distraction[] = [];
+  distractions.forEach(distraction => {
+    const endTs = distraction.atTs + distraction.durationMs;
+    if (distraction.atTs >= atTs) {
+      after.push(distraction);
+    } else if (endTs <= atTs) {
+      before.push(distraction);
+    } else {
+      before.push({ ...distraction, durationMs: atTs - distraction.atTs });
+      after.push({ ...distraction, id: generateId(), atTs, durationMs: endTs - atTs });
+    }
+  });
+  return [before, after];
+};
+
+// Split a closed segment in two at atTs. Both halves keep the original topic;
+// distractions go to the half they were logged in.
+export const splitSegment = async (id: string, atTs: number): Promise<string> => {
+  const segment = await requireClosedSegment(id);
+  if (!Number.isFinite(atTs) || atTs <= segment.startTs || atTs >= segment.endTs!) {
+    throw new Error('Split point must fall inside the segment');
+  }
+
+  const [before, after] = splitDistractions(segment.distractions ?? [], atTs);
+  const first: Segment = { ...segment, endTs: atTs, distractions: before };
+  const second: Segment = { ...segment, id: generateId(), startTs: atTs, distractions: after };
+  return writeSegments([segment], [first, second], 'Split a segment');
+};
+
+// Merge closed segments from one session into a single segment spanning all
+// of them, absorbing any breaks and pauses in between. The merged segment
+// keeps the earliest segment's id and topic, and every segment's tags and
+// distractions.
+export const mergeSegments = async (ids: string[]): Promise<string> => {
+  if (ids.length < 2) {
+    throw new Error('Select at least two segments to merge');
+  }
+
+  const segments = await Promise.all(ids.map(requireClosedSegment));
+  const sessionId = segments[0].sessionId;
+  if (segments.some(seg => seg.sessionId !== sessionId)) {
+    throw new Error('Only segments from the same session can be merged');
+  }
+  if (segments.some(seg => getSegmentKind(seg) !== getSegmentKind(segments[0]))) {
+    throw new Error('Study time cannot be merged with breaks or pauses');
+  }
+
+  segments.sort((a, b) => a.startTs - b.startTs);
+  const [first, ...rest] = segments;
+  const merged: Segment = {
+    ...first,
+    startTs: first.startTs,
+    endTs: Math.max(...segments.map(seg => seg.endTs!)),
+    tagIds: Array.from(new Set(segments.flatMap(seg => seg.tagIds ?? []))),
+    distractions: segments.flatMap(seg => seg.distractions ?? []).sort((a, b) => a.atTs - b.atTs),
+  };
+
+  const siblings = await getSegmentsBySession(sessionId);
+  const restIds = new Set(rest.map(seg => seg.id));
+  const gaps = absorbGaps(merged, siblings);
+  assertNoOverlap([merged], withoutGaps(siblings, gaps).filter(seg => !restIds.has(seg.id)));
+  return writeSegments([...segments, ...gaps.removed], [merged, ...gaps.trimmed], `Merged ${segments.length} segments`);
+};
+
+// Integrity repairs - replace `before` with `after` in one journaled
+// transaction. Records in `before` that are missing from `after` are deleted.
+export interface RepairRecords {
+  sessions: Session[];
+  segments: Segment[];
+}
+
+export const applyRepair = async (label: string, before: RepairRecords, after: RepairRecords): Promise<string> => {
+  const beforeIds = new Set(before.segments.map(seg => seg.id));
+  const afterSegmentIds = new Set(after.segments.map(seg => seg.id));
+  const afterSessionIds = new Set(after.sessions.map(session => session.id));
+  const entry = await createTrashEntry(
+    'repair',
+    label,
+    before,
+    after.segments.filter(seg => !beforeIds.has(seg.id)).map(seg => seg.id)
+  );
+
+  await runTransaction(['sessions', 'segments', DAILY_TOTALS_STORE, TRASH_STORE, SYNC_TOMBSTONE_STORE], (tx) => {
+    tx.objectStore(TRASH_STORE).add(entry);
+    const removedSessions = before.sessions.filter(session => !afterSessionIds.has(session.id));
+    deleteSyncedRecords(tx, 'sessions', removedSessions.map(session => session.id));
+    const sessionStore = tx.objectStore('sessions');
+    after.sessions.forEach(session => sessionStore.put(stamp(session)));
+    const removedSegments = before.segments.filter(seg => !afterSegmentIds.has(seg.id));
+    deleteSyncedRecords(tx, 'segments', removedSegments.map(seg => seg.id));
+    const segmentStore = tx.objectStore('segments');
+    after.segments.forEach(seg => segmentStore.put(stamp(seg)));
+    applyDailyDeltas(tx, before.segments, after.segments);
+  });
+  return entry.id;
+};
+
+// Manual entries - completed sessions logged after the fact
+export interface ManualSegmentInput {
+  topicId: string | null;
+  startTs: number;
+  endTs: number;
+}
+
+export const createManualSession = async (
+  startTs: number,
+  endTs: number,
+  entries: ManualSegmentInput[]
+): Promise<Session> => {
+  if (!Number.isFinite(startTs) || !Number.isFinite(endTs)) {
+    throw new Error('Session needs a valid start and end time');
+  }
+  if (endTs <= startTs) {
+    throw new Error('Session must end after it starts');
+  }
+  if (endTs > Date.now()) {
+    throw new Error('Manual entries cannot end in the future');
+  }
+  if (entries.length === 0) {
+    throw new Error('Add at least one segment');
+  }
+
+  const session: Session = {
+    id: generateId(),
+    startTs,
+    endTs,
+    source: 'manual',
+  };
+  const segments: Segment[] = entries.map(entry => ({
+    id: generateId(),
+    sessionId: session.id,
+    topicId: entry.topicId,
+    startTs: entry.startTs,
+    endTs: entry.endTs,
+    source: 'manual',
+  }));
+
+  if (segments.some(seg => seg.startTs < startTs || seg.endTs! > endTs)) {
+    throw new Error('Segments must fall within the session');
+  }
+
+  // Only time near the entry can clash with it
+  const existing = await getSegmentsInRange(startTs, endTs);
+  for (const segment of segments) {
+    assertNoOverlap(
+      [segment],
+      [...existing, ...segments],
+      'This entry overlaps time that is already recorded'
+    );
+  }
+
+  await runTransaction(['sessions', 'segments', DAILY_TOTALS_STORE], (tx) => {
+    tx.objectStore('sessions').add(stamp(session));
+    const segmentStore = tx.objectStore('segments');
+    segments.forEach(seg => segmentStore.add(stamp(seg)));
+    applyDailyDeltas(tx, [], segments);
+  });
+  return session;
+};
+
+// Imported time logs - topics are matched by name (case insensitive) along
+// their path and created when missing
+export interface ImportedSegmentInput {
+  topicPath: string[]; // from the top-level topic down, empty for no topic
+  startTs: number;
+  endTs: number;
+}
+
+export interface ImportedSessionInput {
+  startTs: number;
+  endTs: number;
+  segments: ImportedSegmentInput[];
+}
+
+export const importSessions = async (inputs: ImportedSessionInput[]): Promise<number> => {
+  const topics = await getAllTopics();
+  const now = Date.now();
+  const topicsByKey = new Map(topics.map(t => [getTopicKey(t.parentId, t.name), t]));
+  const newTopics: Topic[] = [];
+
+  const resolveTopic = (parentId: string | null, name: string): Topic => {
+    const key = getTopicKey(parentId, name);
+    let topic = topicsByKey.get(key);
+    if (!topic) {
+      topic = { id: generateId(), name, parentId, createdAt: now, archived: false };
+      topicsByKey.set(key, topic);
+      newTopics.push(topic);
+    }
+    return topic;
+  };
+
+  const resolvePath = (path: string[]): string | null => {
+    return path.reduce<string | null>((parentId, name) => resolveTopic(parentId, name).id, null);
+  };
+
+  const sessions: Session[] = [];
+  const segments: Segment[] = [];
+  inputs.forEach(input => {
+    const session: Session = {
+      id: generateId(),
+      startTs: input.startTs,
+      endTs: input.endTs,
+      source: 'import',
+    };
+    sessions.push(session);
+    input.segments.forEach(entry => {
+      segments.push({
+        id: generateId(),
+        sessionId: session.id,
+        topicId: resolvePath(entry.topicPath),
+        startTs: entry.startTs,
+        endTs: entry.endTs,
+        source: 'import',
+      });
+    });
+  });
+
+  const sealedTopics = await Promise.all(newTopics.map(topic => transformName(stamp(topic), sealText)));
+  await runTransaction(['sessions', 'segments', 'topics', DAILY_TOTALS_STORE], (tx) => {
+    const topicStore = tx.objectStore('topics');
+    sealedTopics.forEach(topic => topicStore.add(topic));
+    const sessionStore = tx.objectStore('sessions');
+    sessions.forEach(session => sessionStore.add(stamp(session)));
+    const segmentStore = tx.objectStore('segments');
+    segments.forEach(seg => segmentStore.add(stamp(seg)));
+    applyDailyDeltas(tx, [], segments);
+  });
+  return segments.length;
+};
+
+// Topics from another profile's database. Never creates or upgrades it: a
+// database that does not exist yet has no topics. One that has not been
+// opened since topics became a tree still keeps sub-topics in their own store.
+const readProfileTopics = (dbName: string): Promise<Topic[]> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName);
+    let isMissing = false;
+    request.onupgradeneeded = () => {
+      isMissing = true;
+      request.transaction!.abort();
+    };
+    request.onerror = () => {
+      if (isMissing) {
+        resolve([]);
+      } else {
+        reject(request.error);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      const hasSubtopics = db.objectStoreNames.contains('subtopics');
+      const tx = db.transaction(hasSubtopics ? ['topics', 'subtopics'] : ['topics']);
+      const topicsRequest = tx.objectStore('topics').getAll();
+      const subtopicsRequest = hasSubtopics ? tx.objectStore('subtopics').getAll() : null;
+      tx.oncomplete = () => {
+        db.close();
+        const topics: Topic[] = topicsRequest.result.map(topic => ({ ...topic, parentId: topic.parentId ?? null }));
+        const subtopics: Topic[] = (subtopicsRequest?.result ?? []).map(({ topicId, ...sub }) => ({ ...sub, parentId: topicId }));
+        resolve([...topics, ...subtopics]);
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(tx.error);
+      };
+    };
+  });
+};
+
+// Add another profile's topics, matched by name along their path, without
+// any of its time. Returns how many topics were created.
+export const copyTopicsFromProfile = async (dbName: string): Promise<number> => {
+  const source = await readProfileTopics(dbName);
+  // Encrypted with that profile's key, which this one does not have
+  if (source.some(record => isEncryptedText(record.name))) {
+    throw new Error('That profile is encrypted; its topics cannot be copied');
+  }
+  const topics = await getAllTopics();
+  const now = Date.now();
+  const topicsByKey = new Map(topics.map(t => [getTopicKey(t.parentId, t.name), t]));
+  const sourceTree = buildTopicTree(source);
+  const newTopics: Topic[] = [];
+
+  // Parents before children, so each child is matched under its copied parent
+  const copyTopic = (sourceTopic: Topic, parentId: string | null) => {
+    const key = getTopicKey(parentId, sourceTopic.name);
+    const existing = topicsByKey.get(key);
+    const topic = existing ?? { ...sourceTopic, id: generateId(), parentId, createdAt: now, updatedAt: now };
+    if (!existing) {
+      topicsByKey.set(key, topic);
+      newTopics.push(topic);
+    }
+    getChildTopics(sourceTree, sourceTopic.id).forEach(child => copyTopic(child, topic.id));
+  };
+  getChildTopics(sourceTree, null).forEach(root => copyTopic(root, null));
+
+  if (newTopics.length === 0) return 0;
+  const sealedTopics = await Promise.all(newTopics.map(topic => transformName(topic, sealText)));
+  await runTransaction(['topics'], (tx) => {
+    const topicStore = tx.objectStore('topics');
+    sealedTopics.forEach(topic => topicStore.add(topic));
+  });
+  return newTopics.length;
+};
+
+// Notes and tasks - stamped with the session and topic being studied
+export interface NoteContext {
+  sessionId: string | null;
+  topicId: string | null;
+}
+
+export const createNote = async (kind: NoteKind, text: string, context: NoteContext): Promise<Note> => {
+  const note: Note = {
+    id: generateId(),
+    kind,
+    sessionId: context.sessionId,
+    topicId: context.topicId,
+    atTs: Date.now(),
+    text,
+    completed: false,
+  };
+  const sealed = await transformNote(stamp(note), sealText);
+  const store = await getStore('notes', 'readwrite');
+  return new Promise((resolve, reject) => {
+    const request = store.add(sealed);
+    request.onsuccess = () => resolve(note);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// All notes or tasks, newest first
+export const getNotesByKind = async (kind: NoteKind): Promise<Note[]> => {
+  const store = await getStore('notes');
+  const notes = await new Promise<Note[]>((resolve, reject) => {
+    const request = store.index('kind').getAll(kind);
+    request.onsuccess = () => resolve((request.result as Note[]).sort((a, b) => b.atTs - a.atTs));
+    request.onerror = () => reject(request.error);
+  });
+  return openNotes(notes);
+};
+
+// Notes and tasks written in [from, to), oldest first
+export const getNotesInRange = async (from: number, to: number): Promise<Note[]> => {
+  if (to <= from) return [];
+  const store = await getStore('notes');
+  const notes = await new Promise<Note[]>((resolve, reject) => {
+    const request = store.index('atTs').getAll(IDBKeyRange.bound(from, to, false, true));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return openNotes(notes);
+};
+
+export const getNotesBySession = async (sessionId: string): Promise<Note[]> => {
+  const store = await getStore('notes');
+  const notes = await new Promise<Note[]>((resolve, reject) => {
+    const request = store.index('sessionId').getAll(sessionId);
+    request.onsuccess = () => resolve((request.result as Note[]).sort((a, b) => a.atTs - b.atTs));
+    request.onerror = () => reject(request.error);
+  });
+  return openNotes(notes);
+};
+
+export const setNoteCompleted = async (id: string, completed: boolean): Promise<Note> => {
+  return transformNote(await updateRecord<Note>('notes', id, { completed }), openText);
+};
+
+export const deleteNotes = (ids: string[]): Promise<void> => {
+  return runTransaction(['notes', SYNC_TOMBSTONE_STORE], (tx) => {
+    deleteSyncedRecords(tx, 'notes', ids);
+  });
+};
+
+export const deleteNote = (id: string): Promise<void> => deleteNotes([id]);
+
+// Backup and restore - every user record, ids included
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupRecords {
+  sessions: Session[];
+  topics: Topic[];
+  segments: Segment[];
+  notes: Note[];
+  tags: Tag[];
+}
+
+const BACKUP_STORES: (keyof BackupRecords)[] = ['sessions', 'topics', 'segments', 'notes', 'tags'];
+
+export const getAllRecords = async (): Promise<BackupRecords> => {
+  const db = await initDB();
+  const tx = db.transaction(BACKUP_STORES);
+  const [sessions, topics, segments, notes, tags] = await Promise.all(
+    BACKUP_STORES.map(storeName => promisifyRequest(tx.objectStore(storeName).getAll()))
+  );
+  return {
+    sessions: await Promise.all(sessions.map(session => transformSession(session, openText))),
+    topics: await openNames(topics),
+    segments,
+    notes: await openNotes(notes),
+    tags: await openNames(tags),
+  };
+};
+
+// Write backup records in one transaction and rebuild the daily rollup.
+// 'replace' deletes every record missing from the backup, leaving tombstones
+// so sync removes them elsewhere too; 'merge' skips records whose id already
+// exists. Records keep their updatedAt, so restoring an old backup does not
+// outrank edits synced since. Returns how many records were written.
+export const importRecords = async (plainRecords: BackupRecords, mode: ImportMode): Promise<number> => {
+  const records: BackupRecords = {
+    ...plainRecords,
+    sessions: await Promise.all(plainRecords.sessions.map(session => transformSession(session, sealText))),
+    topics: await Promise.all(plainRecords.topics.map(topic => transformName(topic, sealText))),
+    notes: await Promise.all(plainRecords.notes.map(note => transformNote(note, sealText))),
+    tags: await Promise.all(plainRecords.tags.map(tag => transformName(tag, sealText))),
+  };
+  const db = await initDB();
+  const tx = db.transaction([...BACKUP_STORES, DAILY_TOTALS_STORE, SYNC_TOMBSTONE_STORE], 'readwrite');
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Import was cancelled'));
+  });
+
+  let written = 0;
+  try {
+    for (const storeName of BACKUP_STORES) {
+      const store = tx.objectStore(storeName);
+      const existingIds = new Set(await promisifyRequest(store.getAllKeys()));
+      if (mode === 'replace') {
+        const importedIds = new Set<IDBValidKey>(records[storeName].map(record => record.id));
+        const removedIds = Array.from(existingIds).filter(id => !importedIds.has(id)) as string[];
+        deleteSyncedRecords(tx, storeName, removedIds);
+      }
+      records[storeName].forEach(record => {
+        if (mode === 'merge' && existingIds.has(record.id)) return;
+        store.put(record.updatedAt === undefined ? stamp(record) : record);
+        written++;
+      });
+    }
+    await rebuildDailyTotalsInTransaction(tx);
+  } catch (error) {
+    tx.abort();
+    await done.catch(() => undefined);
+    throw error;
+  }
+
+  await done;
+  return written;
+};
+
 // Calculate total time from segments
 export const calculateTotalTime = (segments: Segment[]): number => {
   const now = Date.now();
@@ -288,34 +1658,238 @@ export const calculateTimeByTopic = (segments: Segment[]): Map<string, number> =
   return timeByTopic;
 };
 
-// Delete a session and all its segments
-export const deleteSession = async (sessionId: string): Promise<void> => {
-  // Delete all segments for this session
-  const segments = await getSegmentsBySession(sessionId);
-  const segmentStore = await getStore('segments', 'readwrite');
-  
-  await Promise.all(
-    segments.map(seg => 
-      new Promise<void>((resolve, reject) => {
-        const request = segmentStore.delete(seg.id);
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-      })
-    )
+// Delete sessions and all their segments, moving them to the trash in one
+// transaction. Returns the trash entry id that restores them.
+export const deleteSessions = async (sessionIds: string[]): Promise<string> => {
+  const [sessions, segmentGroups] = await Promise.all([
+    Promise.all(sessionIds.map(id => getRecord<Session>('sessions', id))),
+    Promise.all(sessionIds.map(getSegmentsBySession)),
+  ]);
+  const segments = segmentGroups.flat();
+  const entry = await createTrashEntry(
+    'sessionDelete',
+    sessionIds.length === 1 ? 'Deleted a session' : `Deleted ${sessionIds.length} sessions`,
+    { sessions: sessions.filter((s): s is Session => s !== null), segments }
   );
-  
-  // Delete the session
-  const sessionStore = await getStore('sessions', 'readwrite');
-  return new Promise((resolve, reject) => {
-    const request = sessionStore.delete(sessionId);
-    request.onsuccess = () => resolve();
+
+  await runTransaction(['sessions', 'segments', DAILY_TOTALS_STORE, TRASH_STORE, SYNC_TOMBSTONE_STORE], (tx) => {
+    tx.objectStore(TRASH_STORE).add(entry);
+    deleteSyncedRecords(tx, 'segments', segments.map(seg => seg.id));
+    applyDailyDeltas(tx, segments, []);
+    deleteSyncedRecords(tx, 'sessions', sessionIds);
+  });
+  return entry.id;
+};
+
+// Delete a session and all its segments
+export const deleteSession = (sessionId: string): Promise<string> => {
+  return deleteSessions([sessionId]);
+};
+
+// Trash access - newest first
+export const getTrashEntries = async (): Promise<TrashEntry[]> => {
+  const store = await getStore(TRASH_STORE);
+  const entries = await new Promise<TrashEntry[]>((resolve, reject) => {
+    const request = store.index('deletedAt').getAll();
+    request.onsuccess = () => resolve((request.result as TrashEntry[]).reverse());
     request.onerror = () => reject(request.error);
   });
+  return Promise.all(entries.map(entry => transformTrashEntry(entry, openText)));
 };
 
-// Delete multiple sessions
-export const deleteSessions = async (sessionIds: string[]): Promise<void> => {
-  for (const sessionId of sessionIds) {
-    await deleteSession(sessionId);
+// Put every record in a trash entry back and drop the entry
+export const restoreTrashEntry = async (id: string): Promise<void> => {
+  const entry = await getRecord<TrashEntry>(TRASH_STORE, id);
+  if (!entry) {
+    throw new Error('This item is no longer in the trash');
+  }
+
+  const { before, createdSegmentIds } = entry;
+  const affectedIds = new Set([...before.segments.map(seg => seg.id), ...createdSegmentIds]);
+  const current = (await Promise.all(Array.from(affectedIds).map(getSegment)))
+    .filter((seg): seg is Segment => seg !== null);
+
+  // Time recorded since the deletion may now occupy the same slot
+  if (before.segments.length > 0) {
+    const from = Math.min(...before.segments.map(seg => seg.startTs));
+    const to = Math.max(...before.segments.map(seg => seg.endTs ?? Date.now()));
+    const others = (await getSegmentsInRange(from, to)).filter(seg => !affectedIds.has(seg.id));
+    assertNoOverlap(before.segments, others, 'Restoring would overlap time recorded since');
   }
+
+  await runTransaction(
+    ['sessions', 'topics', 'segments', 'tags', DAILY_TOTALS_STORE, TRASH_STORE, SYNC_TOMBSTONE_STORE],
+    (tx) => {
+      deleteSyncedRecords(tx, 'segments', createdSegmentIds);
+      const segmentStore = tx.objectStore('segments');
+      before.segments.forEach(seg => segmentStore.put(stamp(seg)));
+      applyDailyDeltas(tx, current, before.segments);
+
+      const sessionStore = tx.objectStore('sessions');
+      before.sessions.forEach(session => sessionStore.put(stamp(session)));
+      const topicStore = tx.objectStore('topics');
+      before.topics.forEach(topic => topicStore.put(stamp(topic)));
+      const tagStore = tx.objectStore('tags');
+      (before.tags ?? []).forEach(tag => tagStore.put(stamp(tag)));
+
+      tx.objectStore(TRASH_STORE).delete(id);
+    }
+  );
+};
+
+// Permanently drop a trash entry
+export const purgeTrashEntry = (id: string): Promise<void> => {
+  return runTransaction([TRASH_STORE], (tx) => {
+    tx.objectStore(TRASH_STORE).delete(id);
+  });
+};
+
+export const emptyTrash = (): Promise<void> => {
+  return runTransaction([TRASH_STORE], (tx) => {
+    tx.objectStore(TRASH_STORE).clear();
+  });
+};
+
+// Permanently drop entries older than the retention period
+export const purgeExpiredTrash = async (retentionDays: number): Promise<void> => {
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(TRASH_STORE, 'readwrite');
+    const request = tx.objectStore(TRASH_STORE).index('deletedAt').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Apply a transform to every encrypted field in one transaction: encrypting
+// when encryption is turned on, decrypting when it is turned off and
+// re-encrypting on key rotation
+export const rewriteProtectedText = async (transform: TextTransform): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(['sessions', 'topics', 'tags', 'notes', TRASH_STORE]);
+  const [sessions, topics, tags, notes, trash] = await Promise.all([
+    promisifyRequest<Session[]>(tx.objectStore('sessions').getAll()),
+    promisifyRequest<Topic[]>(tx.objectStore('topics').getAll()),
+    promisifyRequest<Tag[]>(tx.objectStore('tags').getAll()),
+    promisifyRequest<Note[]>(tx.objectStore('notes').getAll()),
+    promisifyRequest<TrashEntry[]>(tx.objectStore(TRASH_STORE).getAll()),
+  ]);
+  const [nextSessions, nextTopics, nextTags, nextNotes, nextTrash] = await Promise.all([
+    Promise.all(sessions.filter(session => session.reflection).map(session => transformSession(session, transform))),
+    Promise.all(topics.map(topic => transformName(topic, transform))),
+    Promise.all(tags.map(tag => transformName(tag, transform))),
+    Promise.all(notes.map(note => transformNote(note, transform))),
+    Promise.all(trash.map(entry => transformTrashEntry(entry, transform))),
+  ]);
+
+  await runTransaction(['sessions', 'topics', 'tags', 'notes', TRASH_STORE], (writeTx) => {
+    const sessionStore = writeTx.objectStore('sessions');
+    nextSessions.forEach(session => sessionStore.put(session));
+    const topicStore = writeTx.objectStore('topics');
+    nextTopics.forEach(topic => topicStore.put(topic));
+    const tagStore = writeTx.objectStore('tags');
+    nextTags.forEach(tag => tagStore.put(tag));
+    const noteStore = writeTx.objectStore('notes');
+    nextNotes.forEach(note => noteStore.put(note));
+    const trashStore = writeTx.objectStore(TRASH_STORE);
+    nextTrash.forEach(entry => trashStore.put(entry));
+  });
+};
+
+// The pre-migration snapshot is a cleartext copy of every store
+export const clearMigrationSnapshot = async (): Promise<void> => {
+  await takeSnapshotOnce();
+  return deleteMigrationSnapshot(SNAPSHOT_DB_NAME);
+};
+
+// Sync - lib/sync reads every synced record in one go and writes the merged
+// result back in one transaction, with the new base copies
+export interface SyncSnapshot {
+  records: Record<SyncedStoreName, { id: string }[]>;
+  base: SyncBaseEntry[];
+  tombstones: SyncTombstone[];
+}
+
+export interface SyncWrite {
+  store: SyncedStoreName;
+  id: string;
+  record: { id: string } | null; // null deletes
+}
+
+export const getSyncSnapshot = async (): Promise<SyncSnapshot> => {
+  const db = await initDB();
+  const tx = db.transaction([...SYNCED_STORES, SYNC_BASE_STORE, SYNC_TOMBSTONE_STORE]);
+  const [groups, base, tombstones] = await Promise.all([
+    Promise.all(SYNCED_STORES.map(storeName => promisifyRequest<{ id: string }[]>(tx.objectStore(storeName).getAll()))),
+    promisifyRequest<SyncBaseEntry[]>(tx.objectStore(SYNC_BASE_STORE).getAll()),
+    promisifyRequest<SyncTombstone[]>(tx.objectStore(SYNC_TOMBSTONE_STORE).getAll()),
+  ]);
+  const records = Object.fromEntries(
+    SYNCED_STORES.map((storeName, index) => [storeName, groups[index]])
+  ) as SyncSnapshot['records'];
+  return { records, base, tombstones };
+};
+
+// Synced segments move the daily rollup like any other segment edit
+export const applySyncChanges = async (
+  writes: SyncWrite[],
+  base: SyncBaseEntry[],
+  pushedTombstoneKeys: string[]
+): Promise<void> => {
+  const segmentWrites = writes.filter(write => write.store === 'segments');
+  const previous = (await Promise.all(segmentWrites.map(write => getSegment(write.id))))
+    .filter((seg): seg is Segment => seg !== null);
+  const added = segmentWrites
+    .map(write => write.record as Segment | null)
+    .filter((seg): seg is Segment => seg !== null);
+
+  await runTransaction([...SYNCED_STORES, DAILY_TOTALS_STORE, SYNC_BASE_STORE, SYNC_TOMBSTONE_STORE], (tx) => {
+    writes.forEach(({ store, id, record }) => {
+      if (record) {
+        tx.objectStore(store).put(record);
+      } else {
+        tx.objectStore(store).delete(id);
+      }
+    });
+    applyDailyDeltas(tx, previous, added);
+    const baseStore = tx.objectStore(SYNC_BASE_STORE);
+    base.forEach(entry => baseStore.put(entry));
+    const tombstoneStore = tx.objectStore(SYNC_TOMBSTONE_STORE);
+    pushedTombstoneKeys.forEach(key => tombstoneStore.delete(key));
+  });
+};
+
+// Forget what was last synced, so the next sync sends every record again.
+// Base copies are cleartext, so this also runs when encryption is turned on.
+export const clearSyncBase = (): Promise<void> => {
+  return runTransaction([SYNC_BASE_STORE, SYNC_TOMBSTONE_STORE], (tx) => {
+    tx.objectStore(SYNC_BASE_STORE).clear();
+    tx.objectStore(SYNC_TOMBSTONE_STORE).clear();
+  });
+};
+
+// File System Access handles survive reloads in IndexedDB; the browser may
+// still ask for permission again before one can be used
+export const getFileHandle = async <T extends FileSystemHandle>(id: string): Promise<T | null> => {
+  const record = await getRecord<{ id: string; handle: T }>(FILE_HANDLE_STORE, id);
+  return record?.handle ?? null;
+};
+
+export const saveFileHandle = (id: string, handle: FileSystemHandle | null): Promise<void> => {
+  return runTransaction([FILE_HANDLE_STORE], (tx) => {
+    const store = tx.objectStore(FILE_HANDLE_STORE);
+    if (handle) {
+      store.put({ id, handle });
+    } else {
+      store.delete(id);
+    }
+  });
 };
@@ -0,0 +1,41 @@
+// Distraction log - categories and durations offered when marking a
+// distraction, and how much of a stretch of time it cost
+import type { DistractionCategory, Segment } from '@/lib/db';
+
+export const DISTRACTION_CATEGORIES: { value: DistractionCategory; label: string; emoji: string }[] = [
+  { value: 'phone', label: 'Phone', emoji: '📱' },
+  { value: 'chat', label: 'Chat', emoji: '💬' },
+  { value: 'noise', label: 'Noise', emoji: '🔊' },
+  { value: 'hunger', label: 'Hunger', emoji: '🍎' },
+];
+
+// Minutes offered as "time lost"; 0 just marks the moment
+export const DISTRACTION_MINUTES = [0, 1, 2, 5, 10, 15];
+
+export const getDistractionLabel = (category: string | null): string => {
+  const match = DISTRACTION_CATEGORIES.find(c => c.value === category);
+  return match ? `${match.emoji} ${match.label}` : 'Uncategorized';
+};
+
+// Distractions logged in [from, to), clamped the same way the daily totals
+// are so a segment never loses more than its own length (open ones up to now)
+export const summarizeDistractions = (
+  segments: Segment[],
+  from: number,
+  to: number,
+  now = Date.now()
+): { count: number; ms: number } => {
+  let count = 0;
+  let ms = 0;
+  segments.forEach(segment => {
+    let remaining = (segment.endTs ?? now) - segment.startTs;
+    (segment.distractions ?? []).forEach(distraction => {
+      const lost = Math.min(Math.max(0, distraction.durationMs), remaining);
+      remaining -= lost;
+      if (distraction.atTs < from || distraction.atTs >= to) return;
+      count += 1;
+      ms += lost;
+    });
+  });
+  return { count, ms };
+};
@@ -0,0 +1,408 @@
+// Passphrase encryption at rest (opt-in, per profile)
+//
+// Note and task text, topic and sub-topic names and trash labels are stored
+// as AES-GCM ciphertext. Ids and timestamps stay in cleartext so the indexes
+// and range queries in db.ts keep working.
+//
+// A random data key encrypts the records. It is wrapped by a random master
+// key, and the master key is wrapped twice: by a key derived from the
+// passphrase and by one derived from a recovery code (PBKDF2 for both).
+// Changing the passphrase only rewraps the master key; rotating replaces the
+// data key and re-encrypts every record. Unwrapped keys live in memory only,
+// per tab, until the tab locks or closes.
+import { profileStorage } from '@/lib/profiles';
+
+const CONFIG_KEY = 'studywatch-encryption';
+const TEXT_PREFIX = 'enc1:';
+const EXPORT_FORMAT = 'studywatch-encrypted';
+const PBKDF2_ITERATIONS = 310000;
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const LOCK_AFTER_OPTIONS = [0, 5, 15, 30, 60]; // minutes, 0 = never
+
+export interface EncryptionConfig {
+  version: 1;
+  keyId: string; // changes with every data key, so other tabs know to lock
+  iterations: number;
+  passphraseSalt: string;
+  passphraseWrappedMasterKey: string;
+  recoverySalt: string;
+  recoveryWrappedMasterKey: string;
+  wrappedDataKey: string; // by the master key
+  previousWrappedDataKey?: string; // kept while a rotation re-encrypts records
+  lockAfterMinutes: number;
+}
+
+interface UnlockedKeys {
+  keyId: string;
+  masterKey: CryptoKey;
+  dataKey: CryptoKey;
+  previousDataKey: CryptoKey | null;
+}
+
+// Encrypted export files carry the wrapped keys, so the passphrase or the
+// recovery code opens them in any browser
+interface EncryptedExport {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  iterations: number;
+  passphraseSalt: string;
+  passphraseWrappedMasterKey: string;
+  recoverySalt: string;
+  recoveryWrappedMasterKey: string;
+  wrappedDataKey: string;
+  data: string;
+}
+
+let unlocked: UnlockedKeys | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Byte helpers
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+// Key primitives
+const AES_GCM = { name: 'AES-GCM', length: 256 } as const;
+
+const generateKey = (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey(AES_GCM, true, ['encrypt', 'decrypt']);
+};
+
+const deriveKey = async (secret: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    AES_GCM,
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// "iv:ciphertext", both base64
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<string> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return `${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+// Throws when the key is wrong: AES-GCM authenticates every value
+const decryptBytes = async (key: CryptoKey, value: string): Promise<Uint8Array> => {
+  const [iv, ciphertext] = value.split(':');
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new Uint8Array(plain);
+};
+
+const wrapKey = async (wrappingKey: CryptoKey, key: CryptoKey): Promise<string> => {
+  return encryptBytes(wrappingKey, new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+};
+
+const unwrapKey = async (wrappingKey: CryptoKey, wrapped: string): Promise<CryptoKey> => {
+  const raw = await decryptBytes(wrappingKey, wrapped);
+  return crypto.subtle.importKey('raw', raw, AES_GCM, true, ['encrypt', 'decrypt']);
+};
+
+// Recovery codes are 24 characters in groups of four; case and dashes are
+// ignored when typed back
+const createRecoveryCode = (): string => {
+  const chars = Array.from(randomBytes(24), byte => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]);
+  return chars.join('').match(/.{4}/g)!.join('-');
+};
+
+const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Config
+export const loadEncryptionConfig = (): EncryptionConfig | null => {
+  const stored = profileStorage.getItem(CONFIG_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+const saveEncryptionConfig = (config: EncryptionConfig | null): void => {
+  if (config) {
+    profileStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } else {
+    profileStorage.removeItem(CONFIG_KEY);
+  }
+  notify();
+};
+
+export const isEncryptionEnabled = (): boolean => loadEncryptionConfig() !== null;
+
+export const isEncryptionUnlocked = (): boolean => unlocked !== null;
+
+const requireUnlocked = (): UnlockedKeys => {
+  if (!unlocked) {
+    throw new Error('Encrypted data is locked');
+  }
+  return unlocked;
+};
+
+const requireConfig = (): EncryptionConfig => {
+  const config = loadEncryptionConfig();
+  if (!config) {
+    throw new Error('Encryption is not enabled');
+  }
+  return config;
+};
+
+// Re-render on lock, unlock and config changes, including those made in
+// other tabs. Another tab enabling or rotating the key locks this one.
+export const subscribeToEncryption = (listener: () => void): (() => void) => {
+  const handleStorage = () => {
+    const config = loadEncryptionConfig();
+    if (unlocked && (!config || config.keyId !== unlocked.keyId)) {
+      unlocked = null;
+    }
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
+
+// Field encryption used by db.ts. Cleartext values pass through openText, so
+// records written before encryption was enabled still read back.
+export const isEncryptedText = (value: string): boolean => value.startsWith(TEXT_PREFIX);
+
+export const sealText = async (plain: string): Promise<string> => {
+  if (!isEncryptionEnabled()) return plain;
+  const bytes = encoder.encode(plain);
+  return TEXT_PREFIX + (await encryptBytes(requireUnlocked().dataKey, bytes));
+};
+
+export const openText = async (value: string): Promise<string> => {
+  if (!isEncryptedText(value)) return value;
+  const keys = requireUnlocked();
+  const payload = value.slice(TEXT_PREFIX.length);
+  try {
+    return decoder.decode(await decryptBytes(keys.dataKey, payload));
+  } catch (error) {
+    if (!keys.previousDataKey) throw error;
+    return decoder.decode(await decryptBytes(keys.previousDataKey, payload));
+  }
+};
+
+const unwrapDataKeys = async (config: EncryptionConfig, masterKey: CryptoKey): Promise<UnlockedKeys> => ({
+  keyId: config.keyId,
+  masterKey,
+  dataKey: await unwrapKey(masterKey, config.wrappedDataKey),
+  previousDataKey: config.previousWrappedDataKey
+    ? await unwrapKey(masterKey, config.previousWrappedDataKey)
+    : null,
+});
+
+// Returns false for a wrong passphrase
+export const unlockWithPassphrase = async (passphrase: string): Promise<boolean> => {
+  const config = requireConfig();
+  try {
+    const kek = await deriveKey(passphrase, config.passphraseSalt, config.iterations);
+    unlocked = await unwrapDataKeys(config, await unwrapKey(kek, config.passphraseWrappedMasterKey));
+  } catch {
+    return false;
+  }
+  notify();
+  return true;
+};
+
+// Returns false for a wrong code; the caller should ask for a new passphrase
+export const unlockWithRecoveryCode = async (code: string): Promise<boolean> => {
+  const config = requireConfig();
+  try {
+    const kek = await deriveKey(normalizeRecoveryCode(code), config.recoverySalt, config.iterations);
+    unlocked = await unwrapDataKeys(config, await unwrapKey(kek, config.recoveryWrappedMasterKey));
+  } catch {
+    return false;
+  }
+  notify();
+  return true;
+};
+
+export const lockEncryption = (): void => {
+  if (!unlocked) return;
+  unlocked = null;
+  notify();
+};
+
+export const verifyPassphrase = async (passphrase: string): Promise<boolean> => {
+  const config = requireConfig();
+  try {
+    const kek = await deriveKey(passphrase, config.passphraseSalt, config.iterations);
+    await unwrapKey(kek, config.passphraseWrappedMasterKey);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const requirePassphraseLength = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+};
+
+const wrapWithSecret = async (secret: string, masterKey: CryptoKey, iterations: number) => {
+  const salt = toBase64(randomBytes(16));
+  const kek = await deriveKey(secret, salt, iterations);
+  return { salt, wrapped: await wrapKey(kek, masterKey) };
+};
+
+// Create keys and a recovery code and start encrypting new writes. Existing
+// records are encrypted by the caller afterwards; until then they read back
+// as cleartext. Returns the recovery code, shown to the user once.
+export const activateEncryption = async (passphrase: string): Promise<string> => {
+  requirePassphraseLength(passphrase);
+  const masterKey = await generateKey();
+  const dataKey = await generateKey();
+  const recoveryCode = createRecoveryCode();
+  const byPassphrase = await wrapWithSecret(passphrase, masterKey, PBKDF2_ITERATIONS);
+  const byRecovery = await wrapWithSecret(normalizeRecoveryCode(recoveryCode), masterKey, PBKDF2_ITERATIONS);
+  const config: EncryptionConfig = {
+    version: 1,
+    keyId: crypto.randomUUID(),
+    iterations: PBKDF2_ITERATIONS,
+    passphraseSalt: byPassphrase.salt,
+    passphraseWrappedMasterKey: byPassphrase.wrapped,
+    recoverySalt: byRecovery.salt,
+    recoveryWrappedMasterKey: byRecovery.wrapped,
+    wrappedDataKey: await wrapKey(masterKey, dataKey),
+    lockAfterMinutes: 15,
+  };
+  unlocked = { keyId: config.keyId, masterKey, dataKey, previousDataKey: null };
+  saveEncryptionConfig(config);
+  return recoveryCode;
+};
+
+// Forget the keys; the caller has already decrypted every record
+export const deactivateEncryption = (): void => {
+  unlocked = null;
+  saveEncryptionConfig(null);
+};
+
+export const changePassphrase = async (passphrase: string): Promise<void> => {
+  requirePassphraseLength(passphrase);
+  const config = requireConfig();
+  const { salt, wrapped } = await wrapWithSecret(passphrase, requireUnlocked().masterKey, config.iterations);
+  saveEncryptionConfig({ ...config, passphraseSalt: salt, passphraseWrappedMasterKey: wrapped });
+};
+
+// Replace the recovery code; the old one stops working. Returns the new code.
+export const replaceRecoveryCode = async (): Promise<string> => {
+  const config = requireConfig();
+  const recoveryCode = createRecoveryCode();
+  const { salt, wrapped } = await wrapWithSecret(
+    normalizeRecoveryCode(recoveryCode),
+    requireUnlocked().masterKey,
+    config.iterations
+  );
+  saveEncryptionConfig({ ...config, recoverySalt: salt, recoveryWrappedMasterKey: wrapped });
+  return recoveryCode;
+};
+
+// Switch to a new data key while the old one still decrypts, so a rotation
+// cut short leaves every record readable. finishKeyRotation drops the old key
+// once all records are re-encrypted.
+export const beginKeyRotation = async (): Promise<void> => {
+  const config = requireConfig();
+  const keys = requireUnlocked();
+  const dataKey = await generateKey();
+  const next: EncryptionConfig = {
+    ...config,
+    keyId: crypto.randomUUID(),
+    wrappedDataKey: await wrapKey(keys.masterKey, dataKey),
+    previousWrappedDataKey: await wrapKey(keys.masterKey, keys.dataKey),
+  };
+  unlocked = { keyId: next.keyId, masterKey: keys.masterKey, dataKey, previousDataKey: keys.dataKey };
+  saveEncryptionConfig(next);
+};
+
+export const finishKeyRotation = (): void => {
+  const { previousWrappedDataKey: _previous, ...config } = requireConfig();
+  if (unlocked) unlocked = { ...unlocked, previousDataKey: null };
+  saveEncryptionConfig(config);
+};
+
+export const setLockAfterMinutes = (minutes: number): void => {
+  saveEncryptionConfig({ ...requireConfig(), lockAfterMinutes: minutes });
+};
+
+// Exports
+export const encryptExport = async (content: string): Promise<string> => {
+  const config = requireConfig();
+  const envelope: EncryptedExport = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    iterations: config.iterations,
+    passphraseSalt: config.passphraseSalt,
+    passphraseWrappedMasterKey: config.passphraseWrappedMasterKey,
+    recoverySalt: config.recoverySalt,
+    recoveryWrappedMasterKey: config.recoveryWrappedMasterKey,
+    wrappedDataKey: config.wrappedDataKey,
+    data: await encryptBytes(requireUnlocked().dataKey, encoder.encode(content)),
+  };
+  return JSON.stringify(envelope);
+};
+
+export const isEncryptedExport = (text: string): boolean => {
+  try {
+    return JSON.parse(text)?.format === EXPORT_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+// Open an encrypted export with its passphrase or recovery code
+export const decryptExport = async (text: string, secret: string): Promise<string> => {
+  const envelope: EncryptedExport = JSON.parse(text);
+  const attempts = [
+    { secret, salt: envelope.passphraseSalt, wrapped: envelope.passphraseWrappedMasterKey },
+    { secret: normalizeRecoveryCode(secret), salt: envelope.recoverySalt, wrapped: envelope.recoveryWrappedMasterKey },
+  ];
+  for (const attempt of attempts) {
+    try {
+      const kek = await deriveKey(attempt.secret, attempt.salt, envelope.iterations);
+      const dataKey = await unwrapKey(await unwrapKey(kek, attempt.wrapped), envelope.wrappedDataKey);
+      return decoder.decode(await decryptBytes(dataKey, envelope.data));
+    } catch {
+      // Try the next way in
+    }
+  }
+  throw new Error('Wrong passphrase or recovery code');
+};
+
+// Plain-text file to print or store somewhere safe
+export const createRecoveryKit = (recoveryCode: string, profileName: string): string => [
+  'StudyWatch recovery kit',
+  '',
+  `Profile: ${profileName}`,
+  `Created: ${new Date().toLocaleString()}`,
+  '',
+  `Recovery code: ${recoveryCode}`,
+  '',
+  'If you forget your passphrase, choose "Use recovery code" on the unlock',
+  'screen and enter this code, then pick a new passphrase. The code also opens',
+  'encrypted export files. Anyone with this code can read your data.',
+  '',
+].join('\n');
@@ -0,0 +1,43 @@
+// Turning encryption at rest on and off, and key rotation
+//
+// These re-encrypt stored records, so they live apart from lib/encryption,
+// which db.ts itself depends on.
+import { clearMigrationSnapshot, clearSyncBase, rewriteProtectedText } from '@/lib/db';
+import {
+  activateEncryption,
+  beginKeyRotation,
+  deactivateEncryption,
+  finishKeyRotation,
+  openText,
+  sealText,
+  verifyPassphrase,
+} from '@/lib/encryption';
+import { broadcastDataChanged } from '@/lib/tabSync';
+
+// Returns the recovery code, to be shown to the user once
+export const enableEncryption = async (passphrase: string): Promise<string> => {
+  const recoveryCode = await activateEncryption(passphrase);
+  await rewriteProtectedText(sealText);
+  await clearMigrationSnapshot();
+  await clearSyncBase();
+  broadcastDataChanged();
+  return recoveryCode;
+};
+
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+  if (!(await verifyPassphrase(passphrase))) {
+    throw new Error('Wrong passphrase');
+  }
+  await rewriteProtectedText(openText);
+  deactivateEncryption();
+  broadcastDataChanged();
+};
+
+// New data key for every record. Also encrypts anything an interrupted
+// enable left in cleartext.
+export const rotateEncryptionKey = async (): Promise<void> => {
+  await beginKeyRotation();
+  await rewriteProtectedText(async (value) => sealText(await openText(value)));
+  finishKeyRotation();
+  broadcastDataChanged();
+};
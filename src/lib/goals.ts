@@ -1,4 +1,6 @@
 // Goals and targets management
+import { profileStorage } from '@/lib/profiles';
+
 export interface DailyGoal {
   id: string;
   targetMinutes: number;
@@ -24,11 +26,11 @@ export const saveDailyGoal = (minutes: number): void => {
     targetMinutes: minutes,
     createdAt: Date.now(),
   };
-  localStorage.setItem(DAILY_GOAL_KEY, JSON.stringify(goal));
+  profileStorage.setItem(DAILY_GOAL_KEY, JSON.stringify(goal));
 };
 
 export const loadDailyGoal = (): number => {
-  const stored = localStorage.getItem(DAILY_GOAL_KEY);
+  const stored = profileStorage.getItem(DAILY_GOAL_KEY);
   if (stored) {
     try {
       const goal: DailyGoal = JSON.parse(stored);
@@ -46,11 +48,11 @@ export const saveWeeklyGoal = (minutes: number): void => {
     targetMinutes: minutes,
     createdAt: Date.now(),
   };
-  localStorage.setItem(WEEKLY_GOAL_KEY, JSON.stringify(goal));
+  profileStorage.setItem(WEEKLY_GOAL_KEY, JSON.stringify(goal));
 };
 
 export const loadWeeklyGoal = (): number => {
-  const stored = localStorage.getItem(WEEKLY_GOAL_KEY);
+  const stored = profileStorage.getItem(WEEKLY_GOAL_KEY);
   if (stored) {
     try {
       const goal: WeeklyGoal = JSON.parse(stored);
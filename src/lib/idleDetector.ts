@@ -0,0 +1,51 @@
+// Thin wrapper around the Idle Detection API (Chromium only, needs permission)
+//
+// Reports whether the user is active anywhere on the machine, so studying in
+// another app or a PDF viewer does not count as being away.
+
+interface IdleDetectorInstance extends EventTarget {
+  userState: 'active' | 'idle' | null;
+  screenState: 'locked' | 'unlocked' | null;
+  start: (options: { threshold: number; signal?: AbortSignal }) => Promise<void>;
+}
+
+interface IdleDetectorConstructor {
+  new (): IdleDetectorInstance;
+  requestPermission: () => Promise<PermissionState>;
+}
+
+const getIdleDetector = (): IdleDetectorConstructor | null => {
+  return (window as unknown as { IdleDetector?: IdleDetectorConstructor }).IdleDetector ?? null;
+};
+
+export const isSystemIdleSupported = (): boolean => getIdleDetector() !== null;
+
+// Must be called from a user gesture
+export const requestSystemIdlePermission = async (): Promise<boolean> => {
+  const IdleDetector = getIdleDetector();
+  if (!IdleDetector) return false;
+  try {
+    return (await IdleDetector.requestPermission()) === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+// Start watching; isActive reports the latest system state. Resolves null
+// when the API is missing or permission was not granted.
+export const watchSystemIdle = async (
+  signal: AbortSignal
+): Promise<{ isActive: () => boolean } | null> => {
+  const IdleDetector = getIdleDetector();
+  if (!IdleDetector) return null;
+  try {
+    const detector = new IdleDetector();
+    // The API's minimum threshold is one minute
+    await detector.start({ threshold: 60 * 1000, signal });
+    return {
+      isActive: () => detector.userState === 'active' && detector.screenState !== 'locked',
+    };
+  } catch {
+    return null;
+  }
+};
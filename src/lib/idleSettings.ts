@@ -0,0 +1,35 @@
+// Idle detection settings with localStorage persistence
+import { profileStorage } from '@/lib/profiles';
+
+export interface IdleSettings {
+  enabled: boolean;
+  thresholdMinutes: number;
+  useSystemIdle: boolean; // Idle Detection API, counts input in other apps
+}
+
+const IDLE_KEY = 'studywatch-idle-settings';
+
+export const IDLE_THRESHOLD_OPTIONS = [5, 10, 15, 30, 60];
+
+// Opt-in: studying from a book or in another app looks idle to the browser
+export const DEFAULT_IDLE_SETTINGS: IdleSettings = {
+  enabled: false,
+  thresholdMinutes: 15,
+  useSystemIdle: false,
+};
+
+export const loadIdleSettings = (): IdleSettings => {
+  const stored = profileStorage.getItem(IDLE_KEY);
+  if (stored) {
+    try {
+      return { ...DEFAULT_IDLE_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      return DEFAULT_IDLE_SETTINGS;
+    }
+  }
+  return DEFAULT_IDLE_SETTINGS;
+};
+
+export const saveIdleSettings = (settings: IdleSettings): void => {
+  profileStorage.setItem(IDLE_KEY, JSON.stringify(settings));
+};
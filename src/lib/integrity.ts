@@ -0,0 +1,251 @@
+// Database integrity checks and one-click repairs
+//
+// scanIntegrity walks every session, segment and topic and groups
+// invariant violations by kind. Each kind has one repair, which re-scans and
+// applies a fix through applyRepair, so every repair can be undone from the
+// trash like any other destructive edit.
+import {
+  applyRepair,
+  getAllSegments,
+  getAllSessions,
+  getAllTopics,
+  getSegmentsBySession,
+  getSegmentsInRange,
+  RepairRecords,
+  Segment,
+  Session,
+  Topic,
+} from '@/lib/db';
+
+export type IntegrityIssueKind =
+  | 'invertedSegments'
+  | 'orphanSegments'
+  | 'strayOpenSegments'
+  | 'overlappingSegments'
+  | 'missingTopics'
+  | 'staleOpenSessions';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  title: string;
+  repairLabel: string;
+  count: number;
+  examples: string[]; // a few human-readable instances
+}
+
+export interface IntegrityReport {
+  checkedAt: number;
+  issues: IntegrityIssue[]; // only kinds with at least one problem
+  sessionCount: number;
+  segmentCount: number;
+}
+
+interface IntegrityData {
+  sessions: Session[];
+  segments: Segment[];
+  topics: Topic[];
+}
+
+interface IssuePlan {
+  count: number;
+  examples: string[];
+  before: RepairRecords;
+  after: RepairRecords;
+}
+
+const ISSUE_INFO: Record<IntegrityIssueKind, { title: string; repairLabel: string }> = {
+  invertedSegments: { title: 'Segments that end before they start', repairLabel: 'Delete' },
+  orphanSegments: { title: 'Segments whose session no longer exists', repairLabel: 'Delete orphans' },
+  strayOpenSegments: { title: 'Open segments that should have been closed', repairLabel: 'Close' },
+  overlappingSegments: { title: 'Overlapping segments', repairLabel: 'Trim' },
+  missingTopics: { title: 'Segments pointing to deleted topics', repairLabel: 'Reassign to No Topic' },
+  staleOpenSessions: { title: 'Sessions left open', repairLabel: 'Close' },
+};
+
+const ISSUE_ORDER = Object.keys(ISSUE_INFO) as IntegrityIssueKind[];
+
+// Sessions without activity for this long are considered abandoned
+const STALE_SESSION_MS = 24 * 60 * 60 * 1000;
+const MAX_EXAMPLES = 5;
+// The lightweight startup check only looks this far back
+const QUICK_CHECK_DAYS = 7;
+
+const formatTs = (ts: number): string => new Date(ts).toLocaleString();
+
+const emptyPlan = (): IssuePlan => ({
+  count: 0,
+  examples: [],
+  before: { sessions: [], segments: [] },
+  after: { sessions: [], segments: [] },
+});
+
+const addProblem = (plan: IssuePlan, example: string) => {
+  plan.count++;
+  if (plan.examples.length < MAX_EXAMPLES) plan.examples.push(example);
+};
+
+const isInverted = (seg: Segment) => seg.endTs !== null && seg.endTs < seg.startTs;
+
+// Build the problems and their fixes. Later checks skip segments an earlier
+// check already covers, so fixing kinds one at a time converges.
+const analyze = (data: IntegrityData, now: number): Map<IntegrityIssueKind, IssuePlan> => {
+  const plans = new Map<IntegrityIssueKind, IssuePlan>();
+  const planFor = (kind: IntegrityIssueKind) => {
+    if (!plans.has(kind)) plans.set(kind, emptyPlan());
+    return plans.get(kind)!;
+  };
+
+  const sessionsById = new Map(data.sessions.map(session => [session.id, session]));
+  const topicIds = new Set(data.topics.map(topic => topic.id));
+
+  const bySession = new Map<string, Segment[]>();
+  const healthy: Segment[] = [];
+
+  data.segments.forEach(seg => {
+    if (isInverted(seg)) {
+      const plan = planFor('invertedSegments');
+      plan.before.segments.push(seg);
+      addProblem(plan, `${formatTs(seg.startTs)} ends ${Math.round((seg.startTs - seg.endTs!) / 60000)} min before it starts`);
+      return;
+    }
+    if (!sessionsById.has(seg.sessionId)) {
+      const plan = planFor('orphanSegments');
+      plan.before.segments.push(seg);
+      addProblem(plan, `Segment from ${formatTs(seg.startTs)}`);
+      return;
+    }
+    bySession.set(seg.sessionId, [...(bySession.get(seg.sessionId) || []), seg]);
+    healthy.push(seg);
+  });
+
+  // The timer resumes the most recent open session; every other open
+  // session is abandoned
+  const openSessions = data.sessions
+    .filter(session => session.endTs === null)
+    .sort((a, b) => b.startTs - a.startTs);
+  const currentSessionId = openSessions[0]?.id ?? null;
+
+  // Every open segment except the latest one in the current session
+  bySession.forEach((segments, sessionId) => {
+    const session = sessionsById.get(sessionId)!;
+    segments.sort((a, b) => a.startTs - b.startTs);
+    segments.forEach((seg, index) => {
+      if (seg.endTs !== null) return;
+      if (sessionId === currentSessionId && index === segments.length - 1) return;
+      const next = segments[index + 1];
+      const endTs = Math.max(
+        seg.startTs,
+        Math.min(next?.startTs ?? Infinity, session.endTs ?? Infinity, seg.heartbeatTs ?? seg.startTs)
+      );
+      const plan = planFor('strayOpenSegments');
+      plan.before.segments.push(seg);
+      plan.after.segments.push({ ...seg, endTs, heartbeatTs: undefined });
+      addProblem(plan, `Opened ${formatTs(seg.startTs)}${sessionId !== currentSessionId ? ' in an old session' : ''}`);
+    });
+  });
+
+  // Sweep closed segments in start order; a later segment that starts
+  // before the furthest end so far is trimmed, or deleted if contained
+  const closed = healthy.filter(seg => seg.endTs !== null).sort((a, b) => a.startTs - b.startTs);
+  const overlapIds = new Set<string>();
+  let furthest: Segment | null = null;
+  closed.forEach(seg => {
+    if (furthest && seg.startTs < furthest.endTs!) {
+      const plan = planFor('overlappingSegments');
+      if (!overlapIds.has(furthest.id)) {
+        // Kept unchanged so an undo can put both back together
+        overlapIds.add(furthest.id);
+        plan.before.segments.push(furthest);
+        plan.after.segments.push(furthest);
+      }
+      overlapIds.add(seg.id);
+      plan.before.segments.push(seg);
+      plan.count++;
+      if (plan.examples.length < MAX_EXAMPLES) {
+        plan.examples.push(`${formatTs(seg.startTs)} overlaps ${Math.round((Math.min(seg.endTs!, furthest.endTs!) - seg.startTs) / 60000)} min`);
+      }
+      if (seg.endTs! > furthest.endTs!) {
+        plan.after.segments.push({ ...seg, startTs: furthest.endTs! });
+      }
+    }
+    if (!furthest || seg.endTs! > furthest.endTs!) furthest = seg;
+  });
+
+  healthy.forEach(seg => {
+    if (seg.topicId === null || topicIds.has(seg.topicId)) return;
+    // Overlap fixes rewrite the same records; leave these for the next pass
+    if (overlapIds.has(seg.id)) return;
+    const plan = planFor('missingTopics');
+    plan.before.segments.push(seg);
+    plan.after.segments.push({ ...seg, topicId: null });
+    addProblem(plan, `${formatTs(seg.startTs)} - topic was deleted`);
+  });
+
+  // Open sessions other than the current one, or the current one when it
+  // has nothing running and has been idle for a day
+  openSessions.forEach(session => {
+    const segments = bySession.get(session.id) || [];
+    const isRunning = segments.some(seg => seg.endTs === null);
+    const lastActivity = segments.reduce(
+      (latest, seg) => Math.max(latest, seg.endTs ?? seg.heartbeatTs ?? seg.startTs),
+      session.startTs
+    );
+    const isStale = session.id !== currentSessionId || (!isRunning && now - lastActivity > STALE_SESSION_MS);
+    if (!isStale) return;
+    const plan = planFor('staleOpenSessions');
+    plan.before.sessions.push(session);
+    plan.after.sessions.push({ ...session, endTs: lastActivity });
+    addProblem(plan, `Started ${formatTs(session.startTs)}`);
+  });
+
+  return plans;
+};
+
+const toReport = (plans: Map<IntegrityIssueKind, IssuePlan>, data: IntegrityData): IntegrityReport => ({
+  checkedAt: Date.now(),
+  issues: ISSUE_ORDER.filter(kind => plans.has(kind)).map(kind => ({
+    kind,
+    ...ISSUE_INFO[kind],
+    count: plans.get(kind)!.count,
+    examples: plans.get(kind)!.examples,
+  })),
+  sessionCount: data.sessions.length,
+  segmentCount: data.segments.length,
+});
+
+const loadAll = async (): Promise<IntegrityData> => {
+  const [sessions, segments, topics] = await Promise.all([
+    getAllSessions(),
+    getAllSegments(),
+    getAllTopics(),
+  ]);
+  return { sessions, segments, topics };
+};
+
+export const scanIntegrity = async (): Promise<IntegrityReport> => {
+  const data = await loadAll();
+  return toReport(analyze(data, Date.now()), data);
+};
+
+// Cheap startup check: recent segments plus everything in open sessions
+export const quickIntegrityCheck = async (): Promise<IntegrityReport> => {
+  const since = Date.now() - QUICK_CHECK_DAYS * 24 * 60 * 60 * 1000;
+  const [sessions, recent, topics] = await Promise.all([
+    getAllSessions(),
+    getSegmentsInRange(since, Infinity),
+    getAllTopics(),
+  ]);
+  const openSegments = (
+    await Promise.all(sessions.filter(s => s.endTs === null).map(s => getSegmentsBySession(s.id)))
+  ).flat();
+  const segments = Array.from(new Map([...recent, ...openSegments].map(seg => [seg.id, seg])).values());
+  const data = { sessions, segments, topics };
+  return toReport(analyze(data, Date.now()), data);
+};
+
+// Re-scan and fix every instance of one kind; returns the trash entry id
+export const repairIntegrityIssue = async (kind: IntegrityIssueKind): Promise<string | null> => {
+  const plan = analyze(await loadAll(), Date.now()).get(kind);
+  if (!plan) return null;
+  return applyRepair(`Repaired ${plan.count} × ${ISSUE_INFO[kind].title.toLowerCase()}`, plan.before, plan.after);
+};
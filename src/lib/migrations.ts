@@ -0,0 +1,513 @@
+// Versioned IndexedDB schema migrations
+//
+// Each migration upgrades the database from `version - 1` to `version`. They
+// run in order inside the single `versionchange` transaction, so a failure in
+// any step aborts the whole upgrade and leaves the previous data untouched.
+import { DAILY_TOTALS_STORE, rebuildDailyTotalsInTransaction } from '@/lib/dailyTotals';
+import { readLegacyNotes, readLegacyTasks, clearLegacyNotes } from '@/lib/notes';
+import { profileStorage } from '@/lib/profiles';
+import { SYNC_BASE_STORE, SYNC_TOMBSTONE_STORE } from '@/lib/syncMeta';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void | Promise<void>;
+}
+
+export interface MigrationLogEntry {
+  version: number;
+  description: string;
+  status: 'applied' | 'failed';
+  ranAt: number;
+  error?: string;
+}
+
+export interface MigrationSnapshot {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: number;
+  stores: Record<string, unknown[]>;
+}
+
+const MIGRATION_LOG_KEY = 'studywatch-migration-log';
+const MAX_LOG_ENTRIES = 50;
+
+export const SNAPSHOT_STORE = 'migrationSnapshots';
+const SNAPSHOT_ID = 'latest';
+
+// File System Access handles the user granted, such as the backup folder
+export const FILE_HANDLE_STORE = 'fileHandles';
+
+// Wrap a single IDB request in a promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Rewrite every record in a store. Return the updated record to persist it,
+// null to delete it, or undefined to leave it unchanged.
+export const rewriteRecords = <T>(
+  tx: IDBTransaction,
+  storeName: string,
+  rewrite: (record: T) => T | null | undefined
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = tx.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const result = rewrite(cursor.value as T);
+      if (result === null) {
+        cursor.delete();
+      } else if (result !== undefined) {
+        cursor.update(result);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The segment that was running at ts, if any
+const findSegmentAt = async (
+  tx: IDBTransaction,
+  ts: number
+): Promise<{ sessionId: string; topicId: string | null; subtopicId: string | null } | null> => {
+  const index = tx.objectStore('segments').index('startTs');
+  const cursor = await promisifyRequest(index.openCursor(IDBKeyRange.upperBound(ts), 'prev'));
+  if (!cursor) return null;
+  const segment = cursor.value;
+  return segment.endTs === null || segment.endTs >= ts ? segment : null;
+};
+
+// Ordered list of schema migrations. Never edit a released entry - append a
+// new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create sessions, topics, subtopics, segments and notes stores',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains('sessions')) {
+        db.createObjectStore('sessions', { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains('topics')) {
+        db.createObjectStore('topics', { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains('subtopics')) {
+        const subtopicStore = db.createObjectStore('subtopics', { keyPath: 'id' });
+        subtopicStore.createIndex('topicId', 'topicId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('segments')) {
+        const segmentStore = db.createObjectStore('segments', { keyPath: 'id' });
+        segmentStore.createIndex('sessionId', 'sessionId', { unique: false });
+        segmentStore.createIndex('topicId', 'topicId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('notes')) {
+        const noteStore = db.createObjectStore('notes', { keyPath: 'id' });
+        noteStore.createIndex('sessionId', 'sessionId', { unique: false });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Backfill source: 'timer' on existing sessions and segments",
+    migrate: async (_db, tx) => {
+      const backfill = <T extends { source?: string }>(record: T) =>
+        record.source ? undefined : { ...record, source: 'timer' };
+      await rewriteRecords(tx, 'sessions', backfill);
+      await rewriteRecords(tx, 'segments', backfill);
+    },
+  },
+  {
+    version: 3,
+    description: 'Backfill archived: false on topics and subtopics',
+    migrate: async (_db, tx) => {
+      const backfill = <T extends { archived?: boolean }>(record: T) =>
+        record.archived === undefined ? { ...record, archived: false } : undefined;
+      await rewriteRecords(tx, 'topics', backfill);
+      await rewriteRecords(tx, 'subtopics', backfill);
+    },
+  },
+  {
+    version: 4,
+    description: 'Index segments by startTs, endTs and topicId + startTs for range queries',
+    migrate: (_db, tx) => {
+      const segmentStore = tx.objectStore('segments');
+      if (!segmentStore.indexNames.contains('startTs')) {
+        segmentStore.createIndex('startTs', 'startTs', { unique: false });
+      }
+      if (!segmentStore.indexNames.contains('endTs')) {
+        segmentStore.createIndex('endTs', 'endTs', { unique: false });
+      }
+      if (!segmentStore.indexNames.contains('topicId_startTs')) {
+        segmentStore.createIndex('topicId_startTs', ['topicId', 'startTs'], { unique: false });
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Create dailyTotals rollup store and backfill it from segments',
+    migrate: async (db, tx) => {
+      if (!db.objectStoreNames.contains(DAILY_TOTALS_STORE)) {
+        db.createObjectStore(DAILY_TOTALS_STORE, { keyPath: 'date' });
+      }
+      await rebuildDailyTotalsInTransaction(tx);
+    },
+  },
+  {
+    version: 6,
+    description: 'Create trash store for the undo journal',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains('trash')) {
+        const trashStore = db.createObjectStore('trash', { keyPath: 'id' });
+        trashStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Index notes by kind and atTs and move localStorage notes and tasks into them',
+    migrate: async (_db, tx) => {
+      const noteStore = tx.objectStore('notes');
+      if (!noteStore.indexNames.contains('kind')) {
+        noteStore.createIndex('kind', 'kind', { unique: false });
+      }
+      if (!noteStore.indexNames.contains('atTs')) {
+        noteStore.createIndex('atTs', 'atTs', { unique: false });
+      }
+
+      const legacy = [
+        ...readLegacyNotes().map(n => ({ id: n.id, kind: 'note', text: n.text, atTs: n.createdAt, completed: false })),
+        ...readLegacyTasks().map(t => ({ id: t.id, kind: 'task', text: t.text, atTs: t.createdAt, completed: t.completed })),
+      ];
+      for (const entry of legacy) {
+        // Attach each entry to whatever was being studied when it was written
+        const segment = await findSegmentAt(tx, entry.atTs);
+        await promisifyRequest(noteStore.put({
+          ...entry,
+          sessionId: segment?.sessionId ?? null,
+          topicId: segment?.topicId ?? null,
+          subtopicId: segment?.subtopicId ?? null,
+        }));
+      }
+
+      // Only drop the old copies once the upgrade has committed
+      tx.addEventListener('complete', clearLegacyNotes);
+    },
+  },
+  {
+    version: 8,
+    description: 'Create sync tombstone and base stores',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains(SYNC_TOMBSTONE_STORE)) {
+        db.createObjectStore(SYNC_TOMBSTONE_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_BASE_STORE)) {
+        db.createObjectStore(SYNC_BASE_STORE, { keyPath: 'key' });
+      }
+    },
+  },
+  {
+    version: 9,
+    description: 'Create file handle store for automatic backups',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains(FILE_HANDLE_STORE)) {
+        db.createObjectStore(FILE_HANDLE_STORE, { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Create tags store and index segments and sessions by tag',
+    migrate: (db, tx) => {
+      if (!db.objectStoreNames.contains('tags')) {
+        db.createObjectStore('tags', { keyPath: 'id' });
+      }
+      const segmentStore = tx.objectStore('segments');
+      if (!segmentStore.indexNames.contains('tagIds')) {
+        segmentStore.createIndex('tagIds', 'tagIds', { unique: false, multiEntry: true });
+      }
+      const sessionStore = tx.objectStore('sessions');
+      if (!sessionStore.indexNames.contains('tagIds')) {
+        sessionStore.createIndex('tagIds', 'tagIds', { unique: false, multiEntry: true });
+      }
+    },
+  },
+  {
+    version: 11,
+    description: 'Fold subtopics into a topic tree and point segments and notes at the deepest topic',
+    migrate: async (db, tx) => {
+      const now = Date.now();
+      type LegacyTopic = { id: string; topicId?: string; parentId?: string | null };
+      type LegacyEntry = { topicId: string | null; subtopicId?: string | null };
+
+      // Sub-topics keep their ids, so anything pointing at one still does
+      const toTopic = ({ topicId, ...subtopic }: LegacyTopic) => ({ ...subtopic, parentId: topicId ?? null });
+      const withParent = <T extends LegacyTopic>(topic: T) => ({ ...topic, parentId: topic.parentId ?? null });
+      const pointAtSubtopic = <T extends LegacyEntry>({ subtopicId, ...record }: T) =>
+        subtopicId ? { ...record, topicId: subtopicId, updatedAt: now } : record;
+
+      await rewriteRecords<LegacyTopic>(tx, 'topics', topic =>
+        topic.parentId === undefined ? withParent(topic) : undefined
+      );
+      if (db.objectStoreNames.contains('subtopics')) {
+        const subtopics = await promisifyRequest<LegacyTopic[]>(tx.objectStore('subtopics').getAll());
+        const topicStore = tx.objectStore('topics');
+        for (const subtopic of subtopics) {
+          await promisifyRequest(topicStore.put({ ...toTopic(subtopic), updatedAt: now }));
+        }
+        db.deleteObjectStore('subtopics');
+      }
+
+      await rewriteRecords<LegacyEntry>(tx, 'segments', record =>
+        'subtopicId' in record ? pointAtSubtopic(record) : undefined
+      );
+      await rewriteRecords<LegacyEntry>(tx, 'notes', record =>
+        'subtopicId' in record ? pointAtSubtopic(record) : undefined
+      );
+      await rewriteRecords<{ kind: string; before: { topics: LegacyTopic[]; subtopics?: LegacyTopic[]; segments: LegacyEntry[] } }>(
+        tx,
+        'trash',
+        ({ before: { subtopics = [], ...before }, ...entry }) => ({
+          ...entry,
+          kind: entry.kind === 'subtopicDelete' ? 'topicDelete' : entry.kind,
+          before: {
+            ...before,
+            topics: [...before.topics.map(withParent), ...subtopics.map(toTopic)],
+            segments: before.segments.map(pointAtSubtopic),
+          },
+        })
+      );
+
+      // The records now live under topics; other devices fold their own copies
+      // the same way when they upgrade
+      const dropSubtopicEntry = (entry: { store: string }) => (entry.store === 'subtopics' ? null : undefined);
+      await rewriteRecords(tx, SYNC_BASE_STORE, dropSubtopicEntry);
+      await rewriteRecords(tx, SYNC_TOMBSTONE_STORE, dropSubtopicEntry);
+
+      await rebuildDailyTotalsInTransaction(tx);
+    },
+  },
+  {
+    version: 12,
+    description: 'Add distraction totals to daily totals',
+    migrate: async (_db, tx) => {
+      await rebuildDailyTotalsInTransaction(tx);
+    },
+  },
+  {
+    version: 13,
+    description: 'Turn breaks logged on sessions into break segments',
+    migrate: async (_db, tx) => {
+      const now = Date.now();
+      type LegacySession = { id: string; breaks?: { startTs: number; endTs: number }[] };
+
+      const sessions = await promisifyRequest<LegacySession[]>(tx.objectStore('sessions').getAll());
+      const segmentStore = tx.objectStore('segments');
+      for (const { id, breaks = [] } of sessions) {
+        for (const [index, { startTs, endTs }] of breaks.entries()) {
+          // Ids come from the session, so devices that upgrade separately
+          // write the same segments rather than one copy each
+          await promisifyRequest(segmentStore.put({
+            id: `${id}-break-${index}`,
+            sessionId: id,
+            topicId: null,
+            startTs,
+            endTs,
+            source: 'timer',
+            kind: 'break',
+            updatedAt: now,
+          }));
+        }
+      }
+      await rewriteRecords<LegacySession>(tx, 'sessions', ({ breaks, ...session }) =>
+        breaks ? { ...session, updatedAt: now } : undefined
+      );
+    },
+  },
+  {
+    version: 14,
+    description: 'Drop the migration snapshot store, now kept in its own database',
+    migrate: (db) => {
+      if (db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.deleteObjectStore(SNAPSHOT_STORE);
+      }
+    },
+  },
+  {
+    version: 15,
+    description: 'Index running segments by heartbeatTs, which only open timer segments carry',
+    migrate: async (_db, tx) => {
+      const segmentStore = tx.objectStore('segments');
+      if (!segmentStore.indexNames.contains('heartbeatTs')) {
+        segmentStore.createIndex('heartbeatTs', 'heartbeatTs', { unique: false });
+      }
+      await rewriteRecords<{ startTs: number; endTs: number | null; heartbeatTs?: number }>(tx, 'segments', segment =>
+        segment.endTs === null && segment.heartbeatTs === undefined
+          ? { ...segment, heartbeatTs: segment.startTs }
+          : undefined
+      );
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Migration log (localStorage)
+export const loadMigrationLog = (): MigrationLogEntry[] => {
+  const stored = profileStorage.getItem(MIGRATION_LOG_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const appendMigrationLog = (entry: MigrationLogEntry): void => {
+  const log = [...loadMigrationLog(), entry].slice(-MAX_LOG_ENTRIES);
+  profileStorage.setItem(MIGRATION_LOG_KEY, JSON.stringify(log));
+};
+
+// Open a database at whatever version it is on, without creating it.
+// Resolves null when it does not exist.
+const openExistingDatabase = (name: string): Promise<IDBDatabase | null> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name);
+    let missing = false;
+    request.onupgradeneeded = () => {
+      missing = true;
+      request.transaction!.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => (missing ? resolve(null) : reject(request.error));
+  });
+};
+
+const openSnapshotDatabase = (snapshotDbName: string): Promise<IDBDatabase> => {
+  const request = indexedDB.open(snapshotDbName, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+  };
+  return promisifyRequest(request);
+};
+
+// Copy every store of dbName into the snapshot database when it is about to
+// be upgraded to toVersion. This runs before the upgrade opens, so the copy
+// survives an upgrade that fails and rolls back. Fresh installs have nothing
+// worth snapshotting.
+export const snapshotBeforeUpgrade = async (
+  dbName: string,
+  snapshotDbName: string,
+  toVersion: number
+): Promise<void> => {
+  const db = await openExistingDatabase(dbName);
+  if (!db) return;
+
+  let snapshot: MigrationSnapshot;
+  try {
+    if (db.version >= toVersion) return;
+    const storeNames = Array.from(db.objectStoreNames).filter(name => name !== SNAPSHOT_STORE);
+    const stores: Record<string, unknown[]> = {};
+    if (storeNames.length > 0) {
+      const tx = db.transaction(storeNames);
+      for (const storeName of storeNames) {
+        stores[storeName] = await promisifyRequest(tx.objectStore(storeName).getAll());
+      }
+    }
+    snapshot = {
+      id: SNAPSHOT_ID,
+      fromVersion: db.version,
+      toVersion,
+      createdAt: Date.now(),
+      stores,
+    };
+  } finally {
+    // The upgrade waits for every other connection to close
+    db.close();
+  }
+
+  const snapshotDb = await openSnapshotDatabase(snapshotDbName);
+  try {
+    const tx = snapshotDb.transaction(SNAPSHOT_STORE, 'readwrite');
+    tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    snapshotDb.close();
+  }
+};
+
+export const readMigrationSnapshot = async (snapshotDbName: string): Promise<MigrationSnapshot | null> => {
+  const db = await openExistingDatabase(snapshotDbName);
+  if (!db) return null;
+  try {
+    if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) return null;
+    const snapshots = await promisifyRequest(db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).getAll());
+    return snapshots[0] ?? null;
+  } finally {
+    db.close();
+  }
+};
+
+// Once an upgrade has committed the copy is only a stale, possibly cleartext
+// duplicate of the data
+export const deleteMigrationSnapshot = (snapshotDbName: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(snapshotDbName);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run every migration between oldVersion and newVersion. Throws on the first
+// failure; the caller is expected to abort the versionchange transaction.
+export const runMigrations = async (
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number,
+  newVersion: number
+): Promise<void> => {
+  const pending = MIGRATIONS.filter(m => m.version > oldVersion && m.version <= newVersion);
+  if (pending.length === 0) return;
+
+  // Only record successes once the transaction actually commits
+  const applied: MigrationLogEntry[] = [];
+  tx.addEventListener('complete', () => applied.forEach(appendMigrationLog));
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate(db, tx);
+      applied.push({
+        version: migration.version,
+        description: migration.description,
+        status: 'applied',
+        ranAt: Date.now(),
+      });
+    } catch (error) {
+      appendMigrationLog({
+        version: migration.version,
+        description: migration.description,
+        status: 'failed',
+        ranAt: Date.now(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      console.error(`[db] Migration v${migration.version} failed, rolling back:`, error);
+      throw error;
+    }
+  }
+};
@@ -1,13 +1,17 @@
-// Session notes and tasks management
+// Legacy session notes and tasks from localStorage
+//
+// Notes and tasks now live in the IndexedDB notes store (schema v7). These
+// readers only feed the one-time migration that moves the old entries over.
+import { profileStorage } from '@/lib/profiles';
 
-export interface StudyTask {
+export interface LegacyStudyTask {
   id: string;
   text: string;
   completed: boolean;
   createdAt: number;
 }
 
-export interface SessionNote {
+export interface LegacySessionNote {
   id: string;
   text: string;
   createdAt: number;
@@ -17,72 +21,12 @@ export interface SessionNote {
 const TASKS_STORAGE_KEY = 'studywatch-tasks';
 const NOTES_STORAGE_KEY = 'studywatch-notes';
 
-// Generate unique ID
-const generateId = (): string => {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
-};
-
-// Get today's date string
-const getTodayString = (): string => {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-};
-
-// Tasks (to-do list)
-export const loadTasks = (): StudyTask[] => {
-  const stored = localStorage.getItem(TASKS_STORAGE_KEY);
-  if (stored) {
-    try {
-      return JSON.parse(stored);
-    } catch {
-      return [];
-    }
-  }
-  return [];
-};
-
-export const saveTasks = (tasks: StudyTask[]): void => {
-  localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(tasks));
-};
-
-export const addTask = (text: string): StudyTask => {
-  const tasks = loadTasks();
-  const newTask: StudyTask = {
-    id: generateId(),
-    text,
-    completed: false,
-    createdAt: Date.now(),
-  };
-  tasks.unshift(newTask);
-  saveTasks(tasks);
-  return newTask;
-};
-
-export const toggleTask = (id: string): void => {
-  const tasks = loadTasks();
-  const task = tasks.find(t => t.id === id);
-  if (task) {
-    task.completed = !task.completed;
-    saveTasks(tasks);
-  }
-};
-
-export const deleteTask = (id: string): void => {
-  const tasks = loadTasks().filter(t => t.id !== id);
-  saveTasks(tasks);
-};
-
-export const clearCompletedTasks = (): void => {
-  const tasks = loadTasks().filter(t => !t.completed);
-  saveTasks(tasks);
-};
-
-// Notes
-export const loadNotes = (): SessionNote[] => {
-  const stored = localStorage.getItem(NOTES_STORAGE_KEY);
+const readList = <T>(key: string): T[] => {
+  const stored = profileStorage.getItem(key);
   if (stored) {
     try {
-      return JSON.parse(stored);
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
     } catch {
       return [];
     }
@@ -90,32 +34,11 @@ export const loadNotes = (): SessionNote[] => {
   return [];
 };
 
-export const saveNotes = (notes: SessionNote[]): void => {
-  localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
-};
-
-export const addNote = (text: string): SessionNote => {
-  const notes = loadNotes();
-  const newNote: SessionNote = {
-    id: generateId(),
-    text,
-    createdAt: Date.now(),
-    sessionDate: getTodayString(),
-  };
-  notes.unshift(newNote);
-  saveNotes(notes);
-  return newNote;
-};
+export const readLegacyTasks = (): LegacyStudyTask[] => readList<LegacyStudyTask>(TASKS_STORAGE_KEY);
 
-export const deleteNote = (id: string): void => {
-  const notes = loadNotes().filter(n => n.id !== id);
-  saveNotes(notes);
-};
-
-export const getNotesByDate = (date: string): SessionNote[] => {
-  return loadNotes().filter(n => n.sessionDate === date);
-};
+export const readLegacyNotes = (): LegacySessionNote[] => readList<LegacySessionNote>(NOTES_STORAGE_KEY);
 
-export const getTodayNotes = (): SessionNote[] => {
-  return getNotesByDate(getTodayString());
+export const clearLegacyNotes = (): void => {
+  profileStorage.removeItem(TASKS_STORAGE_KEY);
+  profileStorage.removeItem(NOTES_STORAGE_KEY);
 };
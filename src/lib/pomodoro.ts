@@ -1,4 +1,6 @@
 // Pomodoro settings and state management
+import { profileStorage } from '@/lib/profiles';
+
 export interface PomodoroSettings {
   workDuration: number; // in minutes
   shortBreakDuration: number;
@@ -32,11 +34,11 @@ export const POMODORO_PRESETS = [
 const POMODORO_STORAGE_KEY = 'studywatch-pomodoro-settings';
 
 export const savePomodoroSettings = (settings: PomodoroSettings): void => {
-  localStorage.setItem(POMODORO_STORAGE_KEY, JSON.stringify(settings));
+  profileStorage.setItem(POMODORO_STORAGE_KEY, JSON.stringify(settings));
 };
 
 export const loadPomodoroSettings = (): PomodoroSettings => {
-  const stored = localStorage.getItem(POMODORO_STORAGE_KEY);
+  const stored = profileStorage.getItem(POMODORO_STORAGE_KEY);
   if (stored) {
     try {
       return JSON.parse(stored);
@@ -0,0 +1,244 @@
+// Local profiles - separate trackers sharing one browser
+//
+// Each profile gets its own IndexedDB database and its own namespace for
+// studywatch-* settings. The default profile keeps the original unscoped
+// names, so data from before profiles existed stays where it was. The active
+// profile is read once at page load; switching reloads the page.
+//
+// PINs keep housemates out of each other's trackers. They are not
+// encryption: the data itself stays readable to anyone with devtools.
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface ProfilePin {
+  salt: string;
+  hash: string; // SHA-256 of salt and PIN, hex
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+  pin: ProfilePin | null;
+}
+
+// Shared by every profile, so never scoped
+const PROFILES_KEY = 'studywatch-profiles';
+const ACTIVE_PROFILE_KEY = 'studywatch-active-profile';
+const GLOBAL_KEYS = new Set([PROFILES_KEY, ACTIVE_PROFILE_KEY]);
+// Per tab, so a new tab asks for the PIN again
+const UNLOCKED_KEY = 'studywatch-unlocked-profile';
+
+const SETTINGS_PREFIX = 'studywatch-';
+const SCOPED_PREFIX = 'studywatch@';
+
+// Data rather than preferences, left behind when copying settings
+const UNCOPIED_SETTINGS = new Set([
+  'studywatch-migration-log',
+  'studywatch-pomodoro-state',
+  'studywatch-achievements',
+  'studywatch-achievement-progress',
+  'studywatch-tasks',
+  'studywatch-notes',
+  'studywatch-encryption',
+  'studywatch-sync-config',
+  'studywatch-sync-conflicts',
+  'studywatch-auto-backup',
+]);
+
+const createDefaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  createdAt: 0,
+  pin: null,
+});
+
+export const loadProfiles = (): Profile[] => {
+  const stored = localStorage.getItem(PROFILES_KEY);
+  let profiles: Profile[] = [];
+  if (stored) {
+    try {
+      profiles = JSON.parse(stored);
+    } catch {
+      profiles = [];
+    }
+  }
+  if (!profiles.some(p => p.id === DEFAULT_PROFILE_ID)) {
+    profiles.unshift(createDefaultProfile());
+  }
+  return profiles;
+};
+
+const saveProfiles = (profiles: Profile[]): void => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const resolveActiveProfileId = (): string => {
+  const stored = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return stored && loadProfiles().some(p => p.id === stored) ? stored : DEFAULT_PROFILE_ID;
+};
+
+const activeProfileId = resolveActiveProfileId();
+
+export const getActiveProfileId = (): string => activeProfileId;
+
+export const getActiveProfile = (): Profile => {
+  return loadProfiles().find(p => p.id === activeProfileId) ?? createDefaultProfile();
+};
+
+// Database, channel and lock names for a profile
+export const getProfileScopedName = (name: string, profileId: string = activeProfileId): string => {
+  return profileId === DEFAULT_PROFILE_ID ? name : `${name}@${profileId}`;
+};
+
+export const getProfileDbName = (profileId: string = activeProfileId): string => {
+  return getProfileScopedName('studywatch', profileId);
+};
+
+// Holds the copy taken before a schema upgrade, apart from the data it copies
+export const getProfileSnapshotDbName = (profileId: string = activeProfileId): string => {
+  return getProfileScopedName('studywatch-snapshot', profileId);
+};
+
+const scopeKey = (key: string, profileId: string): string => {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${SCOPED_PREFIX}${profileId}/${key}`;
+};
+
+// Unscoped studywatch-* keys stored for a profile
+const listProfileKeys = (profileId: string): string[] => {
+  const keys: string[] = [];
+  const scopedPrefix = `${SCOPED_PREFIX}${profileId}/`;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+    if (profileId === DEFAULT_PROFILE_ID) {
+      if (key.startsWith(SETTINGS_PREFIX) && !GLOBAL_KEYS.has(key)) keys.push(key);
+    } else if (key.startsWith(scopedPrefix)) {
+      keys.push(key.slice(scopedPrefix.length));
+    }
+  }
+  return keys;
+};
+
+// localStorage for the active profile; takes the usual studywatch-* keys
+export const profileStorage = {
+  getItem: (key: string): string | null => localStorage.getItem(scopeKey(key, activeProfileId)),
+  setItem: (key: string, value: string): void => localStorage.setItem(scopeKey(key, activeProfileId), value),
+  removeItem: (key: string): void => localStorage.removeItem(scopeKey(key, activeProfileId)),
+  keys: (): string[] => listProfileKeys(activeProfileId),
+};
+
+const hashPin = async (salt: string, pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const requireProfile = (id: string): Profile => {
+  const profile = loadProfiles().find(p => p.id === id);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+  return profile;
+};
+
+export const verifyPin = async (profile: Profile, pin: string): Promise<boolean> => {
+  if (!profile.pin) return true;
+  return (await hashPin(profile.pin.salt, pin)) === profile.pin.hash;
+};
+
+export const isProfileUnlocked = (profile: Profile = getActiveProfile()): boolean => {
+  return !profile.pin || sessionStorage.getItem(UNLOCKED_KEY) === profile.id;
+};
+
+export const unlockActiveProfile = async (pin: string): Promise<boolean> => {
+  const profile = getActiveProfile();
+  if (!(await verifyPin(profile, pin))) return false;
+  sessionStorage.setItem(UNLOCKED_KEY, profile.id);
+  return true;
+};
+
+const requireName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Name cannot be empty');
+  }
+  if (loadProfiles().some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A profile called "${trimmed}" already exists`);
+  }
+  return trimmed;
+};
+
+export const createProfile = (name: string): Profile => {
+  const profile: Profile = {
+    id: crypto.randomUUID(),
+    name: requireName(name),
+    createdAt: Date.now(),
+    pin: null,
+  };
+  saveProfiles([...loadProfiles(), profile]);
+  return profile;
+};
+
+export const renameProfile = (id: string, name: string): void => {
+  const trimmed = requireName(name);
+  saveProfiles(loadProfiles().map(p => (p.id === id ? { ...p, name: trimmed } : p)));
+};
+
+// Pass null to remove the PIN
+export const setProfilePin = async (id: string, pin: string | null): Promise<void> => {
+  let value: ProfilePin | null = null;
+  if (pin !== null) {
+    if (!/^\d{4,8}$/.test(pin)) {
+      throw new Error('PIN must be 4 to 8 digits');
+    }
+    const salt = crypto.randomUUID();
+    value = { salt, hash: await hashPin(salt, pin) };
+  }
+  saveProfiles(loadProfiles().map(p => (p.id === id ? { ...p, pin: value } : p)));
+  if (id === activeProfileId && value) {
+    sessionStorage.setItem(UNLOCKED_KEY, id);
+  }
+};
+
+// Make another profile active; the caller reloads the page afterwards
+export const switchProfile = async (id: string, pin: string = ''): Promise<void> => {
+  const profile = requireProfile(id);
+  if (!(await verifyPin(profile, pin))) {
+    throw new Error('Wrong PIN');
+  }
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  sessionStorage.setItem(UNLOCKED_KEY, id);
+};
+
+const deleteDatabase = (name: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open; it is removed once that tab closes
+    request.onblocked = () => resolve();
+  });
+};
+
+// Remove a profile with its database and settings
+export const deleteProfile = async (id: string): Promise<void> => {
+  if (id === DEFAULT_PROFILE_ID || id === activeProfileId) {
+    throw new Error('The default and active profiles cannot be deleted');
+  }
+  requireProfile(id);
+  listProfileKeys(id).forEach(key => localStorage.removeItem(scopeKey(key, id)));
+  saveProfiles(loadProfiles().filter(p => p.id !== id));
+  await deleteDatabase(getProfileDbName(id));
+  await deleteDatabase(getProfileSnapshotDbName(id));
+};
+
+// Copy preferences (goals, timer, sound, reminders...) into the active
+// profile. Returns how many settings were copied.
+export const copyProfileSettings = (fromId: string): number => {
+  const keys = listProfileKeys(fromId).filter(key => !UNCOPIED_SETTINGS.has(key));
+  keys.forEach(key => {
+    const value = localStorage.getItem(scopeKey(key, fromId));
+    if (value !== null) profileStorage.setItem(key, value);
+  });
+  return keys.length;
+};
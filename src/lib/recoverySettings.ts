@@ -0,0 +1,25 @@
+// Heartbeat gap threshold with localStorage persistence
+//
+// A running segment whose last heartbeat is older than this, on startup or
+// after the machine wakes, was probably abandoned and needs a decision.
+import { profileStorage } from '@/lib/profiles';
+
+const RECOVERY_GAP_KEY = 'studywatch-recovery-gap';
+
+export const DEFAULT_RECOVERY_GAP_MINUTES = 15;
+export const RECOVERY_GAP_OPTIONS = [5, 15, 30, 60, 120];
+
+export const loadRecoveryGapMinutes = (): number => {
+  const stored = profileStorage.getItem(RECOVERY_GAP_KEY);
+  if (stored) {
+    const minutes = parseInt(stored, 10);
+    if (!isNaN(minutes) && minutes > 0) {
+      return minutes;
+    }
+  }
+  return DEFAULT_RECOVERY_GAP_MINUTES;
+};
+
+export const saveRecoveryGapMinutes = (minutes: number): void => {
+  profileStorage.setItem(RECOVERY_GAP_KEY, String(minutes));
+};
@@ -0,0 +1,12 @@
+// End-of-session reflection prompt setting with localStorage persistence
+import { profileStorage } from '@/lib/profiles';
+
+const REFLECTION_PROMPT_KEY = 'studywatch-reflection-prompt';
+
+export const loadReflectionPromptEnabled = (): boolean => {
+  return profileStorage.getItem(REFLECTION_PROMPT_KEY) !== 'off';
+};
+
+export const saveReflectionPromptEnabled = (enabled: boolean): void => {
+  profileStorage.setItem(REFLECTION_PROMPT_KEY, enabled ? 'on' : 'off');
+};
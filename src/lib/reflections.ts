@@ -0,0 +1,120 @@
+// End-of-session reflections - labels for the rating scales, and the focus
+// report that relates ratings to when, how long and what was studied
+import type { Segment, Session } from '@/lib/db';
+import { getTopicPath, type TopicTree } from '@/lib/topicTree';
+import { isStudySegment } from '@/lib/segmentKinds';
+
+export const RATING_VALUES = [1, 2, 3, 4, 5];
+export const MOOD_EMOJI = ['😣', '😕', '😐', '🙂', '😄'];
+export const ENERGY_LABELS = ['Drained', 'Low', 'Steady', 'Good', 'Energized'];
+
+export const getMoodEmoji = (mood: number | null): string | null => (mood ? MOOD_EMOJI[mood - 1] ?? null : null);
+export const getEnergyLabel = (energy: number | null): string | null => (energy ? ENERGY_LABELS[energy - 1] ?? null : null);
+
+export interface FocusBucket {
+  key: string;
+  label: string;
+  averageFocus: number;
+  sessions: number;
+}
+
+export interface FocusReport {
+  byTimeOfDay: FocusBucket[];
+  byLength: FocusBucket[];
+  byTopic: FocusBucket[];
+  averageFocus: number;
+  sessions: number;
+}
+
+type RatingGroup = Map<string, { label: string; ratings: number[] }>;
+
+const TIME_OF_DAY = [
+  { key: 'morning', label: 'Morning (5–12)', from: 5, to: 12 },
+  { key: 'afternoon', label: 'Afternoon (12–17)', from: 12, to: 17 },
+  { key: 'evening', label: 'Evening (17–22)', from: 17, to: 22 },
+  { key: 'night', label: 'Night (22–5)', from: 22, to: 29 },
+];
+
+const LENGTHS = [
+  { key: 'short', label: 'Under 25 min', upTo: 25 },
+  { key: 'medium', label: '25–60 min', upTo: 60 },
+  { key: 'long', label: '1–2 hours', upTo: 120 },
+  { key: 'marathon', label: 'Over 2 hours', upTo: Infinity },
+];
+
+const getTimeOfDay = (ts: number) => {
+  const hour = new Date(ts).getHours();
+  const shifted = hour < 5 ? hour + 24 : hour;
+  return TIME_OF_DAY.find(slot => shifted >= slot.from && shifted < slot.to) ?? TIME_OF_DAY[0];
+};
+
+const getLength = (ms: number) => LENGTHS.find(length => ms / 60000 < length.upTo) ?? LENGTHS[LENGTHS.length - 1];
+
+// The top-level topic that got the most of the session's time
+const getMainTopic = (tree: TopicTree, segments: Segment[]): { key: string; label: string } => {
+  const timeByRoot = new Map<string | null, number>();
+  segments.forEach(seg => {
+    const rootId = getTopicPath(tree, seg.topicId)[0]?.id ?? null;
+    timeByRoot.set(rootId, (timeByRoot.get(rootId) || 0) + (seg.endTs! - seg.startTs));
+  });
+  const [mainId] = Array.from(timeByRoot.entries()).sort((a, b) => b[1] - a[1])[0] ?? [null];
+  return mainId
+    ? { key: mainId, label: tree.byId.get(mainId)?.name ?? 'Unknown' }
+    : { key: 'no-topic', label: 'No Topic' };
+};
+
+export const buildFocusReport = (
+  sessions: Session[],
+  segments: Segment[],
+  tree: TopicTree
+): FocusReport => {
+  const segmentsBySession = new Map<string, Segment[]>();
+  segments
+    .filter(seg => seg.endTs !== null && isStudySegment(seg))
+    .forEach(seg => segmentsBySession.set(seg.sessionId, [...(segmentsBySession.get(seg.sessionId) ?? []), seg]));
+
+  const groups: Record<'byTimeOfDay' | 'byLength' | 'byTopic', RatingGroup> = {
+    byTimeOfDay: new Map(),
+    byLength: new Map(),
+    byTopic: new Map(),
+  };
+  const add = (group: RatingGroup, key: string, label: string, focus: number) => {
+    const entry = group.get(key) ?? { label, ratings: [] };
+    entry.ratings.push(focus);
+    group.set(key, entry);
+  };
+
+  const rated = sessions.filter(session => session.reflection);
+  rated.forEach(session => {
+    const focus = session.reflection!.focus;
+    const sessionSegments = segmentsBySession.get(session.id) ?? [];
+    const studyTime = sessionSegments.reduce((sum, seg) => sum + (seg.endTs! - seg.startTs), 0);
+    const slot = getTimeOfDay(session.startTs);
+    const length = getLength(studyTime);
+    const topic = getMainTopic(tree, sessionSegments);
+    add(groups.byTimeOfDay, slot.key, slot.label, focus);
+    add(groups.byLength, length.key, length.label, focus);
+    add(groups.byTopic, topic.key, topic.label, focus);
+  });
+
+  const average = (ratings: number[]) => ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+  const toBuckets = (group: RatingGroup, order?: { key: string }[]) => {
+    const buckets = Array.from(group.entries()).map(([key, { label, ratings }]) => ({
+      key,
+      label,
+      averageFocus: average(ratings),
+      sessions: ratings.length,
+    }));
+    return order
+      ? buckets.sort((a, b) => order.findIndex(o => o.key === a.key) - order.findIndex(o => o.key === b.key))
+      : buckets.sort((a, b) => b.sessions - a.sessions);
+  };
+
+  return {
+    byTimeOfDay: toBuckets(groups.byTimeOfDay, TIME_OF_DAY),
+    byLength: toBuckets(groups.byLength, LENGTHS),
+    byTopic: toBuckets(groups.byTopic),
+    averageFocus: rated.length > 0 ? average(rated.map(session => session.reflection!.focus)) : 0,
+    sessions: rated.length,
+  };
+};
@@ -0,0 +1,15 @@
+// Segment kinds - study time, and the breaks and pauses recorded between it
+//
+// Segments written before breaks were recorded have no kind and are study.
+// Breaks and pauses are kept out of every study total.
+import type { Segment, SegmentKind } from '@/lib/db';
+
+export const SEGMENT_KIND_LABELS: Record<SegmentKind, string> = {
+  study: 'Study',
+  break: 'Break',
+  pause: 'Paused',
+};
+
+export const getSegmentKind = (segment: Segment): SegmentKind => segment.kind ?? 'study';
+
+export const isStudySegment = (segment: Segment): boolean => getSegmentKind(segment) === 'study';
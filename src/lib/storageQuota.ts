@@ -0,0 +1,79 @@
+// Persistent storage and quota
+//
+// Without persistence the browser may evict IndexedDB and localStorage under
+// storage pressure, taking the whole history with it. Persistence is granted
+// per origin, so it covers every profile at once.
+import { getStoreSizes } from '@/lib/db';
+import { profileStorage } from '@/lib/profiles';
+import { DAILY_TOTALS_STORE } from '@/lib/dailyTotals';
+
+export interface StorageEstimate {
+  usage: number; // bytes used by this origin
+  quota: number; // bytes the browser will allow
+}
+
+export interface StorageBreakdownItem {
+  label: string;
+  bytes: number;
+}
+
+// Warn once usage passes this share of the quota
+export const STORAGE_WARNING_RATIO = 0.8;
+
+// Origin-wide, like the persistence it remembers
+const PERSIST_REQUESTED_KEY = 'storage-persist-requested';
+
+const STORE_GROUPS: Record<string, string> = {
+  sessions: 'Sessions & segments',
+  segments: 'Sessions & segments',
+  [DAILY_TOTALS_STORE]: 'Sessions & segments',
+  notes: 'Notes & tasks',
+  topics: 'Topics',
+  tags: 'Topics',
+  trash: 'Trash',
+};
+
+export const isStorageManagerSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && !!navigator.storage?.persist;
+};
+
+// null when the browser cannot tell
+export const isStoragePersisted = async (): Promise<boolean | null> => {
+  if (!isStorageManagerSupported()) return null;
+  return navigator.storage.persisted();
+};
+
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!isStorageManagerSupported()) return false;
+  localStorage.setItem(PERSIST_REQUESTED_KEY, Date.now().toString());
+  return navigator.storage.persist();
+};
+
+// Ask once on first run; afterwards only when the user asks, since some
+// browsers show a permission prompt each time
+export const requestPersistentStorageOnce = async (): Promise<boolean | null> => {
+  const persisted = await isStoragePersisted();
+  if (persisted !== false || localStorage.getItem(PERSIST_REQUESTED_KEY)) return persisted;
+  return requestPersistentStorage();
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+export const isNearQuota = (estimate: StorageEstimate): boolean => {
+  return estimate.usage / estimate.quota >= STORAGE_WARNING_RATIO;
+};
+
+// Approximate bytes per kind of data in the active profile, largest first
+export const getStorageBreakdown = async (): Promise<StorageBreakdownItem[]> => {
+  const totals = new Map<string, number>();
+  const add = (label: string, bytes: number) => totals.set(label, (totals.get(label) || 0) + bytes);
+
+  Object.entries(await getStoreSizes()).forEach(([store, bytes]) => add(STORE_GROUPS[store] ?? 'Other', bytes));
+  profileStorage.keys().forEach(key => add('Settings', key.length + (profileStorage.getItem(key)?.length ?? 0)));
+
+  return Array.from(totals, ([label, bytes]) => ({ label, bytes })).sort((a, b) => b.bytes - a.bytes);
+};
@@ -0,0 +1,502 @@
+// Sync engine - exchanges changes with a sync server through a pluggable
+// transport
+//
+// Local changes are found by comparing each record with its base copy from
+// the last sync (see lib/syncMeta) and are pushed as the fields that changed,
+// timed by the record's updatedAt. Pulled changes are merged field by field:
+// the value with the newest (time, device) clock wins, so devices that have
+// seen the same changes end up with the same records. Deletion is a field as
+// well, so an edit made after a delete brings the record back. Segments are
+// merged as a union by id; when two devices recorded overlapping time, both
+// segments are kept and the overlap is reported.
+import { SyncWrite, applySyncChanges, getSyncSnapshot } from '@/lib/db';
+import { isEncryptionEnabled } from '@/lib/encryption';
+import { getProfileScopedName, profileStorage } from '@/lib/profiles';
+import {
+  FieldClock,
+  SYNCED_STORES,
+  SyncBaseEntry,
+  SyncedStoreName,
+  getSyncKey,
+} from '@/lib/syncMeta';
+import { broadcastDataChanged } from '@/lib/tabSync';
+
+export type SyncStoreName = SyncedStoreName | 'settings';
+
+export interface SyncChange {
+  store: SyncStoreName;
+  id: string;
+  deviceId: string;
+  updatedAt: number;
+  deleted: boolean;
+  fields: Record<string, unknown>; // only the fields that changed
+}
+
+export interface SyncPullResult {
+  changes: SyncChange[];
+  cursor: string;
+}
+
+// Anything that can keep an ordered change log can back sync
+export interface SyncTransport {
+  push: (changes: SyncChange[]) => Promise<void>;
+  pull: (cursor: string | null) => Promise<SyncPullResult>; // changes after the cursor, oldest first
+}
+
+export interface SyncConfig {
+  serverUrl: string;
+  space: string; // devices in the same space share data
+  deviceId: string;
+  cursor: string | null;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+export interface SyncConflict {
+  id: string;
+  at: number;
+  store: SyncStoreName;
+  recordId: string;
+  field: string;
+  kept: 'local' | 'remote' | 'both';
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+}
+
+const CONFIG_KEY = 'studywatch-sync-config';
+const CONFLICTS_KEY = 'studywatch-sync-conflicts';
+const MAX_CONFLICTS = 100;
+const SYNC_LOCK = getProfileScopedName('studywatch-sync-run');
+
+export const DEFAULT_SYNC_SERVER_URL = 'http://127.0.0.1:8787';
+
+// Settings that describe the user's progress rather than this device. They
+// have no updatedAt, so their changes are timed when a sync finds them.
+const SYNCED_SETTINGS = [
+  'studywatch-daily-goal',
+  'studywatch-weekly-goal',
+  'studywatch-achievements',
+  'studywatch-achievement-progress',
+];
+
+const DELETED_FIELD = '_deleted';
+
+// Bookkeeping that stays on this device
+const LOCAL_FIELDS = new Set(['id', 'updatedAt', 'heartbeatTs']);
+
+type SyncRecord = Record<string, unknown>;
+
+// Config
+
+const createDefaultConfig = (): SyncConfig => ({
+  serverUrl: '',
+  space: '',
+  deviceId: crypto.randomUUID(),
+  cursor: null,
+  lastSyncAt: null,
+  lastError: null,
+});
+
+export const loadSyncConfig = (): SyncConfig => {
+  const stored = profileStorage.getItem(CONFIG_KEY);
+  if (stored) {
+    try {
+      return { ...createDefaultConfig(), ...JSON.parse(stored) };
+    } catch {
+      // Fall through to a fresh config
+    }
+  }
+  const config = createDefaultConfig();
+  saveSyncConfig(config);
+  return config;
+};
+
+const saveSyncConfig = (config: SyncConfig): void => {
+  profileStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const isSyncConfigured = (config: SyncConfig = loadSyncConfig()): boolean => {
+  return config.serverUrl !== '' && config.space !== '';
+};
+
+// Pointing at another server or space starts over from its full history
+export const setSyncServer = (serverUrl: string, space: string): void => {
+  const config = loadSyncConfig();
+  const url = serverUrl.trim().replace(/\/+$/, '');
+  const name = space.trim();
+  if (url && !/^https?:\/\//.test(url)) {
+    throw new Error('Server URL must start with http:// or https://');
+  }
+  if (url === config.serverUrl && name === config.space) return;
+  saveSyncConfig({ ...config, serverUrl: url, space: name, cursor: null, lastSyncAt: null, lastError: null });
+};
+
+export const loadSyncConflicts = (): SyncConflict[] => {
+  const stored = profileStorage.getItem(CONFLICTS_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+export const clearSyncConflicts = (): void => {
+  profileStorage.removeItem(CONFLICTS_KEY);
+};
+
+const saveSyncConflicts = (conflicts: SyncConflict[]): void => {
+  if (conflicts.length === 0) return;
+  const all = [...conflicts, ...loadSyncConflicts()].slice(0, MAX_CONFLICTS);
+  profileStorage.setItem(CONFLICTS_KEY, JSON.stringify(all));
+};
+
+// HTTP transport for server/sync-server.mjs
+
+export const createHttpTransport = (serverUrl: string, space: string): SyncTransport => {
+  const changesUrl = `${serverUrl}/spaces/${encodeURIComponent(space)}/changes`;
+
+  const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+    } catch {
+      throw new Error(`Could not reach the sync server at ${serverUrl}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Sync server answered ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    push: async (changes) => {
+      if (changes.length === 0) return;
+      await request(changesUrl, { method: 'POST', body: JSON.stringify({ changes }) });
+    },
+    pull: async (cursor) => {
+      const result = await request<SyncPullResult>(`${changesUrl}?since=${encodeURIComponent(cursor ?? '0')}`);
+      if (!Array.isArray(result.changes) || typeof result.cursor !== 'string') {
+        throw new Error('Sync server sent an unexpected response');
+      }
+      return result;
+    },
+  };
+};
+
+// Local state
+
+interface LocalRecord {
+  store: SyncStoreName;
+  id: string;
+  record: SyncRecord | null; // null when deleted here
+}
+
+interface LocalState {
+  records: Map<string, LocalRecord>;
+  base: Map<string, SyncBaseEntry>;
+  deletedAt: Map<string, number>;
+  tombstoneKeys: string[];
+}
+
+const readSettingRecord = (key: string): SyncRecord | null => {
+  const stored = profileStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    const value = JSON.parse(stored);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const readLocalState = async (): Promise<LocalState> => {
+  const snapshot = await getSyncSnapshot();
+  const records = new Map<string, LocalRecord>();
+  SYNCED_STORES.forEach(store => {
+    snapshot.records[store].forEach(record => {
+      records.set(getSyncKey(store, record.id), { store, id: record.id, record: record as SyncRecord });
+    });
+  });
+  SYNCED_SETTINGS.forEach(key => {
+    const record = readSettingRecord(key);
+    if (record) records.set(getSyncKey('settings', key), { store: 'settings', id: key, record });
+  });
+  return {
+    records,
+    base: new Map(snapshot.base.map(entry => [entry.key, entry])),
+    deletedAt: new Map(snapshot.tombstones.map(tombstone => [tombstone.key, tombstone.deletedAt])),
+    tombstoneKeys: snapshot.tombstones.map(tombstone => tombstone.key),
+  };
+};
+
+const stripLocalFields = (record: SyncRecord): SyncRecord => {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !LOCAL_FIELDS.has(field)));
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// A running timer keeps changing; its session and segment sync once closed
+const isRunning = (record: SyncRecord): boolean => 'endTs' in record && record.endTs === null;
+
+const parseKey = (key: string): { store: SyncStoreName; id: string } => {
+  const separator = key.indexOf(':');
+  return { store: key.slice(0, separator) as SyncStoreName, id: key.slice(separator + 1) };
+};
+
+const collectLocalChanges = (state: LocalState, deviceId: string, now: number): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  const keys = new Set([...state.records.keys(), ...state.base.keys()]);
+  keys.forEach(key => {
+    const current = state.records.get(key)?.record ?? null;
+    const baseRecord = state.base.get(key)?.record ?? null;
+    const { store, id } = parseKey(key);
+
+    if (!current) {
+      if (!baseRecord) return;
+      changes.push({
+        store,
+        id,
+        deviceId,
+        updatedAt: state.deletedAt.get(key) ?? now,
+        deleted: true,
+        fields: { [DELETED_FIELD]: true },
+      });
+      return;
+    }
+    if (isRunning(current)) return;
+
+    const values = stripLocalFields(current);
+    const fields: SyncRecord = {};
+    new Set([...Object.keys(values), ...Object.keys(baseRecord ?? {})]).forEach(field => {
+      if (LOCAL_FIELDS.has(field)) return;
+      if (!baseRecord || !sameValue(values[field], baseRecord[field])) {
+        fields[field] = values[field] ?? null;
+      }
+    });
+    if (Object.keys(fields).length === 0) return;
+
+    changes.push({
+      store,
+      id,
+      deviceId,
+      updatedAt: typeof current.updatedAt === 'number' ? current.updatedAt : now,
+      deleted: false,
+      fields,
+    });
+  });
+  return changes;
+};
+
+// Merge
+
+// Any change other than a delete also says the record exists, timed like its
+// fields, so an edit made after a delete on another device restores it
+const getChangeFields = (change: SyncChange): SyncRecord => {
+  return change.deleted ? { [DELETED_FIELD]: true } : { [DELETED_FIELD]: false, ...change.fields };
+};
+
+const isNewer = (clock: FieldClock, existing: FieldClock | undefined): boolean => {
+  if (!existing) return true;
+  return clock.ts > existing.ts || (clock.ts === existing.ts && clock.device > existing.device);
+};
+
+interface MergeEntry {
+  store: SyncStoreName;
+  id: string;
+  current: SyncRecord | null;
+  values: SyncRecord; // merged fields, deletion included
+  clocks: Record<string, FieldClock>;
+  localFields: Set<string>;
+  changedByRemote: boolean;
+}
+
+const isKnownStore = (store: unknown): store is SyncStoreName => {
+  return store === 'settings' || SYNCED_STORES.includes(store as SyncedStoreName);
+};
+
+const segmentsOverlap = (a: SyncRecord, b: SyncRecord): boolean => {
+  const [aStart, aEnd, bStart, bEnd] = [a.startTs, a.endTs, b.startTs, b.endTs] as (number | null)[];
+  if (aStart === null || bStart === null) return false;
+  return aStart < (bEnd ?? Infinity) && bStart < (aEnd ?? Infinity);
+};
+
+const mergeChanges = (
+  state: LocalState,
+  localChanges: SyncChange[],
+  remoteChanges: SyncChange[],
+  deviceId: string,
+  now: number
+) => {
+  const entries = new Map<string, MergeEntry>();
+  const conflicts = new Map<string, SyncConflict>();
+
+  const getEntry = (store: SyncStoreName, id: string): MergeEntry => {
+    const key = getSyncKey(store, id);
+    let entry = entries.get(key);
+    if (!entry) {
+      const current = state.records.get(key)?.record ?? null;
+      // A record deleted here starts from its base copy, in case it comes back
+      const known = current ?? state.base.get(key)?.record ?? {};
+      entry = {
+        store,
+        id,
+        current,
+        values: { ...known, [DELETED_FIELD]: current === null },
+        clocks: { ...(state.base.get(key)?.clocks ?? {}) },
+        localFields: new Set(),
+        changedByRemote: false,
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  localChanges.forEach(change => {
+    const entry = getEntry(change.store, change.id);
+    Object.keys(getChangeFields(change)).forEach(field => {
+      entry.clocks[field] = { ts: change.updatedAt, device: deviceId };
+      entry.localFields.add(field);
+    });
+  });
+
+  remoteChanges.forEach(change => {
+    if (change.deviceId === deviceId || !isKnownStore(change.store) || typeof change.id !== 'string') return;
+    if (change.store === 'settings' && !SYNCED_SETTINGS.includes(change.id)) return;
+    const entry = getEntry(change.store, change.id);
+    const clock = { ts: change.updatedAt, device: change.deviceId };
+
+    Object.entries(getChangeFields(change)).forEach(([field, value]) => {
+      if (LOCAL_FIELDS.has(field)) return;
+      const localValue = entry.values[field];
+      const isConflict = entry.localFields.has(field) && !sameValue(localValue, value);
+      const remoteWins = isNewer(clock, entry.clocks[field]);
+      if (isConflict) {
+        conflicts.set(`${change.store}:${change.id}:${field}`, {
+          id: crypto.randomUUID(),
+          at: now,
+          store: change.store,
+          recordId: change.id,
+          field: field === DELETED_FIELD ? 'deleted' : field,
+          kept: remoteWins ? 'remote' : 'local',
+          localValue,
+          remoteValue: value,
+        });
+      }
+      if (remoteWins) {
+        entry.values[field] = value;
+        entry.clocks[field] = clock;
+        entry.changedByRemote = true;
+      }
+    });
+  });
+
+  const writes: SyncWrite[] = [];
+  const settings: { key: string; record: SyncRecord }[] = [];
+  const base: SyncBaseEntry[] = [];
+  const addedSegments: SyncRecord[] = [];
+
+  entries.forEach(entry => {
+    const { [DELETED_FIELD]: deleted, ...fields } = entry.values;
+    const record = deleted === true ? null : { ...fields, id: entry.id };
+    base.push({
+      key: getSyncKey(entry.store, entry.id),
+      store: entry.store,
+      id: entry.id,
+      record: record && stripLocalFields(record),
+      clocks: entry.clocks,
+    });
+    if (!entry.changedByRemote || sameValue(record, entry.current)) return;
+
+    if (entry.store === 'settings') {
+      if (record) settings.push({ key: entry.id, record: fields });
+      return;
+    }
+    writes.push({ store: entry.store, id: entry.id, record: record as { id: string } | null });
+    if (entry.store === 'segments' && record && !entry.current) addedSegments.push(record);
+  });
+
+  // Time the two devices both recorded
+  const localSegments = Array.from(state.records.values())
+    .filter(local => local.store === 'segments' && local.record)
+    .map(local => local.record as SyncRecord);
+  addedSegments.forEach(added => {
+    const overlapping = localSegments.find(seg => seg.id !== added.id && segmentsOverlap(seg, added));
+    if (!overlapping) return;
+    conflicts.set(`segments:${added.id}:time`, {
+      id: crypto.randomUUID(),
+      at: now,
+      store: 'segments',
+      recordId: String(added.id),
+      field: 'time',
+      kept: 'both',
+      localValue: { startTs: overlapping.startTs, endTs: overlapping.endTs },
+      remoteValue: { startTs: added.startTs, endTs: added.endTs },
+    });
+  });
+
+  return { writes, settings, base, conflicts: Array.from(conflicts.values()) };
+};
+
+// Running a sync
+
+const withSyncLock = async <T>(work: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return work();
+  return navigator.locks.request(SYNC_LOCK, { ifAvailable: true }, async (lock) => {
+    if (!lock) throw new Error('Another tab is already syncing');
+    return work();
+  });
+};
+
+// Local changes the next sync would push
+export const countPendingChanges = async (): Promise<number> => {
+  const config = loadSyncConfig();
+  return collectLocalChanges(await readLocalState(), config.deviceId, Date.now()).length;
+};
+
+export const syncNow = (transport?: SyncTransport): Promise<SyncResult> => withSyncLock(async () => {
+  const config = loadSyncConfig();
+  if (isEncryptionEnabled()) {
+    throw new Error('Sync is not available while encryption is on, since the server would see your data');
+  }
+  if (!transport && !isSyncConfigured(config)) {
+    throw new Error('Set a sync server and space first');
+  }
+
+  try {
+    const activeTransport = transport ?? createHttpTransport(config.serverUrl, config.space);
+    const now = Date.now();
+    const state = await readLocalState();
+    const localChanges = collectLocalChanges(state, config.deviceId, now);
+
+    await activeTransport.push(localChanges);
+    // Without base copies this device has never synced, or has been reset
+    const pulled = await activeTransport.pull(state.base.size === 0 ? null : config.cursor);
+    const merged = mergeChanges(state, localChanges, pulled.changes, config.deviceId, now);
+
+    await applySyncChanges(merged.writes, merged.base, state.tombstoneKeys);
+    merged.settings.forEach(({ key, record }) => profileStorage.setItem(key, JSON.stringify(record)));
+    saveSyncConflicts(merged.conflicts);
+    saveSyncConfig({ ...loadSyncConfig(), cursor: pulled.cursor, lastSyncAt: Date.now(), lastError: null });
+
+    if (merged.writes.length + merged.settings.length > 0) {
+      broadcastDataChanged();
+    }
+    return {
+      pushed: localChanges.length,
+      pulled: pulled.changes.filter(change => change.deviceId !== config.deviceId).length,
+      conflicts: merged.conflicts.length,
+    };
+  } catch (error) {
+    saveSyncConfig({ ...loadSyncConfig(), lastError: error instanceof Error ? error.message : 'Sync failed' });
+    throw error;
+  }
+});
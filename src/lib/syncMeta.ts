@@ -0,0 +1,47 @@
+// Sync bookkeeping kept next to the records it describes
+//
+// Synced records carry an updatedAt stamp from their last local write.
+// Deleting one leaves a tombstone with the deletion time until the next sync
+// has pushed it. Base entries hold each record as it was after the last sync,
+// with a clock per field, so the engine can tell which fields changed locally
+// and settle conflicts field by field.
+export const SYNC_TOMBSTONE_STORE = 'syncTombstones';
+export const SYNC_BASE_STORE = 'syncBase';
+
+export type SyncedStoreName = 'sessions' | 'segments' | 'topics' | 'notes' | 'tags';
+
+export const SYNCED_STORES: SyncedStoreName[] = ['sessions', 'segments', 'topics', 'notes', 'tags'];
+
+export interface SyncTombstone {
+  key: string; // store:id
+  store: SyncedStoreName;
+  id: string;
+  deletedAt: number;
+}
+
+export interface FieldClock {
+  ts: number;
+  device: string; // breaks ties between changes made in the same millisecond
+}
+
+export interface SyncBaseEntry {
+  key: string; // store:id
+  store: string;
+  id: string;
+  record: Record<string, unknown> | null; // null once deleted
+  clocks: Record<string, FieldClock>;
+}
+
+export const getSyncKey = (store: string, id: string): string => `${store}:${id}`;
+
+// Delete records and leave tombstones. The transaction must include
+// SYNC_TOMBSTONE_STORE.
+export const deleteSyncedRecords = (tx: IDBTransaction, storeName: SyncedStoreName, ids: string[]): void => {
+  const store = tx.objectStore(storeName);
+  const tombstones = tx.objectStore(SYNC_TOMBSTONE_STORE);
+  const deletedAt = Date.now();
+  ids.forEach(id => {
+    store.delete(id);
+    tombstones.put({ key: getSyncKey(storeName, id), store: storeName, id, deletedAt } satisfies SyncTombstone);
+  });
+};
@@ -0,0 +1,84 @@
+// Coordination between tabs open on the same StudyWatch database
+//
+// One tab at a time holds the timer lock (Web Locks API) and is the only one
+// that opens and closes timer segments. Other tabs mirror it by re-reading
+// IndexedDB whenever a 'changed' message arrives on the BroadcastChannel, and
+// forward their timer actions to the leader as commands. Each profile has its
+// own channel and lock, since each has its own database.
+import { getProfileScopedName } from '@/lib/profiles';
+
+const CHANNEL_NAME = getProfileScopedName('studywatch-sync');
+const LEADER_LOCK = getProfileScopedName('studywatch-timer-leader');
+
+export type TimerCommand =
+  | { action: 'start' }
+  | { action: 'pause' }
+  | { action: 'resume'; gapKind?: 'break' | 'pause' }
+  | { action: 'end' }
+  | { action: 'setTopic'; topicId: string | null }
+  | { action: 'setTags'; tagIds: string[] }
+  | { action: 'resumeWithContext'; topicId: string | null };
+
+export type TabMessage =
+  | { type: 'changed' }
+  | { type: 'command'; command: TimerCommand }
+  | { type: 'activity' }; // user input in another tab, for idle detection
+
+// A channel never receives its own messages, so one per tab is all we need
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+// Tell other tabs to reload anything read from the database
+export const broadcastDataChanged = (): void => {
+  getChannel()?.postMessage({ type: 'changed' } satisfies TabMessage);
+};
+
+export const sendTimerCommand = (command: TimerCommand): void => {
+  getChannel()?.postMessage({ type: 'command', command } satisfies TabMessage);
+};
+
+export const broadcastActivity = (): void => {
+  getChannel()?.postMessage({ type: 'activity' } satisfies TabMessage);
+};
+
+export const subscribeToTabMessages = (handler: (message: TabMessage) => void): (() => void) => {
+  const target = getChannel();
+  if (!target) return () => {};
+  const listener = (event: MessageEvent<TabMessage>) => handler(event.data);
+  target.addEventListener('message', listener);
+  return () => target.removeEventListener('message', listener);
+};
+
+// Queue for the timer lock; onLeader runs once this tab holds it. The lock is
+// kept until the returned function is called or the tab closes, and the next
+// tab in the queue takes over. Browsers without Web Locks act as leader.
+export const requestTimerLeadership = (onLeader: () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onLeader();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release = () => {};
+  navigator.locks
+    .request(LEADER_LOCK, { signal: controller.signal }, () => {
+      onLeader();
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(() => {
+      // Aborted while still waiting in the queue
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+};
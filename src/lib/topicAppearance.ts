@@ -0,0 +1,49 @@
+// Topic appearance - the color and emoji a topic is shown with in charts,
+// the heatmap, history badges and focus mode
+//
+// Colors used to be picked by position in each chart, so a topic changed color
+// from one chart (or day) to the next. A topic without a chosen color now gets
+// one derived from its id, which never changes.
+import type { TopicTree } from '@/lib/topicTree';
+
+export const TOPIC_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+  'hsl(262, 83%, 58%)',
+  'hsl(199, 89%, 48%)',
+  'hsl(43, 96%, 56%)',
+  'hsl(330, 81%, 60%)',
+  'hsl(160, 84%, 39%)',
+];
+
+export const NO_TOPIC_COLOR = 'hsl(var(--muted-foreground))';
+
+const hashId = (id: string): number => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export const getTopicColor = (tree: TopicTree, topicId: string | null): string => {
+  if (!topicId) return NO_TOPIC_COLOR;
+  return tree.byId.get(topicId)?.color || TOPIC_COLORS[hashId(topicId) % TOPIC_COLORS.length];
+};
+
+export const getTopicEmoji = (tree: TopicTree, topicId: string | null): string | null => {
+  return (topicId && tree.byId.get(topicId)?.emoji) || null;
+};
+
+// Only web links, so a stored link can never run script when opened
+export const isValidTopicLink = (link: string): boolean => {
+  try {
+    const url = new URL(link);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,127 @@
+// Topic tree - topics nest through parentId to any depth, and a segment can
+// sit on any of them
+//
+// A topic whose parent is missing, or whose ancestors loop back to it (two
+// devices reparenting at once can do that), is treated as a root so it never
+// drops out of view.
+import type { Topic } from '@/lib/db';
+
+export const TOPIC_PATH_SEPARATOR = ' › ';
+
+export interface TopicTree {
+  byId: Map<string, Topic>;
+  parentOf: Map<string, string | null>; // as placed in the tree
+  children: Map<string | null, Topic[]>; // null holds the roots, sorted by name
+}
+
+const reachesItself = (byId: Map<string, Topic>, topic: Topic): boolean => {
+  const seen = new Set<string>();
+  let parentId = topic.parentId;
+  while (parentId && !seen.has(parentId)) {
+    if (parentId === topic.id) return true;
+    seen.add(parentId);
+    parentId = byId.get(parentId)?.parentId ?? null;
+  }
+  return false;
+};
+
+export const buildTopicTree = (topics: Topic[]): TopicTree => {
+  const byId = new Map(topics.map(topic => [topic.id, topic]));
+  const parentOf = new Map<string, string | null>();
+  const children = new Map<string | null, Topic[]>();
+  [...topics]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(topic => {
+      const parentId = topic.parentId && byId.has(topic.parentId) && !reachesItself(byId, topic)
+        ? topic.parentId
+        : null;
+      parentOf.set(topic.id, parentId);
+      children.set(parentId, [...(children.get(parentId) ?? []), topic]);
+    });
+  return { byId, parentOf, children };
+};
+
+export const getChildTopics = (tree: TopicTree, parentId: string | null): Topic[] => {
+  return tree.children.get(parentId) ?? [];
+};
+
+// From the root down to the topic itself
+export const getTopicPath = (tree: TopicTree, id: string | null): Topic[] => {
+  const path: Topic[] = [];
+  let current = id ? tree.byId.get(id) : undefined;
+  while (current) {
+    path.unshift(current);
+    const parentId = tree.parentOf.get(current.id);
+    current = parentId ? tree.byId.get(parentId) : undefined;
+  }
+  return path;
+};
+
+export const formatTopicPath = (tree: TopicTree, id: string | null): string => {
+  if (!id) return 'No Topic';
+  const path = getTopicPath(tree, id);
+  return path.length > 0 ? path.map(topic => topic.name).join(TOPIC_PATH_SEPARATOR) : 'Unknown';
+};
+
+// The topic and everything below it
+export const getSubtreeIds = (tree: TopicTree, id: string): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (topicId: string) => {
+    if (ids.has(topicId)) return;
+    ids.add(topicId);
+    getChildTopics(tree, topicId).forEach(child => visit(child.id));
+  };
+  visit(id);
+  return ids;
+};
+
+// Time per topic including everything recorded below it. The null key (no
+// topic) carries over unchanged.
+export const rollUpTime = (tree: TopicTree, timeByTopic: Map<string | null, number>): Map<string | null, number> => {
+  const totals = new Map<string | null, number>();
+  timeByTopic.forEach((time, topicId) => {
+    if (topicId === null || !tree.byId.has(topicId)) {
+      totals.set(topicId, (totals.get(topicId) || 0) + time);
+      return;
+    }
+    getTopicPath(tree, topicId).forEach(topic => {
+      totals.set(topic.id, (totals.get(topic.id) || 0) + time);
+    });
+  });
+  return totals;
+};
+
+export interface TopicLevelTime {
+  topicId: string | null;
+  name: string;
+  time: number; // including everything below it
+  hasChildren: boolean;
+}
+
+// One level of the tree for drilling down: the children of parentId with
+// rolled-up time, plus a "General" row for time recorded on parentId itself.
+// At the top level, time without a topic and on deleted topics shows as well.
+export const getTopicLevelTimes = (
+  tree: TopicTree,
+  timeByTopic: Map<string | null, number>,
+  parentId: string | null
+): TopicLevelTime[] => {
+  const totals = rollUpTime(tree, timeByTopic);
+  const rows: TopicLevelTime[] = getChildTopics(tree, parentId).map(topic => ({
+    topicId: topic.id,
+    name: topic.name,
+    time: totals.get(topic.id) || 0,
+    hasChildren: getChildTopics(tree, topic.id).length > 0,
+  }));
+
+  if (parentId) {
+    rows.push({ topicId: parentId, name: 'General', time: timeByTopic.get(parentId) || 0, hasChildren: false });
+  } else {
+    totals.forEach((time, topicId) => {
+      if (topicId !== null && tree.byId.has(topicId)) return;
+      rows.push({ topicId, name: topicId ? 'Unknown' : 'No Topic', time, hasChildren: false });
+    });
+  }
+
+  return rows.filter(row => row.time > 0).sort((a, b) => b.time - a.time);
+};
@@ -0,0 +1,22 @@
+// Trash retention setting with localStorage persistence
+import { profileStorage } from '@/lib/profiles';
+
+const TRASH_RETENTION_KEY = 'studywatch-trash-retention';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+
+export const loadTrashRetentionDays = (): number => {
+  const stored = profileStorage.getItem(TRASH_RETENTION_KEY);
+  if (stored) {
+    const days = parseInt(stored, 10);
+    if (!isNaN(days) && days > 0) {
+      return days;
+    }
+  }
+  return DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = (days: number): void => {
+  profileStorage.setItem(TRASH_RETENTION_KEY, String(days));
+};
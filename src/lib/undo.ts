@@ -0,0 +1,23 @@
+// Undo toasts for operations journaled in the trash store
+import { toast } from 'sonner';
+import { restoreTrashEntry } from '@/lib/db';
+
+export const restoreFromTrash = async (trashId: string, onRestored?: () => void): Promise<void> => {
+  try {
+    await restoreTrashEntry(trashId);
+    toast.success('Restored');
+    onRestored?.();
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : 'Failed to restore');
+  }
+};
+
+// Success toast with an Undo action that restores the given trash entry
+export const showUndoToast = (message: string, trashId: string, onRestored?: () => void): void => {
+  toast.success(message, {
+    action: {
+      label: 'Undo',
+      onClick: () => restoreFromTrash(trashId, onRestored),
+    },
+  });
+};
@@ -1,4 +1,5 @@
 // Wellness reminder settings with localStorage persistence
+import { profileStorage } from '@/lib/profiles';
 
 export interface WellnessSettings {
   hydrationEnabled: boolean;
@@ -19,7 +20,7 @@ export const DEFAULT_WELLNESS_SETTINGS: WellnessSettings = {
 };
 
 export const loadWellnessSettings = (): WellnessSettings => {
-  const stored = localStorage.getItem(WELLNESS_KEY);
+  const stored = profileStorage.getItem(WELLNESS_KEY);
   if (stored) {
     try {
       return { ...DEFAULT_WELLNESS_SETTINGS, ...JSON.parse(stored) };
@@ -31,5 +32,5 @@ export const loadWellnessSettings = (): WellnessSettings => {
 };
 
 export const saveWellnessSettings = (settings: WellnessSettings): void => {
-  localStorage.setItem(WELLNESS_KEY, JSON.stringify(settings));
+  profileStorage.setItem(WELLNESS_KEY, JSON.stringify(settings));
 };
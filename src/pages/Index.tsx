@@ -4,9 +4,10 @@ import { useStudyTimer } from '@/hooks/useStudyTimer';
 import { usePomodoro } from '@/hooks/usePomodoro';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useSoundAlerts } from '@/hooks/useSoundAlerts';
+import { useIdleDetection } from '@/hooks/useIdleDetection';
 import { TimerControls } from '@/components/TimerControls';
 import { TopicSelector } from '@/components/TopicSelector';
-import { SubtopicSelector } from '@/components/SubtopicSelector';
+import { TagPicker } from '@/components/TagPicker';
 import { StatusIndicator } from '@/components/StatusIndicator';
 import { HistoryPanel } from '@/components/HistoryPanel';
 import { AnalyticsPanel } from '@/components/AnalyticsPanel';
@@ -17,6 +18,7 @@ import { FocusMode, FocusModeButton } from '@/components/FocusMode';
 import { PomodoroSettingsDialog, PomodoroIndicator } from '@/components/PomodoroSettings';
 import { SessionNotesPanel } from '@/components/SessionNotesPanel';
 import { ExportButton } from '@/components/ExportPanel';
+import { ImportButton } from '@/components/ImportPanel';
 import { KeyboardShortcutsInfo } from '@/components/KeyboardShortcutsInfo';
 import { SoundSettings } from '@/components/SoundSettings';
 import { AnimeBackground } from '@/components/AnimeBackground';
@@ -28,10 +30,29 @@ import { BreakActivities } from '@/components/BreakActivities';
 import { AchievementsPanel } from '@/components/AchievementsPanel';
 import { WeeklyReports } from '@/components/WeeklyReports';
 import { WellnessReminders } from '@/components/WellnessReminders';
+import { TopicManager } from '@/components/TopicManager';
+import { TrashButton } from '@/components/TrashPanel';
+import { IntegrityButton } from '@/components/IntegrityPanel';
+import { RecoveryDialog } from '@/components/RecoveryDialog';
+import { AwayDialog } from '@/components/AwayDialog';
+import { ReflectionDialog } from '@/components/ReflectionDialog';
+import { DistractionButton } from '@/components/DistractionButton';
+import { FocusQualityStats } from '@/components/StatsCards';
+import { loadReflectionPromptEnabled } from '@/lib/reflectionSettings';
+import { IdleSettings } from '@/components/IdleSettings';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { StorageButton } from '@/components/StoragePanel';
+import { EncryptionSettings } from '@/components/EncryptionSettings';
+import { SyncButton } from '@/components/SyncPanel';
+import { AutoBackupButton } from '@/components/AutoBackupPanel';
 import InstallPrompt from '@/components/InstallPrompt';
-import { Clock, Flame, Timer, Hourglass } from 'lucide-react';
-import { getAllSegments, getAllTopics, getSubtopicsByTopic } from '@/lib/db';
+import { Clock, Flame, Timer, Hourglass, MonitorSmartphone } from 'lucide-react';
+import { getDailyTotals, getAllTopics, getSegmentsInRange } from '@/lib/db';
+import { summarizeDistractions } from '@/lib/distractions';
+import { buildTopicTree, getTopicPath } from '@/lib/topicTree';
+import { getTopicColor, getTopicEmoji } from '@/lib/topicAppearance';
 import { calculateStreak } from '@/lib/goals';
+import { IdleSettings as IdleSettingsValue, loadIdleSettings, saveIdleSettings } from '@/lib/idleSettings';
 import { checkAndUnlockAchievements, saveProgress, loadProgress, AchievementProgress } from '@/lib/achievements';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -49,24 +70,35 @@ const Index = () => {
   const [selectedAnalyticsDate, setSelectedAnalyticsDate] = useState<Date | null>(null);
   const [focusModeOpen, setFocusModeOpen] = useState(false);
   const [streak, setStreak] = useState(0);
-  const [topicName, setTopicName] = useState<string | undefined>();
-  const [subtopicName, setSubtopicName] = useState<string | undefined>();
+  const [topicPath, setTopicPath] = useState<string[]>([]);
+  const [topicStyle, setTopicStyle] = useState<{ color?: string; emoji: string | null }>({ emoji: null });
+  const [reflectionSessionId, setReflectionSessionId] = useState<string | null>(null);
+  const [distractionRequest, setDistractionRequest] = useState(0);
+  const [distractionsChanged, setDistractionsChanged] = useState(0);
+  const [todayDistractions, setTodayDistractions] = useState({ count: 0, ms: 0 });
   const [pomodoroEnabled, setPomodoroEnabled] = useState(false);
   const {
     state,
+    sessionId,
     currentTopicId,
-    currentSubtopicId,
+    currentTagIds,
     todayTime,
     allTimeTotal,
     topicTime,
-    subtopicTime,
     historyRefreshTrigger,
+    isTimerLeader,
+    pendingRecovery,
+    resolveRecovery,
+    awayPeriod,
+    pauseForIdle,
+    markReturned,
+    resolveAway,
     startSession,
     pauseSession,
     resumeSession,
     endCurrentSession,
     setTopic,
-    setSubtopic,
+    setTags,
     resumeWithContext,
     refreshData
   } = useStudyTimer();
@@ -80,51 +112,73 @@ const Index = () => {
     setVolume
   } = useSoundAlerts();
 
-  // Pomodoro with sound callbacks
+  // Auto-pause after inactivity; only the tab recording the timer watches
+  const [idleSettings, setIdleSettings] = useState<IdleSettingsValue>(loadIdleSettings);
+  const handleIdleSettingsChange = useCallback((settings: IdleSettingsValue) => {
+    setIdleSettings(settings);
+    saveIdleSettings(settings);
+  }, []);
+  useIdleDetection({
+    enabled: idleSettings.enabled && state === 'running' && isTimerLeader && !pendingRecovery,
+    thresholdMs: idleSettings.thresholdMinutes * 60 * 1000,
+    useSystemIdle: idleSettings.enabled && idleSettings.useSystemIdle,
+    onIdle: pauseForIdle,
+    onActivity: awayPeriod?.endTs === null ? markReturned : undefined,
+  });
+
+  // The storage warning opens the export dialog with a backup selected
+  const [backupRequest, setBackupRequest] = useState(0);
+  const requestBackup = useCallback(() => setBackupRequest(n => n + 1), []);
+  const [restoreRequest, setRestoreRequest] = useState<{ name: string; text: string } | null>(null);
+
+  // Pomodoro with sound callbacks. Study time stops for the break, which is
+  // recorded once the next work phase starts.
   const handleWorkComplete = useCallback(() => {
     playSound('workComplete');
-  }, [playSound]);
+    if (state === 'running') pauseSession();
+  }, [playSound, state, pauseSession]);
   const handleBreakComplete = useCallback(() => {
     playSound('breakComplete');
-  }, [playSound]);
+    if (state === 'paused') resumeSession('break');
+  }, [playSound, state, resumeSession]);
   const pomodoro = usePomodoro(handleWorkComplete, handleBreakComplete);
 
   // Load streak
   useEffect(() => {
     const loadStreak = async () => {
-      const segments = await getAllSegments();
-      const dayMap = new Map<string, number>();
-      segments.filter(s => s.endTs).forEach(seg => {
-        const date = new Date(seg.startTs);
-        const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-        dayMap.set(key, (dayMap.get(key) || 0) + ((seg.endTs || 0) - seg.startTs));
-      });
+      const days = await getDailyTotals();
+      const dayMap = new Map(days.map(day => [day.date, day.total]));
       setStreak(calculateStreak(dayMap));
     };
     loadStreak();
   }, [historyRefreshTrigger]);
 
-  // Load topic/subtopic names
+  // Distractions logged today, including those in the running segment
+  useEffect(() => {
+    const loadDistractions = async () => {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+      const now = Date.now();
+      const segments = await getSegmentsInRange(startOfDay.getTime(), now);
+      setTodayDistractions(summarizeDistractions(segments, startOfDay.getTime(), now, now));
+    };
+    loadDistractions();
+  }, [historyRefreshTrigger, distractionsChanged]);
+
+  // Load the names along the current topic's path, and how it is shown
   useEffect(() => {
     const loadNames = async () => {
       if (currentTopicId) {
-        const topics = await getAllTopics();
-        const topic = topics.find(t => t.id === currentTopicId);
-        setTopicName(topic?.name);
-        if (currentSubtopicId) {
-          const subtopics = await getSubtopicsByTopic(currentTopicId);
-          const subtopic = subtopics.find(s => s.id === currentSubtopicId);
-          setSubtopicName(subtopic?.name);
-        } else {
-          setSubtopicName(undefined);
-        }
+        const tree = buildTopicTree(await getAllTopics());
+        setTopicPath(getTopicPath(tree, currentTopicId).map(topic => topic.name));
+        setTopicStyle({ color: getTopicColor(tree, currentTopicId), emoji: getTopicEmoji(tree, currentTopicId) });
       } else {
-        setTopicName(undefined);
-        setSubtopicName(undefined);
+        setTopicPath([]);
+        setTopicStyle({ emoji: null });
       }
     };
     loadNames();
-  }, [currentTopicId, currentSubtopicId]);
+  }, [currentTopicId, historyRefreshTrigger]);
 
   // Determine which timer mode to use
   const isPomodoro = pomodoroEnabled;
@@ -151,6 +205,8 @@ const Index = () => {
   const handleResume = useCallback(() => {
     if (isPomodoro) {
       pomodoro.resume();
+      // Study picks up again when the break ends
+      if (pomodoro.currentMode === 'break') return;
     }
     resumeSession();
   }, [isPomodoro, pomodoro, resumeSession]);
@@ -160,7 +216,11 @@ const Index = () => {
     }
     playSound('stop');
     endCurrentSession();
-  }, [isPomodoro, pomodoro, playSound, endCurrentSession]);
+    if (sessionId && loadReflectionPromptEnabled()) {
+      setReflectionSessionId(sessionId);
+    }
+  }, [isPomodoro, pomodoro, playSound, endCurrentSession, sessionId]);
+  const handleDistractionLogged = useCallback(() => setDistractionsChanged(n => n + 1), []);
   const handleSkip = useCallback(() => {
     pomodoro.skip();
   }, [pomodoro]);
@@ -172,6 +232,7 @@ const Index = () => {
     onResume: handleResume,
     onEnd: handleEnd,
     onSkip: isPomodoro && pomodoro.currentMode === 'break' ? handleSkip : undefined,
+    onDistraction: state === 'running' ? () => setDistractionRequest(n => n + 1) : undefined,
     timerState,
     enabled: !focusModeOpen
   });
@@ -182,8 +243,15 @@ const Index = () => {
       {/* PWA Install Prompt */}
       <InstallPrompt />
 
+      {/* Ask what to do with time recorded while the app was gone */}
+      <RecoveryDialog recovery={pendingRecovery} onResolve={resolveRecovery} />
+      <AwayDialog away={awayPeriod} onResolve={resolveAway} />
+
+      {/* Optional reflection on the session that just ended */}
+      <ReflectionDialog sessionId={reflectionSessionId} onClose={() => setReflectionSessionId(null)} onSaved={refreshData} />
+
       {/* Focus Mode Overlay */}
-      <FocusMode isOpen={focusModeOpen} onClose={() => setFocusModeOpen(false)} timerState={state} todayTime={isPomodoro ? pomodoro.timeRemaining : todayTime} topicName={topicName} subtopicName={subtopicName} onStart={handleStart} onPause={handlePause} onResume={handleResume} onEnd={handleEnd} />
+      <FocusMode isOpen={focusModeOpen} onClose={() => setFocusModeOpen(false)} timerState={state} todayTime={isPomodoro ? pomodoro.timeRemaining : todayTime} topicPath={topicPath} topicColor={topicStyle.color} topicEmoji={topicStyle.emoji} onStart={handleStart} onPause={handlePause} onResume={handleResume} onEnd={handleEnd} />
 
       {/* Header */}
       <header className="border-b border-border/50 px-6 py-4 flex-shrink-0 relative z-10 bg-background/80 backdrop-blur-xl">
@@ -217,12 +285,28 @@ const Index = () => {
                 <span className="text-sm font-semibold text-primary">{streak}</span>
                 <span className="text-xs text-muted-foreground hidden sm:inline">day streak</span>
               </motion.div>}
+
+            {/* Another tab owns the timer; this one mirrors it */}
+            {!isTimerLeader && <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-muted/50 border border-border/50" title="The timer is being recorded in another tab. Controls here are forwarded to it.">
+                <MonitorSmartphone className="h-4 w-4 text-muted-foreground" />
+                <span className="text-xs text-muted-foreground hidden sm:inline">Other tab</span>
+              </div>}
             
-            <ExportButton />
+            <ProfileSwitcher isTimerActive={state !== 'idle'} onTopicsCopied={refreshData} />
+            <ExportButton backupRequest={backupRequest} />
+            <ImportButton isTimerActive={state !== 'idle'} onImported={refreshData} restoreRequest={restoreRequest} />
+            <TopicManager refreshTrigger={historyRefreshTrigger} onChange={refreshData} />
+            <TrashButton refreshTrigger={historyRefreshTrigger} onRestored={refreshData} />
+            <IntegrityButton refreshTrigger={historyRefreshTrigger} onRepaired={refreshData} />
+            <StorageButton refreshTrigger={historyRefreshTrigger} onExportBackup={requestBackup} />
+            <AutoBackupButton refreshTrigger={historyRefreshTrigger} onRestore={setRestoreRequest} />
+            <EncryptionSettings onDataRewritten={refreshData} />
+            <SyncButton refreshTrigger={historyRefreshTrigger} onSynced={refreshData} />
             <WeeklyReports refreshTrigger={historyRefreshTrigger} />
             <AchievementsPanel refreshTrigger={historyRefreshTrigger} />
             <WellnessReminders isTimerRunning={state === 'running'} />
             <KeyboardShortcutsInfo />
+            <IdleSettings settings={idleSettings} onChange={handleIdleSettingsChange} />
             <SoundSettings soundEnabled={soundEnabled} volume={volume} onSoundEnabledChange={setSoundEnabled} onVolumeChange={setVolume} />
             <FocusModeButton onClick={() => setFocusModeOpen(true)} />
             <StatusIndicator state={state} pomodoroMode={isPomodoro && pomodoro.isActive ? pomodoro.currentMode : null} />
@@ -298,18 +382,20 @@ const Index = () => {
               {/* Controls */}
               <div className="mb-8">
                 <TimerControls state={pomodoroEnabled ? getPomodoroTimerState() : state} onStart={handleStart} onPause={handlePause} onResume={handleResume} onEnd={handleEnd} onSkip={pomodoroEnabled ? handleSkip : undefined} isPomodoroBreak={pomodoroEnabled && pomodoro.currentMode === 'break'} />
+                <div className="flex justify-center mt-4">
+                  <DistractionButton sessionId={sessionId} disabled={state !== 'running'} logRequest={distractionRequest} onLogged={handleDistractionLogged} />
+                </div>
               </div>
 
-              {/* Topic & Subtopic Selectors */}
+              {/* Topic & Tag Selectors */}
               <div className="pt-6 border-t border-border/50 space-y-4">
                 <div className="grid grid-cols-2 gap-4">
-                  <TopicSelector selectedId={currentTopicId} onSelect={setTopic} disabled={state === 'idle'} />
-                  <SubtopicSelector topicId={currentTopicId} selectedId={currentSubtopicId} onSelect={setSubtopic} disabled={state === 'idle'} />
+                  <TopicSelector selectedId={currentTopicId} onSelect={setTopic} disabled={state === 'idle'} refreshTrigger={historyRefreshTrigger} />
+                  <TagPicker selectedIds={currentTagIds} onChange={setTags} disabled={state === 'idle'} refreshTrigger={historyRefreshTrigger} />
                 </div>
 
-                {state !== 'idle' && (currentTopicId || currentSubtopicId) && <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border/50">
-                    {currentTopicId && <TimerDisplay milliseconds={topicTime} label="Topic" size="sm" variant="muted" />}
-                    {currentSubtopicId && <TimerDisplay milliseconds={subtopicTime} label="Sub-topic" size="sm" variant="muted" />}
+                {state !== 'idle' && currentTopicId && <div className="pt-4 border-t border-border/50">
+                    <TimerDisplay milliseconds={topicTime} label="Topic" size="sm" variant="muted" />
                   </div>}
               </div>
 
@@ -324,6 +410,8 @@ const Index = () => {
               </p>
             </motion.div>
             
+            <FocusQualityStats grossTime={todayTime} distractedTime={todayDistractions.ms} distractions={todayDistractions.count} />
+
             {/* Goals & Analytics Row */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <GoalsPanel refreshTrigger={historyRefreshTrigger} currentTodayTime={todayTime} />
@@ -341,14 +429,17 @@ const Index = () => {
           <div className="flex flex-col gap-6 min-h-0">
             {/* Session Notes & Tasks */}
             <div className="h-[320px]">
-              <SessionNotesPanel />
+              <SessionNotesPanel
+                context={{ sessionId, topicId: currentTopicId }}
+                onChange={refreshData}
+              />
             </div>
             
             <div className="flex-1 min-h-0">
               <HistoryPanel refreshTrigger={historyRefreshTrigger} onResumeEntry={resumeWithContext} onDataChange={refreshData} />
             </div>
             
-            <CalendarHeatmap refreshTrigger={historyRefreshTrigger} selectedDate={selectedAnalyticsDate} onDateSelect={setSelectedAnalyticsDate} />
+            <CalendarHeatmap refreshTrigger={historyRefreshTrigger} selectedDate={selectedAnalyticsDate} onDateSelect={setSelectedAnalyticsDate} onTotalsRebuilt={refreshData} />
           </div>
         </div>
       </main>